@@ -1,20 +1,566 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import Experience from './components/Experience';
 import Overlay from './components/Overlay';
-import { TreeMorphState } from './types';
+import MessageCard from './components/MessageCard';
+import CaptureControls from './components/CaptureControls';
+import TimelineBar from './components/TimelineBar';
+import TreeProfileEditor from './components/TreeProfileEditor';
+import SceneNarrator from './components/SceneNarrator';
+import DesignEditor from './components/DesignEditor';
+import { CaptureApi } from './components/CaptureController';
+import { PlacedOrnament, TreeMorphState, Vec3 } from './types';
+import { generateSeed, readSeedFromUrl, writeSeedToUrl } from './utils/seed';
+import { loadImagePixels } from './utils/image';
+import { getOrnamentMessage, getOrnamentMessageIds, hasOrnamentMessage } from './utils/messages';
+import { DEFAULT_THEME_ID, applyThemeToDocument, getTheme } from './utils/themes';
+import { DEFAULT_TIER_ID, QualitySetting, getQualityTier } from './utils/quality';
+import { AudioPlayer, createAudioPlayer } from './utils/audio';
+import { createMorphTimeline } from './utils/timeline';
+import { DEFAULT_TREE_PROFILE, TreeProfile } from './utils/treeProfile';
+import { BlinkPatternName, DEFAULT_BLINK_PATTERN } from './utils/lights';
+import { DEFAULT_WEATHER_ID, WeatherId, getWeather } from './utils/weather';
+import { exportSceneConfig, getSceneConfig, subscribeSceneConfig } from './utils/sceneConfig';
+import { downloadBlob } from './utils/capture';
+import { prefersReducedMotion, subscribeReducedMotion } from './utils/motion';
+import { CameraProgram, DEFAULT_CAMERA_PROGRAM } from './utils/camera';
+import { hasModifier, isTypingTarget } from './utils/keyboard';
+import { LAYOUTS } from './utils/layouts';
+import { LocaleId, applyLocaleToDocument, detectLocale, getLocale, getMessages, saveLocale } from './utils/i18n';
+import { ADVENT_REWARDS, getCalendarNow, isChristmasDay, isDoorUnlocked, loadOpenedDoors, saveOpenedDoors } from './utils/advent';
+import { DEFAULT_ROOM_TOOL, RoomClient, RoomState, RoomTool, createRoomClient, loadRoomName, readRoomFromUrl, saveRoomName, writeRoomToUrl } from './utils/room';
+import { createPlacedId, isPlacedId } from './utils/ornaments';
+import {
+  DEFAULT_EDITOR_TOOL,
+  EditorTool,
+  canPlace,
+  clampSize,
+  commitDesign,
+  createDesignHistory,
+  exportDesign,
+  loadDesign,
+  moveInDesign,
+  parseDesign,
+  redoDesign,
+  removeFromDesign,
+  saveDesign,
+  undoDesign
+} from './utils/design';
+import {
+  CardDetails,
+  GreetingCard,
+  clearCardFromUrl,
+  readCardFromUrl,
+  writeCardToUrl
+} from './utils/share';
+
+// A fresh card says it the way the visitor's language does
+const defaultCard = (locale: LocaleId): CardDetails => {
+  const { holiday } = getMessages(locale);
+  return { recipient: '', title: holiday.title, subtitle: holiday.subtitle, themeId: DEFAULT_THEME_ID };
+};
 
 const App: React.FC = () => {
-  const [treeState, setTreeState] = useState<TreeMorphState>(TreeMorphState.TREE_SHAPE);
+  // A shared card link (#c1...) rebuilds the sender's exact scene
+  const [linkedCard] = useState<GreetingCard | null>(readCardFromUrl);
+  const [locale, setLocale] = useState<LocaleId>(detectLocale);
+  const [treeState, setTreeState] = useState<TreeMorphState>(linkedCard?.state ?? TreeMorphState.TREE_SHAPE);
+  // Seed drives every layout; read once from the link so shared URLs reproduce the same tree
+  const [seed, setSeed] = useState<string>(() => linkedCard?.seed ?? readSeedFromUrl() ?? generateSeed());
+  const [greeting, setGreeting] = useState<string>(() => linkedCard?.greeting ?? getMessages(locale).holiday.greeting);
+  const [card, setCard] = useState<CardDetails>(() => linkedCard ?? defaultCard(locale));
+  const [image, setImage] = useState<ImageData | null>(null);
+  const [imageFailed, setImageFailed] = useState(false);
+  const [treeProfile, setTreeProfile] = useState<TreeProfile>(DEFAULT_TREE_PROFILE);
+  const [lightPattern, setLightPattern] = useState<BlinkPatternName>(DEFAULT_BLINK_PATTERN);
+  const [weatherId, setWeatherId] = useState<WeatherId>(DEFAULT_WEATHER_ID);
+  // data/scene.json; edits hot-reload in dev without touching any of the state here
+  const [sceneConfig, setSceneConfig] = useState(getSceneConfig);
+  useEffect(() => subscribeSceneConfig(setSceneConfig), []);
+  // Advent calendar. The date is checked once a minute, so doors unlock at midnight with the page open
+  const [calendarNow, setCalendarNow] = useState(getCalendarNow);
+  const [openedDoors, setOpenedDoors] = useState(() => loadOpenedDoors(calendarNow));
+  const christmas = isChristmasDay(calendarNow);
+  // On Christmas Day every decoration is up and the lights burn steady: the tree is fully lit
+  const adventDays = christmas ? ADVENT_REWARDS.map((r) => r.day) : openedDoors;
+  const activeLightPattern = christmas ? 'steady' : lightPattern;
+  const [selectedOrnament, setSelectedOrnament] = useState<number | null>(null);
+  // Keyboard focus steps through the ornaments that hide a note
+  const [focusedOrnament, setFocusedOrnament] = useState<number | null>(null);
+  const ornamentTotal = sceneConfig.ornaments.spheres.count + sceneConfig.ornaments.gifts.count;
+  const noteIds = useMemo(() => getOrnamentMessageIds().filter((id) => id < ornamentTotal), [ornamentTotal]);
+  // Follows the system setting until it's switched in the overlay
+  const [reducedMotion, setReducedMotion] = useState(prefersReducedMotion);
+  useEffect(() => subscribeReducedMotion(setReducedMotion), []);
+  const [cameraProgram, setCameraProgram] = useState<CameraProgram>(DEFAULT_CAMERA_PROGRAM);
+  // Latest line for the screen-reader live region
+  const [announcement, setAnnouncement] = useState('');
+  const messages = getMessages(locale);
+  const theme = getTheme(card.themeId);
+  // 'auto' follows the tier the frame-time governor settled on
+  const [qualitySetting, setQualitySetting] = useState<QualitySetting>('auto');
+  const [autoTierId, setAutoTierId] = useState(DEFAULT_TIER_ID);
+  const quality = getQualityTier(qualitySetting === 'auto' ? autoTierId : qualitySetting);
+  const captureRef = useRef<CaptureApi | null>(null);
+  // Loaded music; the scene reads it every frame, the overlay only needs its name and play state
+  const audioRef = useRef<AudioPlayer | null>(null);
+  const [audioTrack, setAudioTrack] = useState<string | null>(null);
+  const [audioPlaying, setAudioPlaying] = useState(false);
+  const [audioFailed, setAudioFailed] = useState(false);
+  // Morph progress shared by the scene and the timeline bar
+  const [timeline] = useState(() => createMorphTimeline());
+  // True from the start of a morph until the scene has fully assembled
+  const [transitioning, setTransitioning] = useState(true);
+  // Shared decorating room (?room=<id>): joined while roomId is set
+  const [roomId, setRoomId] = useState<string | null>(readRoomFromUrl);
+  const [roomName, setRoomName] = useState(loadRoomName);
+  const [room, setRoom] = useState<RoomClient | null>(null);
+  const [roomState, setRoomState] = useState<RoomState | null>(null);
+  const [roomTool, setRoomTool] = useState<RoomTool>(DEFAULT_ROOM_TOOL);
+  // The visitor's own ornaments, remembered in the browser. While the editor is open clicks on
+  // the tree edit them; a drag in progress is shown on top of the design and becomes one undo step
+  const [designHistory, setDesignHistory] = useState(() => createDesignHistory(loadDesign()));
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editorTool, setEditorTool] = useState<EditorTool>(DEFAULT_EDITOR_TOOL);
+  const [dragged, setDragged] = useState<{ id: number; position: Vec3 } | null>(null);
+  const [designLoadFailed, setDesignLoadFailed] = useState(false);
+  const design = useMemo(
+    () => (dragged ? moveInDesign(designHistory.present, dragged.id, dragged.position) : designHistory.present),
+    [designHistory.present, dragged]
+  );
+  // Shared ornaments first: if the two together ever overflow the scene, the local extras give way
+  const placedOrnaments = useMemo(
+    () => (roomState ? [...roomState.ornaments, ...design] : design),
+    [design, roomState]
+  );
+
+  useEffect(() => {
+    writeSeedToUrl(seed);
+  }, [seed]);
+
+  // One connection per room; leaving or switching closes it
+  useEffect(() => {
+    writeRoomToUrl(roomId);
+    if (!roomId) return;
+    const client = createRoomClient(roomId, roomName || messages.room.guest);
+    setRoom(client);
+    setRoomState(client.getState());
+    const unsubscribe = client.subscribe(setRoomState);
+    return () => {
+      unsubscribe();
+      client.close();
+      setRoom(null);
+      setRoomState(null);
+    };
+  }, [roomId]);
+
+  const handleJoinRoom = (id: string, name: string) => {
+    saveRoomName(name);
+    setRoomName(name);
+    setRoomId(id);
+  };
+
+  useEffect(() => {
+    saveDesign(designHistory.present);
+  }, [designHistory.present]);
+
+  const editDesign = (next: PlacedOrnament[]) => setDesignHistory((history) => commitDesign(history, next));
+
+  const handleEditorOpen = (open: boolean) => {
+    setEditorOpen(open);
+    setDragged(null);
+    // Ornaments are placed on the standing tree
+    if (open) setTreeState(TreeMorphState.TREE_SHAPE);
+  };
+
+  const handleLoadDesign = (file: File) => {
+    file
+      .text()
+      .then((text) => {
+        editDesign(parseDesign(text));
+        setDesignLoadFailed(false);
+        setTreeState(TreeMorphState.TREE_SHAPE);
+      })
+      .catch((err) => {
+        setDesignLoadFailed(true);
+        console.error(err);
+      });
+  };
+
+  const handleSaveDesign = () => {
+    downloadBlob(new Blob([exportDesign(designHistory.present)], { type: 'application/json' }), 'ornaments.json');
+  };
+
+  // Undo and redo from the keyboard while editing: Ctrl/Cmd+Z, Shift+Ctrl/Cmd+Z or Ctrl+Y
+  useEffect(() => {
+    if (!editorOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTypingTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        setDesignHistory(undoDesign);
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        setDesignHistory(redoDesign);
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [editorOpen]);
+
+  // While editing, a click on one of the visitor's ornaments is for the editor; in a room a click on
+  // a placed ornament recolors or removes it, depending on the tool
+  const handleSelectOrnament = (id: number) => {
+    if (editorOpen && designHistory.present.some((o) => o.id === id)) {
+      if (editorTool.mode === 'remove') editDesign(removeFromDesign(designHistory.present, id));
+      return;
+    }
+    if (room && isPlacedId(id)) {
+      if (roomTool.mode === 'recolor') room.recolor(id, roomTool.colorSlot);
+      else if (roomTool.mode === 'remove') room.remove(id);
+      return;
+    }
+    // Only ornaments with a note open a card; anything else would leave an invisible selection
+    if (hasOrnamentMessage(id)) setSelectedOrnament(id);
+  };
+
+  const handlePlaceOrnament = editorOpen
+    ? editorTool.mode === 'place' && canPlace(placedOrnaments, editorTool.type)
+      ? (position: Vec3) => editDesign([
+        ...designHistory.present,
+        { id: createPlacedId(), type: editorTool.type, position, colorSlot: editorTool.colorSlot, size: clampSize(editorTool.size) }
+      ])
+      : undefined
+    : room && roomTool.mode === 'place' && canPlace(placedOrnaments, roomTool.type)
+      ? (position: Vec3) =>
+        room.place({ id: createPlacedId(), type: roomTool.type, position, colorSlot: roomTool.colorSlot, size: 1 })
+      : undefined;
+
+  // Only the visitor's own ornaments can be dragged
+  const handleDragOrnament = editorOpen && editorTool.mode === 'move'
+    ? (id: number, position: Vec3) => {
+      if (designHistory.present.some((o) => o.id === id)) setDragged({ id, position });
+    }
+    : undefined;
+
+  const handleDropOrnament = (id: number) => {
+    if (dragged?.id === id) editDesign(moveInDesign(designHistory.present, id, dragged.position));
+    setDragged(null);
+  };
+
+  useEffect(() => {
+    const id = window.setInterval(() => setCalendarNow(getCalendarNow()), 60000);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const handleOpenDoor = (day: number) => {
+    const now = getCalendarNow();
+    if (!isDoorUnlocked(day, now) || openedDoors.includes(day)) return;
+    const next = [...openedDoors, day].sort((a, b) => a - b);
+    setOpenedDoors(next);
+    saveOpenedDoors(now, next);
+    // Show the new decoration where it hangs
+    setTreeState(TreeMorphState.TREE_SHAPE);
+  };
+
+  // Overlay colors follow the theme too
+  useEffect(() => {
+    applyThemeToDocument(theme);
+  }, [theme]);
+
+  useEffect(() => {
+    applyLocaleToDocument(getLocale(locale));
+  }, [locale]);
+
+  // Untouched holiday phrases follow the language; anything the sender wrote stays
+  const handleLocaleChange = (next: LocaleId) => {
+    const from = getMessages(locale).holiday;
+    const to = getMessages(next).holiday;
+    setCard((c) => ({
+      ...c,
+      title: c.title === from.title ? to.title : c.title,
+      subtitle: c.subtitle === from.subtitle ? to.subtitle : c.subtitle
+    }));
+    setGreeting((g) => (g === from.greeting ? to.greeting : g));
+    setLocale(next);
+    saveLocale(next);
+  };
+
+  const applyCard = (next: GreetingCard) => {
+    setCard(next);
+    setTreeState(next.state);
+    setSeed(next.seed);
+    setGreeting(next.greeting);
+  };
+
+  // Pasting another card link into the address bar switches without a reload
+  useEffect(() => {
+    const onHashChange = () => {
+      const next = readCardFromUrl();
+      if (next) applyCard(next);
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  // Keyboard: number keys pick a layout, [ and ] step through the ornaments with notes,
+  // Enter opens the focused one. The camera keys live in KeyboardController
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (hasModifier(e) || isTypingTarget(e.target) || selectedOrnament !== null) return;
+      const layout = /^[1-9]$/.test(e.key) ? LAYOUTS[Number(e.key) - 1] : undefined;
+      // The picture layout needs a picture first
+      if (layout && (layout.state !== TreeMorphState.IMAGE || image)) {
+        setTreeState(layout.state);
+      } else if ((e.key === '[' || e.key === ']') && noteIds.length > 0) {
+        const current = focusedOrnament === null ? -1 : noteIds.indexOf(focusedOrnament);
+        const step = e.key === ']' ? 1 : -1;
+        const index = current === -1 ? (step === 1 ? 0 : noteIds.length - 1) : (current + step + noteIds.length) % noteIds.length;
+        setFocusedOrnament(noteIds[index]);
+        const note = getOrnamentMessage(noteIds[index]);
+        setAnnouncement(messages.narration.ornament(index + 1, noteIds.length, note?.title ?? ''));
+      } else if (e.key === 'Enter' && focusedOrnament !== null && !(e.target instanceof HTMLButtonElement)) {
+        setSelectedOrnament(focusedOrnament);
+      } else if (e.key === 'Escape') {
+        setFocusedOrnament(null);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [selectedOrnament, focusedOrnament, noteIds, image, messages]);
+
+  // Live region lines for morphs, in the overlay's language
+  const handleTransitionStart = (state: TreeMorphState) => {
+    setTransitioning(true);
+    setAnnouncement(messages.narration.morphing(messages.layouts[state]));
+  };
+
+  const handleTransitionEnd = (state: TreeMorphState) => {
+    setTransitioning(false);
+    const { narration } = messages;
+    setAnnouncement(`${narration.arrived(messages.layouts[state])} ${narration.scene(
+      messages.themes[theme.id] ?? theme.label,
+      messages.lightPatterns[activeLightPattern],
+      messages.weatherPresets[weatherId],
+      adventDays.length
+    )}`);
+  };
+
+  // Apply the composed card locally and put it in the URL. Returns the link to share
+  const handleShareCard = (next: GreetingCard): string => {
+    applyCard(next);
+    return writeCardToUrl(next);
+  };
+
+  // Local pictures never leave the browser: decoded and downsampled right here
+  const handleImageFile = (file: File) => {
+    loadImagePixels(file)
+      .then((pixels) => {
+        setImage(pixels);
+        setImageFailed(false);
+        setTreeState(TreeMorphState.IMAGE);
+      })
+      .catch((err) => {
+        setImageFailed(true);
+        console.error(err);
+      });
+  };
+
+  // A file that won't play (not audio, or not decodable) is dropped and reported in the overlay
+  const failAudio = (player: AudioPlayer | null, err: unknown) => {
+    console.error(err);
+    if (player && audioRef.current !== player) return; // Already replaced by another file
+    audioRef.current?.dispose();
+    audioRef.current = null;
+    setAudioTrack(null);
+    setAudioPlaying(false);
+    setAudioFailed(true);
+  };
+
+  // Local music files are played and analysed in the browser, like pictures
+  const handleAudioFile = (file: File) => {
+    audioRef.current?.dispose();
+    audioRef.current = null;
+    setAudioPlaying(false);
+    try {
+      const player = createAudioPlayer(file);
+      audioRef.current = player;
+      setAudioTrack(player.name);
+      player
+        .play()
+        .then(() => {
+          setAudioPlaying(true);
+          setAudioFailed(false);
+        })
+        .catch((err) => failAudio(player, err));
+    } catch (err) {
+      failAudio(null, err);
+    }
+  };
+
+  const toggleAudio = () => {
+    const player = audioRef.current;
+    if (!player) return;
+    if (player.isPlaying()) {
+      player.pause();
+      setAudioPlaying(false);
+    } else {
+      player
+        .play()
+        .then(() => setAudioPlaying(true))
+        .catch((err) => failAudio(player, err));
+    }
+  };
+
+  // Save the running scene's config, e.g. as the start of a variant
+  const handleExportConfig = () => {
+    downloadBlob(new Blob([exportSceneConfig(sceneConfig)], { type: 'application/json' }), 'scene.json');
+  };
+
+  // Release the audio context with the app
+  useEffect(() => () => audioRef.current?.dispose(), []);
 
   return (
-    <div className="relative w-full h-screen bg-arix-dark overflow-hidden">
+    <div 
+      className="relative w-full h-screen bg-arix-dark overflow-hidden"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        const file = e.dataTransfer.files[0];
+        if (file) handleImageFile(file);
+      }}
+    >
       {/* 3D Canvas Layer */}
       <div className="absolute inset-0 z-0">
-        <Experience treeState={treeState} />
+        <Experience 
+          treeState={treeState} 
+          seed={seed} 
+          greeting={greeting} 
+          image={image} 
+          treeProfile={treeProfile}
+          lightPattern={activeLightPattern}
+          adventDays={adventDays}
+          weather={getWeather(weatherId)}
+          theme={theme}
+          quality={quality}
+          adaptiveQuality={qualitySetting === 'auto'}
+          onQualityChange={setAutoTierId}
+          audioRef={audioRef}
+          timeline={timeline}
+          focusedOrnament={focusedOrnament}
+          placedOrnaments={placedOrnaments}
+          room={room}
+          roomState={roomState}
+          onPlaceOrnament={handlePlaceOrnament}
+          onDragOrnament={handleDragOrnament}
+          onDropOrnament={handleDropOrnament}
+          reducedMotion={reducedMotion}
+          cameraProgram={cameraProgram}
+          keyboard
+          onTransitionStart={handleTransitionStart}
+          onTransitionEnd={handleTransitionEnd}
+          onSelectOrnament={handleSelectOrnament} 
+          captureRef={captureRef}
+          onSequenceState={setTreeState}
+          config={sceneConfig}
+        />
       </div>
 
       {/* UI Overlay Layer */}
-      <Overlay state={treeState} onToggle={setTreeState} />
+      <Overlay 
+        state={treeState} 
+        onToggle={setTreeState} 
+        transitioning={transitioning}
+        seed={seed} 
+        onReseed={() => {
+          setSeed(generateSeed());
+          clearCardFromUrl();
+        }} 
+        greeting={greeting}
+        onGreetingChange={(text) => {
+          setGreeting(text);
+          setTreeState(TreeMorphState.TEXT);
+        }}
+        hasImage={image !== null}
+        imageFailed={imageFailed}
+        onImageFile={handleImageFile}
+        card={card}
+        onThemeChange={(themeId) => setCard((c) => ({ ...c, themeId }))}
+        lightPattern={lightPattern}
+        onLightPatternChange={setLightPattern}
+        weather={weatherId}
+        onWeatherChange={setWeatherId}
+        quality={qualitySetting}
+        activeTierId={quality.id}
+        onQualityChange={setQualitySetting}
+        onExportConfig={handleExportConfig}
+        audioTrack={audioTrack}
+        audioPlaying={audioPlaying}
+        audioFailed={audioFailed}
+        onAudioFile={handleAudioFile}
+        onAudioToggle={toggleAudio}
+        onShareCard={handleShareCard}
+        adventDays={adventDays}
+        onOpenDoor={handleOpenDoor}
+        locale={locale}
+        onLocaleChange={handleLocaleChange}
+        reducedMotion={reducedMotion}
+        onReducedMotionChange={setReducedMotion}
+        cameraProgram={cameraProgram}
+        onCameraProgramChange={setCameraProgram}
+        roomId={roomId}
+        roomState={roomState}
+        roomName={roomName}
+        onJoinRoom={handleJoinRoom}
+        onLeaveRoom={() => setRoomId(null)}
+        roomTool={roomTool}
+        onRoomToolChange={setRoomTool}
+      />
+
+      {/* Screen-reader narration of the scene */}
+      <SceneNarrator message={announcement} help={messages.narration.keyboardHelp} />
+      
+      {/* Tree silhouette - reshapes the Tree layout live */}
+      <TreeProfileEditor
+        profile={treeProfile}
+        onChange={(next) => {
+          setTreeProfile(next);
+          setTreeState(TreeMorphState.TREE_SHAPE);
+        }}
+        messages={messages}
+      />
+
+      {/* Ornament editor - the visitor's own decorations */}
+      <DesignEditor
+        open={editorOpen}
+        onOpenChange={handleEditorOpen}
+        design={designHistory.present}
+        tool={editorTool}
+        full={!canPlace(placedOrnaments, editorTool.type)}
+        onToolChange={setEditorTool}
+        canUndo={designHistory.past.length > 0}
+        canRedo={designHistory.future.length > 0}
+        onUndo={() => setDesignHistory(undoDesign)}
+        onRedo={() => setDesignHistory(redoDesign)}
+        onClear={() => editDesign([])}
+        onSave={handleSaveDesign}
+        onLoadFile={handleLoadDesign}
+        loadFailed={designLoadFailed}
+        palettes={theme.ornaments}
+        messages={messages}
+      />
+
+      {/* Morph timeline - scrub, pause, reverse */}
+      <TimelineBar timeline={timeline} messages={messages} />
+
+      {/* Still / video export */}
+      <CaptureControls apiRef={captureRef} messages={messages} />
+
+      {/* Hidden note of the clicked ornament */}
+      {selectedOrnament !== null && getOrnamentMessage(selectedOrnament) && (
+        <MessageCard message={getOrnamentMessage(selectedOrnament)!} onClose={() => setSelectedOrnament(null)} messages={messages} />
+      )}
       
       {/* Decorative Border Frame */}
       <div className="absolute inset-0 pointer-events-none border-[1px] border-arix-gold/10 m-4 md:m-8 rounded-sm" />
@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ADVENT_REWARDS,
+  COUNTDOWN_TARGETS,
+  CountdownTarget,
+  getCalendarNow,
+  getCountdown,
+  isChristmasDay,
+  isDoorUnlocked
+} from '../utils/advent';
+import { Messages } from '../utils/i18n';
+
+interface AdventCalendarProps {
+  openedDays: number[]; // All of them on Christmas Day
+  onOpenDoor: (day: number) => void;
+  messages: Messages;
+  reducedMotion: boolean; // No pulsing doors
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Countdown to Christmas plus one door per day of Advent. Doors unlock on their date
+const AdventCalendar: React.FC<AdventCalendarProps> = ({ openedDays, onOpenDoor, messages, reducedMotion }) => {
+  const t = messages.calendar;
+  const [target, setTarget] = useState<CountdownTarget>('eve');
+  // Ticks here only, so the scene isn't re-rendered every second
+  const [now, setNow] = useState(getCalendarNow);
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(getCalendarNow()), 1000);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const countdown = getCountdown(now, target);
+  const christmas = isChristmasDay(now);
+
+  return (
+    <div className="w-80 p-5 flex flex-col gap-4 bg-black/50 backdrop-blur-md border border-arix-gold/20 rounded-sm text-arix-goldLight">
+      {/* Countdown */}
+      <div className="flex justify-center gap-2 text-[10px] tracking-[0.3em] uppercase">
+        {COUNTDOWN_TARGETS.map((id) => (
+          <button
+            key={id}
+            onClick={() => setTarget(id)}
+            aria-pressed={target === id}
+            className={`px-3 py-1 rounded-full border transition-all duration-500 ${
+              target === id
+              ? 'border-arix-gold text-arix-gold'
+              : 'border-arix-gold/20 text-arix-goldLight/60 hover:bg-white/5'
+            }`}
+          >
+            {t.targets[id]}
+          </button>
+        ))}
+      </div>
+      {countdown.arrived || christmas ? (
+        <p className="text-center font-serif text-xl tracking-widest text-arix-gold uppercase">
+          {christmas ? messages.holiday.title : t.eveArrived}
+        </p>
+      ) : (
+        <p className="text-center font-serif text-xl tracking-widest text-arix-gold tabular-nums">
+          {t.countdown(countdown.days, `${pad(countdown.hours)}:${pad(countdown.minutes)}:${pad(countdown.seconds)}`)}
+        </p>
+      )}
+
+      {/* Doors, December 1 to 24 */}
+      <div className="grid grid-cols-6 gap-2">
+        {ADVENT_REWARDS.map((reward) => {
+          const unlocked = christmas || isDoorUnlocked(reward.day, now);
+          const opened = openedDays.includes(reward.day);
+          return (
+            <button
+              key={reward.day}
+              disabled={!unlocked || opened}
+              onClick={() => onOpenDoor(reward.day)}
+              title={opened ? t.rewards[reward.shape] : unlocked ? t.openMe : t.opensOn(reward.day)}
+              aria-label={`${t.day(reward.day)}, ${opened ? t.rewards[reward.shape] : unlocked ? t.readyToOpen : t.locked}`}
+              className={`aspect-square rounded-sm border font-serif text-sm transition-all duration-500 ${
+                opened
+                ? 'border-arix-gold bg-arix-gold/20 text-arix-gold'
+                : unlocked
+                ? `border-arix-gold/60 text-arix-gold hover:bg-white/10 ${reducedMotion ? '' : 'animate-pulse'}`
+                : 'border-arix-gold/10 text-arix-goldLight/30 cursor-not-allowed'
+              }`}
+            >
+              {reward.day}
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-center text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60">
+        {t.progress(openedDays.length, ADVENT_REWARDS.length)}
+      </p>
+    </div>
+  );
+};
+
+export default AdventCalendar;
@@ -0,0 +1,126 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TreeMorphState } from '../types';
+import { ADVENT_DAYS, ADVENT_REWARDS, AdventReward, AdventShape } from '../utils/advent';
+import { getTreeSpiralPoint } from '../utils/math';
+import { TreeProfile } from '../utils/treeProfile';
+import { Theme, fadeColor } from '../utils/themes';
+import { MorphTimeline, layerProgress } from '../utils/timeline';
+
+interface AdventDecorationsProps {
+  days: number[]; // Opened doors
+  state: TreeMorphState;
+  profile: TreeProfile;
+  theme: Theme;
+  timeline: MorphTimeline;
+  reducedMotion: boolean; // No spinning
+}
+
+// Built once, shared by every decoration of the same shape
+const createGeometry = (shape: AdventShape): THREE.BufferGeometry => {
+  switch (shape) {
+    case 'bauble': return new THREE.SphereGeometry(0.32, 24, 16);
+    case 'star': return new THREE.OctahedronGeometry(0.36);
+    case 'gem': return new THREE.IcosahedronGeometry(0.32);
+    case 'wreath': return new THREE.TorusGeometry(0.26, 0.09, 12, 24);
+    case 'bell': return new THREE.ConeGeometry(0.28, 0.45, 16, 1, true);
+    case 'present': return new THREE.BoxGeometry(0.42, 0.42, 0.42);
+  }
+};
+
+// Day 1 hangs near the bottom; each day climbs one step of the spiral towards the star
+const decorationPoint = (day: number, profile: TreeProfile) => getTreeSpiralPoint(day + 1, ADVENT_DAYS + 3, profile, 1.04);
+
+interface DecorationProps {
+  reward: AdventReward;
+  geometry: THREE.BufferGeometry;
+  presence: React.MutableRefObject<{ from: number; to: number }>;
+  profile: TreeProfile;
+  theme: Theme;
+  timeline: MorphTimeline;
+  reducedMotion: boolean;
+}
+
+const Decoration = ({ reward, geometry, presence, profile, theme, timeline, reducedMotion }: DecorationProps) => {
+  const [initialTheme] = useState(theme);
+  const meshRef = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const target = useMemo(() => new THREE.Color(theme.bulbs[reward.colorSlot]), [theme, reward.colorSlot]);
+  const point = useMemo(() => new THREE.Vector3(...decorationPoint(reward.day, profile)), [reward.day, profile]);
+  const [initialPoint] = useState(point);
+  // Pops in when its door is opened, then follows the tree in and out like the star
+  const grow = useRef(0);
+
+  useFrame((_, delta) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    grow.current = THREE.MathUtils.damp(grow.current, 1, 3, delta);
+    const { from, to } = presence.current;
+    const size = THREE.MathUtils.lerp(from, to, layerProgress(timeline, 'garland')) * grow.current;
+    // A small overshoot on the way in
+    const pop = 1 + 0.3 * Math.sin(Math.min(1, grow.current) * Math.PI);
+    mesh.scale.setScalar(Math.max(0.0001, size * pop));
+    mesh.position.lerp(point, Math.min(1, delta * 4));
+    if (!reducedMotion) mesh.rotation.y += delta * 0.6;
+    if (materialRef.current) {
+      fadeColor(materialRef.current.color, target, delta);
+      fadeColor(materialRef.current.emissive, target, delta);
+    }
+  });
+
+  return (
+    <mesh ref={meshRef} position={initialPoint} rotation={[0, reward.day, 0]} geometry={geometry} scale={0.0001}>
+      <meshStandardMaterial
+        ref={materialRef}
+        color={initialTheme.bulbs[reward.colorSlot]}
+        emissive={initialTheme.bulbs[reward.colorSlot]}
+        emissiveIntensity={0.8}
+        roughness={0.2}
+        metalness={0.7}
+        side={THREE.DoubleSide} // The bell is open underneath
+      />
+    </mesh>
+  );
+};
+
+// One decoration per opened advent door, climbing the tree day by day
+const AdventDecorations: React.FC<AdventDecorationsProps> = ({ days, state, profile, theme, timeline, reducedMotion }) => {
+  const geometries = useMemo(() => new Map<AdventShape, THREE.BufferGeometry>(), []);
+  const geometryFor = (shape: AdventShape) => {
+    let geometry = geometries.get(shape);
+    if (!geometry) {
+      geometry = createGeometry(shape);
+      geometries.set(shape, geometry);
+    }
+    return geometry;
+  };
+  useEffect(() => () => geometries.forEach((g) => g.dispose()), [geometries]);
+
+  // Decorations belong to the tree: same retargeting as the star
+  const presence = useRef({ from: 0, to: 0 });
+  useEffect(() => {
+    const p = presence.current;
+    p.from += (p.to - p.from) * layerProgress(timeline, 'garland');
+    p.to = state === TreeMorphState.TREE_SHAPE ? 1 : 0;
+  }, [state, timeline]);
+
+  return (
+    <group>
+      {ADVENT_REWARDS.filter((r) => days.includes(r.day)).map((reward) => (
+        <Decoration
+          key={reward.day}
+          reward={reward}
+          geometry={geometryFor(reward.shape)}
+          presence={presence}
+          profile={profile}
+          theme={theme}
+          timeline={timeline}
+          reducedMotion={reducedMotion}
+        />
+      ))}
+    </group>
+  );
+};
+
+export default AdventDecorations;
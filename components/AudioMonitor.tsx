@@ -0,0 +1,22 @@
+import React from 'react';
+import { useFrame } from '@react-three/fiber';
+import { AudioLevels, AudioPlayer, settleAudioLevels } from '../utils/audio';
+
+interface AudioMonitorProps {
+  playerRef: React.MutableRefObject<AudioPlayer | null>;
+  levels: AudioLevels; // Shared with every audio-reactive layer
+}
+
+// Lives inside the Canvas and refreshes the audio levels before anything reads them
+const AudioMonitor: React.FC<AudioMonitorProps> = ({ playerRef, levels }) => {
+  // Negative priority runs ahead of the other frame callbacks without taking over rendering
+  useFrame((_, delta) => {
+    const player = playerRef.current;
+    if (player && player.isPlaying()) player.analyse(levels, delta);
+    else settleAudioLevels(levels, delta);
+  }, -1);
+
+  return null;
+};
+
+export default AudioMonitor;
@@ -0,0 +1,136 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TreeMorphState } from '../types';
+import { TreeProfile } from '../utils/treeProfile';
+import {
+  CameraActivity,
+  CameraProgram,
+  ShotId,
+  TOUR_OPENING,
+  buildShots,
+  createCameraPose,
+  evaluateShot,
+  shotDuration,
+  tourShots
+} from '../utils/camera';
+
+interface CameraDirectorProps {
+  program: CameraProgram;
+  state: TreeMorphState; // The tour opens each layout with its own shot
+  profile: TreeProfile; // Shots frame the star wherever the silhouette puts it
+  activity: CameraActivity; // Manual input pauses the director
+  reducedMotion: boolean; // No camera moves the visitor didn't make
+}
+
+// Seconds without manual input before the director picks the camera back up
+const IDLE_RESUME = 15;
+// Seconds to glide from wherever the camera is into a new shot
+const BLEND = 2.5;
+// Seconds a finished shot holds its last frame before the tour moves on
+const HOLD = 3;
+
+// The parts of OrbitControls the director keeps in step
+type OrbitLike = { target: THREE.Vector3 };
+
+// Lives inside the Canvas and flies the camera through keyframed shots. Orbiting, zooming or the
+// camera keys hand the camera over on the spot; after a quiet spell the director glides back in
+const CameraDirector: React.FC<CameraDirectorProps> = ({ program, state, profile, activity, reducedMotion }) => {
+  const camera = useThree((s) => s.camera) as THREE.PerspectiveCamera;
+  const controls = useThree((s) => s.controls) as unknown as OrbitLike | null;
+  const shots = useMemo(() => buildShots(profile), [profile]);
+
+  const direction = useRef({
+    shot: null as ShotId | null, // Playing; null = pick one on the next frame
+    time: 0,
+    fromCycle: false, // Part of the tour cycle (rather than a layout's opening)
+    cycleIndex: 0,
+    opening: TOUR_OPENING[state] ?? null, // Queued for the next start
+    blend: 1, // 0..1 into the current shot
+    first: true // The very first shot cuts in instead of gliding
+  });
+  const blendFrom = useMemo(createCameraPose, []);
+  const pose = useMemo(createCameraPose, []);
+
+  // Picking a program plays it right away, even mid-orbit
+  useEffect(() => {
+    const d = direction.current;
+    d.shot = null;
+    d.cycleIndex = 0;
+    activity.lastInput = -Infinity;
+  }, [program, activity]);
+
+  // The tour follows the layout
+  useEffect(() => {
+    const d = direction.current;
+    if (program !== 'tour') return;
+    d.shot = null;
+    d.cycleIndex = 0;
+    d.opening = TOUR_OPENING[state] ?? null;
+  }, [state, program]);
+
+  useFrame((three, frameDelta) => {
+    const d = direction.current;
+    const delta = Math.max(0, frameDelta);
+    const manual = performance.now() - activity.lastInput < IDLE_RESUME * 1000;
+    // A recording drives the clock off requestAnimationFrame and scripts its own camera orbit
+    const recording = three.frameloop !== 'always';
+    if (!controls || reducedMotion || manual || recording) {
+      // Handed over. Whatever the layout asked for meanwhile is stale by the time we're back
+      d.shot = null;
+      d.opening = null;
+      return;
+    }
+
+    if (d.shot === null) {
+      if (program !== 'tour') {
+        d.shot = program;
+        d.fromCycle = false;
+      } else if (d.opening) {
+        d.shot = d.opening;
+        d.fromCycle = false;
+        d.opening = null;
+      } else {
+        const cycle = tourShots(state);
+        d.shot = cycle[d.cycleIndex % cycle.length];
+        d.fromCycle = true;
+      }
+      d.time = 0;
+      d.blend = d.first ? 1 : 0;
+      d.first = false;
+      blendFrom.position.copy(camera.position);
+      blendFrom.target.copy(controls.target);
+      blendFrom.fov = camera.fov;
+    }
+
+    const shot = shots[d.shot];
+    d.time += delta;
+    d.blend = Math.min(1, d.blend + delta / BLEND);
+    evaluateShot(shot, d.time, pose);
+    if (d.blend < 1) {
+      const s = THREE.MathUtils.smootherstep(d.blend, 0, 1);
+      pose.position.lerpVectors(blendFrom.position, pose.position, s);
+      pose.target.lerpVectors(blendFrom.target, pose.target, s);
+      pose.fov = THREE.MathUtils.lerp(blendFrom.fov, pose.fov, s);
+    }
+
+    // Orbit controls keep the same target, so a manual drag carries on from this exact view
+    camera.position.copy(pose.position);
+    controls.target.copy(pose.target);
+    camera.lookAt(pose.target);
+    if (Math.abs(camera.fov - pose.fov) > 0.001) {
+      camera.fov = pose.fov;
+      camera.updateProjectionMatrix();
+    }
+
+    // The tour moves on once a shot has played through (looping shots: one lap)
+    if (program === 'tour' && d.time > shotDuration(shot) + (shot.loop ? 0 : HOLD)) {
+      if (d.fromCycle) d.cycleIndex++;
+      d.shot = null;
+    }
+  });
+
+  return null;
+};
+
+export default CameraDirector;
@@ -0,0 +1,106 @@
+import React, { useEffect } from 'react';
+import { flushSync } from 'react-dom';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TreeMorphState } from '../types';
+import { CaptureSequence, RecordOptions, canvasToPngBlob, createWebmEncoder } from '../utils/capture';
+
+export interface CaptureApi {
+  // Supersampled still of the current frame, `width` pixels wide
+  capturePng: (width: number) => Promise<Blob>;
+  // Renders the sequence frame by frame on a fixed clock and encodes it
+  recordSequence: (sequence: CaptureSequence, options: RecordOptions, onProgress?: (fraction: number) => void) => Promise<Blob>;
+}
+
+interface CaptureControllerProps {
+  apiRef: React.MutableRefObject<CaptureApi | null>;
+  onSequenceState: (state: TreeMorphState) => void;
+}
+
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+
+// Lives inside the Canvas to reach the renderer; exposes an imperative API to the DOM UI
+const CaptureController: React.FC<CaptureControllerProps> = ({ apiRef, onSequenceState }) => {
+  const get = useThree((state) => state.get);
+
+  useEffect(() => {
+    // Pixel ratio that renders the canvas `width` pixels wide, within the GPU's limits
+    const supersampleDpr = (width: number) => {
+      const { size, gl } = get();
+      const maxDpr = gl.capabilities.maxTextureSize / Math.max(size.width, size.height);
+      return Math.min(width / size.width, maxDpr);
+    };
+
+    apiRef.current = {
+      capturePng: async (width) => {
+        const state = get();
+        const previousDpr = state.viewport.dpr;
+        try {
+          // setDpr resizes the renderer synchronously; the composer follows on the next frame it renders
+          state.setDpr(supersampleDpr(width));
+          // The timestamp only matters with frameloop 'never'; here the clock measures the delta itself
+          state.advance(0);
+          return await canvasToPngBlob(state.gl.domElement);
+        } finally {
+          state.setDpr(previousDpr);
+        }
+      },
+
+      recordSequence: async (sequence, { width, fps }, onProgress) => {
+        const state = get();
+        const previousDpr = state.viewport.dpr;
+        const previousFrameloop = state.frameloop;
+        // Take the clock away from requestAnimationFrame: every frame advances exactly 1 / fps.
+        // Switching frameloops zeroes the clock, so put it back: the recording (and the live scene
+        // after it) carries on from the running animation instead of restarting it
+        const start = state.clock.elapsedTime;
+        state.setFrameloop('never');
+        state.clock.elapsedTime = start;
+        state.setDpr(supersampleDpr(width));
+        let time = 0;
+
+        try {
+          const canvas = state.gl.domElement;
+          const encoder = createWebmEncoder(canvas.width, canvas.height, fps);
+          const totalFrames = Math.ceil(sequence.duration * fps);
+          let nextStep = 0;
+
+          for (let frame = 0; frame <= totalFrames; frame++) {
+            time = frame / fps;
+
+            while (nextStep < sequence.steps.length && sequence.steps[nextStep].at <= time) {
+              // Commit the state change (and its effects) before this frame renders
+              const step = sequence.steps[nextStep];
+              flushSync(() => onSequenceState(step.state));
+              nextStep++;
+            }
+
+            if (time >= sequence.orbit.from) {
+              get().camera.position.applyAxisAngle(Y_AXIS, sequence.orbit.speed / fps);
+            }
+
+            state.advance(start + time);
+            await encoder.addFrame(canvas, frame);
+            onProgress?.(frame / totalFrames);
+            // Yield so the page stays responsive during long renders
+            await new Promise((resolve) => setTimeout(resolve, 0));
+          }
+
+          return await encoder.finish();
+        } finally {
+          state.setDpr(previousDpr);
+          state.setFrameloop(previousFrameloop);
+          state.clock.elapsedTime = start + time;
+        }
+      }
+    };
+
+    return () => {
+      apiRef.current = null;
+    };
+  }, [get, apiRef, onSequenceState]);
+
+  return null;
+};
+
+export default CaptureController;
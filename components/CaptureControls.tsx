@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { CaptureApi } from './CaptureController';
+import {
+  CAPTURE_WIDTHS,
+  MORPH_SEQUENCE,
+  captureFilename,
+  downloadBlob,
+  isVideoRecordingSupported
+} from '../utils/capture';
+import { Messages } from '../utils/i18n';
+
+interface CaptureControlsProps {
+  apiRef: React.MutableRefObject<CaptureApi | null>;
+  messages: Messages;
+}
+
+const buttonClass = 'px-4 py-1 rounded-full font-serif tracking-widest text-xs text-arix-gold border border-arix-gold/20 hover:bg-white/5 transition-all duration-500 disabled:opacity-40';
+
+// Export controls for social media assets: supersampled PNG stills and a scripted WebM
+const CaptureControls: React.FC<CaptureControlsProps> = ({ apiRef, messages }) => {
+  const t = messages.capture;
+  const [width, setWidth] = useState(CAPTURE_WIDTHS[1]);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const run = async (task: (api: CaptureApi) => Promise<void>) => {
+    if (!apiRef.current || busy) return;
+    setBusy(true);
+    try {
+      await task(apiRef.current);
+      setStatus(null);
+    } catch (err) {
+      setStatus((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const savePng = () => run(async (api) => {
+    downloadBlob(await api.capturePng(width), captureFilename('png'));
+  });
+
+  const recordVideo = () => run(async (api) => {
+    const blob = await api.recordSequence(MORPH_SEQUENCE, { width, fps: 30 }, (fraction) => {
+      setStatus(t.rendering(Math.round(fraction * 100)));
+    });
+    downloadBlob(blob, captureFilename('webm'));
+  });
+
+  return (
+    <div className="absolute top-8 right-8 md:top-12 md:right-12 z-10 flex flex-col items-end gap-2 text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60">
+      <div className="flex items-center gap-2">
+        <select
+          value={width}
+          disabled={busy}
+          onChange={(e) => setWidth(Number(e.target.value))}
+          aria-label={t.width}
+          className="px-2 py-1 rounded-full bg-black/40 border border-arix-gold/20 text-arix-goldLight text-xs focus:outline-none"
+        >
+          {CAPTURE_WIDTHS.map((w) => (
+            <option key={w} value={w}>{w}px</option>
+          ))}
+        </select>
+        <button className={buttonClass} disabled={busy} onClick={savePng}>PNG</button>
+        <button className={buttonClass} disabled={busy || !isVideoRecordingSupported()} onClick={recordVideo}>WEBM</button>
+      </div>
+      {status && <span>{status}</span>}
+    </div>
+  );
+};
+
+export default CaptureControls;
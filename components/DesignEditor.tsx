@@ -0,0 +1,128 @@
+import React, { useRef } from 'react';
+import { PlacedOrnament } from '../types';
+import { Messages } from '../utils/i18n';
+import { Theme } from '../utils/themes';
+import { PLACED_SIZE_RANGE } from '../utils/ornaments';
+import { EDITOR_SIZE_STEP, EDITOR_TOOL_MODES, EditorTool } from '../utils/design';
+
+interface DesignEditorProps {
+  open: boolean; // Clicks on the tree edit the design while open
+  onOpenChange: (open: boolean) => void;
+  design: PlacedOrnament[];
+  tool: EditorTool;
+  full: boolean; // No room on the tree for more of the tool's type
+  onToolChange: (tool: EditorTool) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClear: () => void;
+  onSave: () => void;
+  onLoadFile: (file: File) => void;
+  loadFailed: boolean; // The last file opened wasn't a design
+  palettes: Theme['ornaments'];
+  messages: Messages;
+}
+
+const pillClass = (active: boolean) => `px-3 py-1 rounded-full border transition-all duration-500 disabled:opacity-40 disabled:cursor-not-allowed ${
+  active
+  ? 'border-arix-gold text-arix-gold'
+  : 'border-arix-gold/20 text-arix-goldLight/60 hover:bg-white/5'
+}`;
+
+// The visitor's own ornaments: pick type, color and size, then place, drag or remove them on the tree.
+// Undo/redo covers every change; the design is remembered in the browser and can go to a file
+const DesignEditor: React.FC<DesignEditorProps> = ({ open, onOpenChange, design, tool, full, onToolChange, canUndo, canRedo, onUndo, onRedo, onClear, onSave, onLoadFile, loadFailed, palettes, messages }) => {
+  const t = messages.editor;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const palette = palettes[tool.type === 'BOX' ? 'gift' : 'sphere'];
+
+  return (
+    <div className="absolute bottom-24 right-8 md:bottom-28 md:right-12 z-10 flex flex-col-reverse items-end gap-2 text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60">
+      <button className={pillClass(open)} onClick={() => onOpenChange(!open)} aria-expanded={open}>
+        {open ? t.close : t.open}
+      </button>
+      {open && (
+        <div className="w-72 p-4 flex flex-col gap-3 bg-black/50 backdrop-blur-md border border-arix-gold/20 rounded-sm">
+          <div role="group" aria-label={t.open} className="flex flex-wrap justify-center gap-2">
+            {EDITOR_TOOL_MODES.map((mode) => (
+              <button key={mode} onClick={() => onToolChange({ ...tool, mode })} aria-pressed={tool.mode === mode} className={pillClass(tool.mode === mode)}>
+                {t.tools[mode]}
+              </button>
+            ))}
+          </div>
+
+          {tool.mode === 'place' && (
+            <>
+              <div className="flex justify-center gap-2">
+                {(['SPHERE', 'BOX'] as const).map((type) => (
+                  <button key={type} onClick={() => onToolChange({ ...tool, type })} aria-pressed={tool.type === type} className={pillClass(tool.type === type)}>
+                    {messages.room.types[type]}
+                  </button>
+                ))}
+              </div>
+              <div className="flex justify-center gap-2">
+                {palette.map((hex, slot) => (
+                  <button
+                    key={slot}
+                    onClick={() => onToolChange({ ...tool, colorSlot: slot })}
+                    aria-pressed={tool.colorSlot === slot}
+                    aria-label={messages.room.color(slot)}
+                    className={`w-6 h-6 rounded-full border-2 transition-all duration-500 ${tool.colorSlot === slot ? 'border-arix-gold scale-110' : 'border-transparent'}`}
+                    style={{ backgroundColor: hex }}
+                  />
+                ))}
+              </div>
+              <label className="flex flex-col gap-1">
+                <span className="flex justify-between">
+                  {t.size}
+                  <span className="text-arix-gold">{tool.size.toFixed(1)}</span>
+                </span>
+                <input
+                  type="range"
+                  min={PLACED_SIZE_RANGE[0]}
+                  max={PLACED_SIZE_RANGE[1]}
+                  step={EDITOR_SIZE_STEP}
+                  value={tool.size}
+                  onChange={(e) => onToolChange({ ...tool, size: Number(e.target.value) })}
+                  className="accent-arix-gold"
+                />
+              </label>
+            </>
+          )}
+          <p className="text-center normal-case tracking-wider">
+            {tool.mode === 'place' && full ? t.full : t.hints[tool.mode]}
+          </p>
+
+          <div className="flex items-center justify-between gap-2">
+            <span>{t.placed(design.length)}</span>
+            <div className="flex gap-2">
+              <button disabled={!canUndo} onClick={onUndo} className={pillClass(false)}>{t.undo}</button>
+              <button disabled={!canRedo} onClick={onRedo} className={pillClass(false)}>{t.redo}</button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap justify-center gap-2">
+            <button disabled={design.length === 0} onClick={onSave} className={pillClass(false)}>{t.save}</button>
+            <button onClick={() => fileInputRef.current?.click()} className={pillClass(false)}>{t.load}</button>
+            <button disabled={design.length === 0} onClick={onClear} className={pillClass(false)}>{t.clear}</button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onLoadFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {loadFailed && <p className="text-center normal-case tracking-wider text-red-300">{t.loadError}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DesignEditor;
@@ -1,35 +1,107 @@
-import React, { useRef, useMemo } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
+import React, { useEffect, useRef, useMemo, useState } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera, Float, Environment } from '@react-three/drei';
 import { EffectComposer, Bloom, Vignette, Noise } from '@react-three/postprocessing';
 import * as THREE from 'three';
-import { TreeMorphState } from '../types';
+import { PlacedOrnament, TreeMorphState, Vec3 } from '../types';
+import { LayoutContext } from '../utils/layouts';
+import { createTextShape } from '../utils/text';
+import { TreeProfile, treeTop } from '../utils/treeProfile';
+import { BlinkPatternName } from '../utils/lights';
+import { SnowCover, WeatherPreset, createSnowCover } from '../utils/weather';
+import { SceneConfig } from '../utils/sceneConfig';
+import { Theme, fadeColor } from '../utils/themes';
+import { QualityTier } from '../utils/quality';
+import { AudioLevels, AudioPlayer, createAudioLevels } from '../utils/audio';
+import { MorphTimeline, layerProgress } from '../utils/timeline';
+import { CameraProgram, createCameraActivity, markCameraInput } from '../utils/camera';
+import { RoomClient, RoomState } from '../utils/room';
 import Foliage from './Foliage';
 import Ornaments from './Ornaments';
-import { BackgroundStars, GoldenDust } from './Particles';
+import { Garland, StringLights } from './Garland';
+import { BackgroundStars, GoldenDust, Snowfall, SnowCaps } from './Particles';
+import CaptureController, { CaptureApi } from './CaptureController';
+import QualityMonitor from './QualityMonitor';
+import AudioMonitor from './AudioMonitor';
+import TimelineController from './TimelineController';
+import WeatherMonitor from './WeatherMonitor';
+import AdventDecorations from './AdventDecorations';
+import KeyboardController from './KeyboardController';
+import CameraDirector from './CameraDirector';
+import TreeSurface from './TreeSurface';
+import RoomPresence from './RoomPresence';
 
-interface ExperienceProps {
+export interface ExperienceProps {
   treeState: TreeMorphState;
+  seed: string;
+  greeting: string;
+  image: ImageData | null;
+  treeProfile: TreeProfile; // Silhouette of the Tree layout
+  lightPattern: BlinkPatternName; // How the string lights blink
+  adventDays: number[]; // Opened advent doors, one decoration each
+  focusedOrnament: number | null; // Ornament picked with the keyboard
+  placedOrnaments: PlacedOrnament[]; // Hand-placed, on top of the seeded ones
+  room: RoomClient | null; // Joined decorating room: other people's cursors and who placed what
+  roomState: RoomState | null;
+  onPlaceOrnament?: (position: Vec3) => void; // Set while placing: a click on the tree puts one there
+  onDragOrnament?: (id: number, position: Vec3) => void; // Set while moving: placed ornaments follow the pointer over the tree
+  onDropOrnament?: (id: number) => void; // The dragged ornament was let go
+  reducedMotion: boolean; // Hold ambient movement still; morphs still play
+  cameraProgram: CameraProgram; // What the camera director plays while nobody is orbiting
+  keyboard: boolean; // Arrow keys orbit the camera. Off when several scenes share a page
+  weather: WeatherPreset;
+  theme: Theme;
+  quality: QualityTier;
+  adaptiveQuality: boolean; // Let measured frame times pick the tier
+  onQualityChange: (tierId: string) => void;
+  audioRef: React.MutableRefObject<AudioPlayer | null>; // Music driving the scene, if any
+  timeline: MorphTimeline;
+  onTransitionStart?: (state: TreeMorphState) => void;
+  onTransitionEnd?: (state: TreeMorphState) => void; // The scene has finished assembling into `state`
+  onSelectOrnament: (id: number) => void;
+  captureRef: React.MutableRefObject<CaptureApi | null>;
+  // Scripted recordings drive the layout through this
+  onSequenceState: (state: TreeMorphState) => void;
+  config: SceneConfig; // Counts, lights, fog, exposure, bloom and camera (data/scene.json)
 }
 
-// Camera rig that slowly rotates
-const CameraRig = ({ state }: { state: TreeMorphState }) => {
-  const group = useRef<THREE.Group>(null);
-  useFrame((state, delta) => {
-    if (group.current) {
-        // Rotate slowly
-        group.current.rotation.y += delta * 0.05;
+// 5-Pointed Star Geometry
+const StarShape = ({ theme, state, timeline, profile }: { theme: Theme; state: TreeMorphState; timeline: MorphTimeline; profile: TreeProfile }) => {
+  // Mount with the current theme, later changes cross-fade
+  const [initialTheme] = useState(theme);
+  const groupRef = useRef<THREE.Group>(null);
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const lightRef = useRef<THREE.PointLight>(null);
+  const target = useMemo(() => new THREE.Color(theme.star), [theme]);
+
+  // The star tops the tree only: it grows in as the tree assembles and shrinks away as it leaves.
+  // Same retargeting as the particles: the new morph starts from the current size
+  const presence = useRef({ from: 0, to: 0 });
+  useEffect(() => {
+    const p = presence.current;
+    p.from += (p.to - p.from) * layerProgress(timeline, 'star');
+    p.to = state === TreeMorphState.TREE_SHAPE ? 1 : 0;
+  }, [state, timeline]);
+
+  // Sits 0.8 above the tip, so it rides along as the silhouette is edited
+  const height = treeTop(profile) + 0.8;
+  const [initialHeight] = useState(height);
+
+  useFrame((_, delta) => {
+    const { from, to } = presence.current;
+    const size = THREE.MathUtils.lerp(from, to, layerProgress(timeline, 'star'));
+    if (groupRef.current) {
+      groupRef.current.scale.setScalar(Math.max(0.0001, size));
+      groupRef.current.position.y = THREE.MathUtils.damp(groupRef.current.position.y, height, 4, delta);
+    }
+    if (lightRef.current) lightRef.current.intensity = 3 * Math.max(0, size);
+    if (materialRef.current) {
+      fadeColor(materialRef.current.color, target, delta);
+      fadeColor(materialRef.current.emissive, target, delta);
     }
+    if (lightRef.current) fadeColor(lightRef.current.color, target, delta);
   });
-  return (
-    <group ref={group}>
-        <PerspectiveCamera makeDefault position={[0, 2, 24]} fov={45} />
-    </group>
-  )
-}
 
-// 5-Pointed Star Geometry
-const StarShape = () => {
   const shape = useMemo(() => {
     const star = new THREE.Shape();
     const points = 5;
@@ -57,113 +129,296 @@ const StarShape = () => {
   }), []);
 
   return (
-    // Rotated 180 degrees around X axis to flip front/back and up/down orientation
-    // Positioned at 7.8 to sit tight on the tree tip (Tree top is ~7.0)
-    <mesh position={[0, 7.8, 0]} rotation={[Math.PI, 0, 0]}>
-      <extrudeGeometry args={[shape, extrudeSettings]} />
-      <meshStandardMaterial 
-        color="#FFF7E6" // Warm Ivory / White Gold
-        emissive="#FFF7E6" // Matching warm glow
-        emissiveIntensity={0.6} // Reduced intensity to prevent whiteout blob
-        roughness={0.15} // Slight frosting for luxury feel
-        metalness={0.9} // Retain metallic premium look
-        side={THREE.DoubleSide} // Ensure visibility from all angles
-      />
+    // Positioned just above the tree tip; later silhouette changes glide there in useFrame
+    <group ref={groupRef} position={[0, initialHeight, 0]}>
+      {/* Rotated 180 degrees around X axis to flip front/back and up/down orientation */}
+      <mesh rotation={[Math.PI, 0, 0]}>
+        <extrudeGeometry args={[shape, extrudeSettings]} />
+        <meshStandardMaterial 
+          ref={materialRef}
+          color={initialTheme.star} // Warm Ivory / White Gold in Classic
+          emissive={initialTheme.star} // Matching warm glow
+          emissiveIntensity={0.6} // Reduced intensity to prevent whiteout blob
+          roughness={0.15} // Slight frosting for luxury feel
+          metalness={0.9} // Retain metallic premium look
+          side={THREE.DoubleSide} // Ensure visibility from all angles
+        />
+      </mesh>
+      {/* Dedicated light for star glow - moved down to match star, warm white color */}
+      <pointLight ref={lightRef} intensity={3} color={initialTheme.star} distance={5} decay={2} />
+    </group>
+  );
+};
+
+// Snow settling on the ground under the tree: spreads and thickens as it builds up, melts away after
+const SnowGround = ({ theme, cover }: { theme: Theme; cover: SnowCover }) => {
+  const [initialTheme] = useState(theme);
+  const meshRef = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const target = useMemo(() => new THREE.Color(theme.snow), [theme]);
+
+  useFrame((_, delta) => {
+    if (meshRef.current) {
+      meshRef.current.visible = cover.ground > 0.001;
+      const spread = 0.5 + 0.5 * cover.ground;
+      meshRef.current.scale.set(spread, Math.max(0.0001, cover.ground), spread);
+    }
+    if (materialRef.current) {
+      materialRef.current.opacity = Math.min(1, cover.ground * 3);
+      fadeColor(materialRef.current.color, target, delta);
+    }
+  });
+
+  return (
+    // Tree base is at y = -5; the disc grows upwards from there
+    <mesh ref={meshRef} position={[0, -5, 0]} visible={false} receiveShadow>
+      <cylinderGeometry args={[9, 9.5, 0.4, 64]} />
+      <meshStandardMaterial ref={materialRef} color={initialTheme.snow} roughness={0.9} metalness={0} transparent />
     </mesh>
   );
 };
 
-const Experience: React.FC<ExperienceProps> = ({ treeState }) => {
+// Exposure is read once when the renderer is created; this keeps it in step with config reloads
+const RendererExposure = ({ exposure }: { exposure: number }) => {
+  const gl = useThree((state) => state.gl);
+  useEffect(() => {
+    gl.toneMappingExposure = exposure;
+  }, [gl, exposure]);
+  return null;
+};
+
+// Bloom that flares on every beat of the music
+const ReactiveBloom = ({ audio, settings }: { audio: AudioLevels; settings: SceneConfig['bloom'] }) => {
+  const bloomRef = useRef<React.ComponentRef<typeof Bloom>>(null);
+  useFrame(() => {
+    if (bloomRef.current) bloomRef.current.intensity = settings.intensity + audio.beat * settings.beatBoost;
+  });
+
+  return (
+    <Bloom 
+        ref={bloomRef}
+        luminanceThreshold={settings.threshold} // Only very bright things glow
+        mipmapBlur 
+        intensity={settings.intensity} // Gentle luxury glow
+        radius={settings.radius} // Small radius for sharp highlights
+    />
+  );
+};
+
+// Background, fog and the cinematic lights. Colors come from the theme and cross-fade on change
+const SceneLighting = ({ theme, shadows, lights, fog }: { theme: Theme; shadows: boolean; lights: SceneConfig['lights']; fog: SceneConfig['fog'] }) => {
+  const scene = useThree((state) => state.scene);
+  // Objects are created with the first theme; later themes fade the live colors instead
+  const [initialTheme] = useState(theme);
+  const ambientRef = useRef<THREE.AmbientLight>(null);
+  const keyRef = useRef<THREE.SpotLight>(null);
+  const rimRef = useRef<THREE.SpotLight>(null);
+  const innerRef = useRef<THREE.PointLight>(null);
+
+  const targets = useMemo(() => ({
+    background: new THREE.Color(theme.background),
+    fog: new THREE.Color(theme.fog),
+    ambient: new THREE.Color(theme.lights.ambient),
+    key: new THREE.Color(theme.lights.key),
+    rim: new THREE.Color(theme.lights.rim),
+    inner: new THREE.Color(theme.lights.inner)
+  }), [theme]);
+
+  useFrame((_, delta) => {
+    if (scene.background instanceof THREE.Color) fadeColor(scene.background, targets.background, delta);
+    if (scene.fog) fadeColor(scene.fog.color, targets.fog, delta);
+    if (ambientRef.current) fadeColor(ambientRef.current.color, targets.ambient, delta);
+    if (keyRef.current) fadeColor(keyRef.current.color, targets.key, delta);
+    if (rimRef.current) fadeColor(rimRef.current.color, targets.rim, delta);
+    if (innerRef.current) fadeColor(innerRef.current.color, targets.inner, delta);
+  });
+
+  return (
+    <>
+      <color attach="background" args={[initialTheme.background]} />
+
+      {/* Dark, distant fog to hide clipping plane but keep blacks deep */}
+      <fog attach="fog" args={[initialTheme.fog, fog.near, fog.far]} near={fog.near} far={fog.far} />
+
+      {/* --- CINEMATIC LIGHTING SETUP --- */}
+
+      {/* 1. Fill Light (Warm Ambient) - lowered for contrast */}
+      <ambientLight ref={ambientRef} intensity={lights.ambient.intensity} color={initialTheme.lights.ambient} />
+
+      {/* 2. Key Light (Warm Gold from Top-Right) - Reduced intensity to stop blowout */}
+      <spotLight 
+        ref={keyRef}
+        position={lights.key.position} 
+        angle={lights.key.angle} 
+        penumbra={lights.key.penumbra} 
+        intensity={lights.key.intensity} 
+        color={initialTheme.lights.key} 
+        castShadow={shadows} 
+        shadow-bias={-0.0001}
+      />
+
+      {/* 3. Rim Light (Cool Blue from Back-Left) - Creates silhouette */}
+      <spotLight 
+        ref={rimRef}
+        position={lights.rim.position} 
+        angle={lights.rim.angle} 
+        penumbra={lights.rim.penumbra} 
+        intensity={lights.rim.intensity} 
+        color={initialTheme.lights.rim} 
+      />
+
+      {/* 4. Center Tree Warmth (Internal Glow) */}
+      <pointLight ref={innerRef} position={lights.inner.position} intensity={lights.inner.intensity} color={initialTheme.lights.inner} distance={lights.inner.distance} decay={2} />
+    </>
+  );
+};
+
+const Experience: React.FC<ExperienceProps> = ({ treeState, seed, greeting, image, treeProfile, lightPattern, adventDays, focusedOrnament, placedOrnaments, room, roomState, onPlaceOrnament, onDragOrnament, onDropOrnament, reducedMotion, cameraProgram, keyboard, weather, theme, quality, adaptiveQuality, onQualityChange, audioRef, timeline, onTransitionStart, onTransitionEnd, onSelectOrnament, captureRef, onSequenceState, config }) => {
+  // Glyphs are sampled once per greeting and shared by foliage and ornaments.
+  // Silhouette edits rebuild the context but keep the glyphs
+  const text = useMemo(() => createTextShape(greeting), [greeting]);
+  const layoutContext = useMemo<LayoutContext>(() => ({ text, image, profile: treeProfile }), [text, image, treeProfile]);
+  const { bloom, vignette, noise } = quality.effects;
+  // Refreshed every frame by AudioMonitor, read by every audio-reactive layer
+  const audio = useMemo(createAudioLevels, []);
+  // Built up by WeatherMonitor, read by the snow layers and the gift boxes
+  const snow = useMemo(createSnowCover, []);
+  // Stamped by every manual orbit, zoom or camera key; the director backs off until it goes quiet
+  const cameraActivity = useMemo(createCameraActivity, []);
+  // Placed ornament being dragged, if any
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+  const moving = onDragOrnament !== undefined && treeState === TreeMorphState.TREE_SHAPE;
+  useEffect(() => {
+    if (!moving) setDraggingId(null);
+  }, [moving]);
+  const handleDrag = (position: Vec3) => {
+    if (draggingId !== null) onDragOrnament?.(draggingId, position);
+  };
+  const handleDrop = () => {
+    if (draggingId !== null) onDropOrnament?.(draggingId);
+    setDraggingId(null);
+  };
+
   return (
     <Canvas
-      dpr={[1, 2]}
+      dpr={quality.dpr}
       // ACES Filmic for movie-grade dynamic range
-      // Lower exposure (1.2) to preserve details and prevent whiteout
+      // Lower exposure (scene config, 1.2 by default) to preserve details and prevent whiteout
       gl={{ 
         antialias: false, 
         toneMapping: THREE.ACESFilmicToneMapping, 
-        toneMappingExposure: 1.2, 
+        toneMappingExposure: config.renderer.exposure, 
         outputColorSpace: THREE.SRGBColorSpace
       }}
       shadows
     >
-      <color attach="background" args={['#000502']} />
-      
-      {/* Dark, distant fog to hide clipping plane but keep blacks deep */}
-      <fog attach="fog" args={['#000502', 45, 90]} />
-
       {/* Environment Map for Gold Reflections */}
       <Environment preset="city" blur={1} background={false} />
 
-      <CameraRig state={treeState} />
+      <PerspectiveCamera makeDefault position={config.camera.position} fov={config.camera.fov} />
+      <RendererExposure exposure={config.renderer.exposure} />
+      <CaptureController apiRef={captureRef} onSequenceState={onSequenceState} />
+      <AudioMonitor playerRef={audioRef} levels={audio} />
+      <WeatherMonitor weather={weather} state={treeState} timeline={timeline} cover={snow} />
+      <QualityMonitor enabled={adaptiveQuality} tierId={quality.id} onTierChange={onQualityChange} />
       <OrbitControls 
+        makeDefault // Reachable from TimelineController, which pauses pinch-zoom while scrubbing
         enablePan={false} 
         enableZoom={true} 
-        minDistance={10} 
-        maxDistance={50}
-        maxPolarAngle={Math.PI / 1.6}
+        minDistance={config.camera.minDistance} 
+        maxDistance={config.camera.maxDistance}
+        maxPolarAngle={THREE.MathUtils.degToRad(config.camera.maxPolarAngleDeg)}
+        onStart={() => markCameraInput(cameraActivity)}
       />
+      {keyboard && <KeyboardController activity={cameraActivity} />}
+      <CameraDirector program={cameraProgram} state={treeState} profile={treeProfile} activity={cameraActivity} reducedMotion={reducedMotion} />
 
-      {/* --- CINEMATIC LIGHTING SETUP --- */}
-      
-      {/* 1. Fill Light (Warm Ambient) - lowered for contrast */}
-      <ambientLight intensity={0.3} color="#ffebdb" />
-      
-      {/* 2. Key Light (Warm Gold from Top-Right) - Reduced intensity to stop blowout */}
-      <spotLight 
-        position={[15, 20, 15]} 
-        angle={0.6} 
-        penumbra={0.5} 
-        intensity={10} 
-        color="#ffaa00" 
-        castShadow 
-        shadow-bias={-0.0001}
-      />
-      
-      {/* 3. Rim Light (Cool Blue from Back-Left) - Creates silhouette */}
-      <spotLight 
-        position={[-15, 5, -20]} 
-        angle={1} 
-        penumbra={1} 
-        intensity={6} 
-        color="#d0eeff" 
-      />
-
-      {/* 4. Center Tree Warmth (Internal Glow) */}
-      <pointLight position={[0, 4, 0]} intensity={2} color="#ff8800" distance={12} decay={2} />
-
+      <SceneLighting theme={theme} shadows={quality.shadows} lights={config.lights} fog={config.fog} />
 
       {/* --- SCENE CONTENT --- */}
       <group position={[0, -2.5, 0]}>
-        <Foliage state={treeState} />
-        <Ornaments state={treeState} />
+        {/* Keyed on seed and size: buffers are rebuilt from scratch when the layout or count changes */}
+        <Foliage key={`foliage-${seed}-${config.particles.foliage}`} state={treeState} seed={seed} layoutContext={layoutContext} theme={theme} count={config.particles.foliage} density={quality.particles.foliage} audio={audio} timeline={timeline} reducedMotion={reducedMotion} />
+        <Ornaments 
+          state={treeState} 
+          seed={seed} 
+          layoutContext={layoutContext} 
+          theme={theme}
+          shadows={quality.shadows}
+          audio={audio}
+          snow={snow}
+          timeline={timeline}
+          spheres={config.ornaments.spheres}
+          gifts={config.ornaments.gifts}
+          placed={placedOrnaments}
+          focusedId={focusedOrnament}
+          reducedMotion={reducedMotion}
+          onSelectOrnament={onSelectOrnament} 
+          onPressOrnament={moving ? setDraggingId : undefined}
+        />
+
+        {/* Tinsel and string lights wound around the tree */}
+        <Garland key={`garland-${seed}`} state={treeState} seed={seed} profile={treeProfile} theme={theme} timeline={timeline} reducedMotion={reducedMotion} />
+        <StringLights key={`lights-${seed}`} state={treeState} seed={seed} profile={treeProfile} theme={theme} timeline={timeline} pattern={lightPattern} reducedMotion={reducedMotion} />
+
+        {/* Advent calendar rewards */}
+        <AdventDecorations days={adventDays} state={treeState} profile={treeProfile} theme={theme} timeline={timeline} reducedMotion={reducedMotion} />
+
+        {/* Shared room, placing and moving: pointer rays become points on the standing tree */}
+        {treeState === TreeMorphState.TREE_SHAPE && (room || onPlaceOrnament || moving) && (
+          <TreeSurface
+            profile={treeProfile}
+            onPoint={room?.moveCursor}
+            onPick={onPlaceOrnament}
+            dragging={draggingId !== null}
+            onDrag={handleDrag}
+            onDragEnd={handleDrop}
+          />
+        )}
+        {room && roomState && (
+          <RoomPresence room={room} peers={roomState.peers} ornaments={roomState.ornaments} showLabels={treeState === TreeMorphState.TREE_SHAPE} />
+        )}
         
         {/* Top Star */}
-        <Float speed={2} rotationIntensity={0.2} floatIntensity={0.2} floatingRange={[-0.1, 0.1]}>
-             <StarShape />
-            {/* Dedicated light for star glow - moved down to match star, warm white color */}
-            <pointLight position={[0, 7.8, 0]} intensity={3} color="#FFF7E6" distance={5} decay={2} />
+        <Float speed={reducedMotion ? 0 : 2} rotationIntensity={0.2} floatIntensity={0.2} floatingRange={[-0.1, 0.1]}>
+             <StarShape theme={theme} state={treeState} timeline={timeline} profile={treeProfile} />
         </Float>
         
+        {/* Settled snow */}
+        <SnowCaps seed={seed} theme={theme} profile={treeProfile} density={quality.particles.snow} cover={snow} />
+        <SnowGround theme={theme} cover={snow} />
+
         {/* Floating Golden Dust */}
-        <GoldenDust />
+        <GoldenDust key={`dust-${seed}-${config.particles.dust}`} seed={seed} theme={theme} count={config.particles.dust} density={quality.particles.dust} audio={audio} reducedMotion={reducedMotion} />
       </group>
 
       {/* Twinkling Background Stars */}
-      <BackgroundStars />
+      <BackgroundStars key={`stars-${seed}-${config.particles.stars}`} seed={seed} theme={theme} count={config.particles.stars} density={quality.particles.stars} audio={audio} reducedMotion={reducedMotion} />
+
+      {/* Falling snow, blown by the wind */}
+      <Snowfall key={`snow-${seed}-${config.particles.snow}`} seed={seed} theme={theme} count={config.particles.snow} density={quality.particles.snow} weather={weather} cover={snow} reducedMotion={reducedMotion} />
+
+      {/* After the morphing layers on purpose: it restarts the timeline once they have retargeted */}
+      <TimelineController 
+        timeline={timeline} 
+        state={treeState} 
+        seed={seed} 
+        layoutContext={layoutContext} 
+        onTransitionStart={onTransitionStart} 
+        onTransitionEnd={onTransitionEnd} 
+      />
 
       {/* --- POST PROCESSING --- */}
-      <EffectComposer enableNormalPass={false}>
-        {/* Tight, controlled Bloom for "sparkle" not "glow" */}
-        <Bloom 
-            luminanceThreshold={0.85} // Only very bright things glow
-            mipmapBlur 
-            intensity={0.6} // Gentle luxury glow
-            radius={0.3} // Small radius for sharp highlights
-        />
-        <Vignette eskil={false} offset={0.1} darkness={0.5} />
-        <Noise opacity={0.015} />
-      </EffectComposer>
+      {/* Passes follow the quality tier; the lowest tier skips the composer entirely */}
+      {/* Film grain flickers every frame, so reduced motion leaves it out */}
+      {(bloom || vignette || (noise && !reducedMotion)) && (
+        <EffectComposer enableNormalPass={false}>
+          {/* Tight, controlled Bloom for "sparkle" not "glow" */}
+          {bloom && <ReactiveBloom audio={audio} settings={config.bloom} />}
+          {vignette && <Vignette eskil={false} offset={0.1} darkness={0.5} />}
+          {noise && !reducedMotion && <Noise opacity={0.015} />}
+        </EffectComposer>
+      )}
     </Canvas>
   );
 };
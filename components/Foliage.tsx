@@ -1,56 +1,73 @@
-import React, { useMemo, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { TreeMorphState } from '../types';
-import { getRandomSpherePoint, getTreePoint, CONSTANTS } from '../utils/math';
+import { createRandom } from '../utils/math';
+import { LAYOUTS, LayoutContext, LayoutDefinition, DEFAULT_LAYOUT_CONTEXT, getLayout } from '../utils/layouts';
+import { Theme, fadeColor } from '../utils/themes';
+import { scaledCount } from '../utils/quality';
+import { AudioLevels } from '../utils/audio';
+import { MorphTimeline, layerProgress, layerTime, particleProgress, staggerAmount } from '../utils/timeline';
+import { EASING_GLSL, EASING_SAMPLES, getEasingSamples } from '../utils/easing';
+import { fillDelays } from '../utils/choreography';
 
 // Custom Shader Material for the Foliage
 // Handles morphing on the GPU
 const FoliageMaterial = {
   uniforms: {
     uTime: { value: 0 },
-    uProgress: { value: 0 }, // 0 = scatter, 1 = tree
-    // Deep luxurious emerald (almost black-green base)
-    uColor: { value: new THREE.Color('#013321') }, 
-    // High intensity gold (Reduced multiplier to prevent blowout)
-    uColorHigh: { value: new THREE.Color('#ffc800') }, 
+    uProgress: { value: 0 }, // Linear layer time: 0 = previous layout, 1 = target layout
+    uStagger: { value: 0 }, // Share of the layer time spread over particle delays
+    uEasing: { value: getEasingSamples('cubic') }, // Easing curve lookup table
+    // Drift amount of the previous / target layout (1 = floating like the scatter nebula)
+    uFloatFrom: { value: 1 },
+    uFloatTo: { value: 0 },
+    uBass: { value: 0 }, // Music bass level, 0 without music
+    // Theme base (the bulk of the needles) and highlight (rare HDR sparkles)
+    uColor: { value: new THREE.Color() }, 
+    uColorHigh: { value: new THREE.Color() }, 
   },
   vertexShader: `
     uniform float uTime;
     uniform float uProgress;
-    attribute vec3 aScatterPos;
-    attribute vec3 aTreePos;
+    uniform float uStagger;
+    uniform float uEasing[${EASING_SAMPLES + 1}];
+    uniform float uFloatFrom;
+    uniform float uFloatTo;
+    uniform float uBass;
+    attribute vec3 aFromPos;
+    attribute vec3 aToPos;
+    // Per-particle color (rgb) and how much it overrides the theme colors (a)
+    attribute vec4 aFromColor;
+    attribute vec4 aToColor;
     attribute float aRandom;
+    attribute float aDelay; // Choreography start delay, 0..1
     
     varying vec2 vUv;
     varying float vAlpha;
     varying float vGoldMix;
-
-    // Easing function for smooth transition
-    float easeInOutCubic(float x) {
-      return x < 0.5 ? 4.0 * x * x * x : 1.0 - pow(-2.0 * x + 2.0, 3.0) / 2.0;
-    }
-
+    varying vec4 vColor;
+${EASING_GLSL}
     void main() {
       vUv = uv;
       
-      // Calculate smooth morph progress
-      float t = easeInOutCubic(uProgress);
-      
-      // Interpolate positions
-      vec3 pos = mix(aScatterPos, aTreePos, t);
+      // Own start within the layer, then the shared easing curve. Springy curves may overshoot
+      float eased = easeCurve((uProgress - aDelay * uStagger) / (1.0 - uStagger));
+      vec3 pos = mix(aFromPos, aToPos, eased);
+      float t = clamp(eased, 0.0, 1.0);
       
-      // Add "Breathing" animation
-      float breathe = sin(uTime * 2.0 + aRandom * 10.0) * 0.1;
+      // Add "Breathing" animation, deeper with the bass
+      float breathe = sin(uTime * 2.0 + aRandom * 10.0) * (0.1 + uBass * 0.5);
       
-      // Add some "float" in scattered mode
+      // Add some "float" in floating layouts (scatter)
       vec3 floatOffset = vec3(
         sin(uTime * 0.5 + aRandom * 5.0),
         cos(uTime * 0.3 + aRandom * 3.0),
         sin(uTime * 0.7 + aRandom * 2.0)
-      ) * (1.0 - t) * 0.5; // Only float when scattered
+      ) * mix(uFloatFrom, uFloatTo, t) * 0.5;
 
-      pos += normal * breathe;
+      // Points carry no normals, so breathe out from the center of the shape
+      pos += normalize(pos + vec3(0.0, 0.0, 0.0001)) * breathe;
       pos += floatOffset;
 
       vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
@@ -63,6 +80,7 @@ const FoliageMaterial = {
       // Pass randomness to fragment
       vAlpha = 0.8 + 0.2 * sin(uTime + aRandom * 10.0);
       vGoldMix = aRandom; 
+      vColor = mix(aFromColor, aToColor, t);
     }
   `,
   fragmentShader: `
@@ -70,6 +88,7 @@ const FoliageMaterial = {
     uniform vec3 uColorHigh;
     varying float vAlpha;
     varying float vGoldMix;
+    varying vec4 vColor;
 
     void main() {
       // Circular particle
@@ -87,6 +106,10 @@ const FoliageMaterial = {
       
       // Step: Only top 5% of particles are gold
       vec3 finalColor = mix(baseColor, goldColor, step(0.95, vGoldMix));
+
+      // Layouts with their own colors (pictures) replace the theme colors.
+      // Dimmed a little since additive blending stacks overlapping points
+      finalColor = mix(finalColor, vColor.rgb * 0.6, vColor.a);
       
       // Add a bit of extra brightness to the center of every particle
       finalColor += vec3(0.05, 0.1, 0.05) * strength;
@@ -98,84 +121,208 @@ const FoliageMaterial = {
 
 interface FoliageProps {
   state: TreeMorphState;
+  seed: string;
+  layoutContext: LayoutContext;
+  theme: Theme;
+  count: number; // Particles at full quality (scene config); a change rebuilds the buffers
+  density: number; // Fraction of the particles drawn, set by the quality tier
+  audio: AudioLevels;
+  timeline: MorphTimeline; // Morph progress, shared with the other layers
+  reducedMotion: boolean; // Freeze the drift, breathing and flicker
+}
+
+interface FoliageLayout {
+  positions: Float32Array; // xyz per particle
+  colors: Float32Array | null; // rgba per particle, null = use the theme colors
 }
 
-const Foliage: React.FC<FoliageProps> = ({ state }) => {
-  const COUNT = 14000;
+// Target positions (and optional colors) of every particle for one layout
+const buildLayout = (layout: LayoutDefinition, seed: string, context: LayoutContext, count: number): FoliageLayout => {
+  // Own stream per layer and layout so other layers can't shift this one
+  const random = createRandom(`${seed}:foliage:${layout.state}`);
+
+  const sample = layout.foliageSample?.(random, count, context);
+  if (sample) {
+    const colors = new Float32Array(count * 4);
+    for (let i = 0; i < count; i++) {
+      colors.set(sample.colors.subarray(i * 3, i * 3 + 3), i * 4);
+      colors[i * 4 + 3] = 1;
+    }
+    return { positions: sample.positions, colors };
+  }
+
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const [x, y, z] = layout.foliagePoint(random, i, count, context);
+    positions[i * 3] = x;
+    positions[i * 3 + 1] = y;
+    positions[i * 3 + 2] = z;
+  }
+  return { positions, colors: null };
+};
+
+const Foliage: React.FC<FoliageProps> = ({ state, seed, layoutContext, theme, count, density, audio, timeline, reducedMotion }) => {
   const materialRef = useRef<THREE.ShaderMaterial>(null);
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
   
-  // Calculate positions once
-  const { scatterPositions, treePositions, randoms } = useMemo(() => {
-    const sPos = new Float32Array(COUNT * 3);
-    const tPos = new Float32Array(COUNT * 3);
-    const rnd = new Float32Array(COUNT);
-
-    for (let i = 0; i < COUNT; i++) {
-      // Scatter Logic
-      const [sx, sy, sz] = getRandomSpherePoint(CONSTANTS.SCATTER_RADIUS);
-      sPos[i * 3] = sx;
-      sPos[i * 3 + 1] = sy;
-      sPos[i * 3 + 2] = sz;
-
-      // Tree Logic
-      const [tx, ty, tz] = getTreePoint(CONSTANTS.TREE_HEIGHT, CONSTANTS.TREE_RADIUS_BASE);
-      tPos[i * 3] = tx;
-      tPos[i * 3 + 1] = ty;
-      tPos[i * 3 + 2] = tz;
-
-      rnd[i] = Math.random();
+  // Fixed layouts are calculated once per seed. from/to are the live buffers the shader mixes between
+  const { staticLayouts, fromPositions, toPositions, fromColors, toColors, randoms, delays } = useMemo(() => {
+    const layouts = {} as Partial<Record<TreeMorphState, FoliageLayout>>;
+    LAYOUTS.filter((layout) => !layout.dynamic).forEach((layout) => {
+      layouts[layout.state] = buildLayout(layout, seed, DEFAULT_LAYOUT_CONTEXT, count);
+    });
+
+    const random = createRandom(`${seed}:foliage`);
+    const rnd = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      rnd[i] = random();
     }
-    return { scatterPositions: sPos, treePositions: tPos, randoms: rnd };
+
+    // Always assemble out of the scatter nebula on first load
+    const scatter = layouts[TreeMorphState.SCATTERED]!.positions;
+    return {
+      staticLayouts: layouts,
+      fromPositions: scatter.slice(),
+      toPositions: scatter.slice(),
+      fromColors: new Float32Array(count * 4),
+      toColors: new Float32Array(count * 4),
+      randoms: rnd,
+      delays: new Float32Array(count)
+    };
+  }, [seed, count]);
+
+  // Layouts driven by runtime input (greeting text, picture) are rebuilt when it changes
+  const layouts = useMemo(() => {
+    const all = { ...staticLayouts };
+    LAYOUTS.filter((layout) => layout.dynamic).forEach((layout) => {
+      all[layout.state] = buildLayout(layout, seed, layoutContext, count);
+    });
+    return all as Record<TreeMorphState, FoliageLayout>;
+  }, [staticLayouts, seed, layoutContext, count]);
+
+  // Per-instance uniforms: the shared definition above is only a template.
+  // Starts at the current theme; later theme changes cross-fade in useFrame
+  const materialArgs = useMemo(() => {
+    const uniforms = THREE.UniformsUtils.clone(FoliageMaterial.uniforms);
+    uniforms.uColor.value.set(theme.foliage.base);
+    uniforms.uColorHigh.value.set(theme.foliage.highlight);
+    return { ...FoliageMaterial, uniforms };
   }, []);
 
-  // Handle Lerping Logic in a ref to persist value between renders
-  const progressRef = useRef(0);
+  const targetColors = useMemo(() => ({
+    base: new THREE.Color(theme.foliage.base),
+    highlight: new THREE.Color(theme.foliage.highlight)
+  }), [theme]);
+
+  // Lower tiers draw a prefix of the buffers. Particles are independent samples, so any prefix covers the shape evenly
+  useEffect(() => {
+    geometryRef.current?.setDrawRange(0, scaledCount(count, density));
+  }, [count, density]);
+
+  // Retarget: freeze wherever the particles are right now as the new start, so
+  // switching mid-transition continues smoothly instead of snapping back
+  useEffect(() => {
+    // Each particle is as far along as its own delay allows. Positions may be mid-overshoot;
+    // colors never overshoot (same as the shader)
+    const progressOf = particleProgress(timeline, 'foliage');
+    for (let i = 0; i < count; i++) {
+      const t = progressOf(delays[i]);
+      const settled = THREE.MathUtils.clamp(t, 0, 1);
+      for (let k = i * 3; k < i * 3 + 3; k++) fromPositions[k] += (toPositions[k] - fromPositions[k]) * t;
+      for (let k = i * 4; k < i * 4 + 4; k++) fromColors[k] += (toColors[k] - fromColors[k]) * settled;
+    }
+
+    const target = layouts[state];
+    toPositions.set(target.positions);
+    if (target.colors) {
+      toColors.set(target.colors);
+    } else {
+      // Keep the current hue and just fade the override out, so it doesn't dip to black
+      toColors.set(fromColors);
+      for (let i = 3; i < toColors.length; i += 4) toColors[i] = 0;
+    }
+    // Start delays for the coming build (the timeline switches choreography when it restarts)
+    fillDelays(timeline.config.choreography, toPositions, delays, { jitter: randoms });
+    // The timeline restarts the morph once every layer has retargeted (see TimelineController)
+    if (materialRef.current) {
+      const { uFloatFrom, uFloatTo } = materialRef.current.uniforms;
+      // Drift is one value for the whole layer, so it follows the layer's overall progress
+      uFloatFrom.value += (uFloatTo.value - uFloatFrom.value) * THREE.MathUtils.clamp(layerProgress(timeline, 'foliage'), 0, 1);
+      uFloatTo.value = getLayout(state).floating ? 1 : 0;
+    }
+    if (geometryRef.current) {
+      geometryRef.current.attributes.aFromPos.needsUpdate = true;
+      geometryRef.current.attributes.aToPos.needsUpdate = true;
+      geometryRef.current.attributes.aFromColor.needsUpdate = true;
+      geometryRef.current.attributes.aToColor.needsUpdate = true;
+      geometryRef.current.attributes.aDelay.needsUpdate = true;
+    }
+  }, [state, layouts, fromPositions, toPositions, fromColors, toColors, randoms, delays, timeline, count]);
   
   useFrame((_, delta) => {
     if (!materialRef.current) return;
     
-    // Update time for animation
-    materialRef.current.uniforms.uTime.value += delta;
-    
-    const target = state === TreeMorphState.TREE_SHAPE ? 1.0 : 0.0;
-    // Linear interpolation with dampening for the uniform
-    const speed = 1.5;
-    progressRef.current += (target - progressRef.current) * speed * delta;
+    // Update time for animation; held still in reduced motion, morphs run on the timeline regardless
+    if (!reducedMotion) materialRef.current.uniforms.uTime.value += delta;
     
-    materialRef.current.uniforms.uProgress.value = progressRef.current;
+    materialRef.current.uniforms.uProgress.value = layerTime(timeline, 'foliage');
+    materialRef.current.uniforms.uStagger.value = staggerAmount(timeline);
+    materialRef.current.uniforms.uEasing.value = getEasingSamples(timeline.config.easing);
+    materialRef.current.uniforms.uBass.value = audio.bass;
+
+    fadeColor(materialRef.current.uniforms.uColor.value, targetColors.base, delta);
+    fadeColor(materialRef.current.uniforms.uColorHigh.value, targetColors.highlight, delta);
   });
 
   return (
     <points>
-      <bufferGeometry>
+      <bufferGeometry ref={geometryRef}>
         <bufferAttribute
           attach="attributes-position" // Base position (not used directly, mixed in shader)
-          count={COUNT}
-          array={scatterPositions}
+          count={count}
+          array={layouts[TreeMorphState.SCATTERED].positions}
           itemSize={3}
         />
         <bufferAttribute
-          attach="attributes-aScatterPos"
-          count={COUNT}
-          array={scatterPositions}
+          attach="attributes-aFromPos"
+          count={count}
+          array={fromPositions}
           itemSize={3}
         />
         <bufferAttribute
-          attach="attributes-aTreePos"
-          count={COUNT}
-          array={treePositions}
+          attach="attributes-aToPos"
+          count={count}
+          array={toPositions}
           itemSize={3}
         />
+        <bufferAttribute
+          attach="attributes-aFromColor"
+          count={count}
+          array={fromColors}
+          itemSize={4}
+        />
+        <bufferAttribute
+          attach="attributes-aToColor"
+          count={count}
+          array={toColors}
+          itemSize={4}
+        />
         <bufferAttribute
           attach="attributes-aRandom"
-          count={COUNT}
+          count={count}
           array={randoms}
           itemSize={1}
         />
+        <bufferAttribute
+          attach="attributes-aDelay"
+          count={count}
+          array={delays}
+          itemSize={1}
+        />
       </bufferGeometry>
       <shaderMaterial
         ref={materialRef}
-        args={[FoliageMaterial]}
+        args={[materialArgs]}
         transparent
         depthWrite={false}
         blending={THREE.AdditiveBlending}
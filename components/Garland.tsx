@@ -0,0 +1,286 @@
+import React, { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TreeMorphState } from '../types';
+import { CONSTANTS, createRandom, getGarlandPoint, getRandomSpherePoint } from '../utils/math';
+import { TreeProfile } from '../utils/treeProfile';
+import { Theme, fadeColor } from '../utils/themes';
+import { MorphTimeline, layerProgress, layerTime, particleProgress, staggerAmount } from '../utils/timeline';
+import { EASING_GLSL, EASING_SAMPLES, getEasingSamples } from '../utils/easing';
+import { fillDelays } from '../utils/choreography';
+import { BLINK_GLSL, BULB_COLORS, BlinkPatternName, blinkPatternIndex } from '../utils/lights';
+
+// Decorations wound around the tree: a tinsel garland and a string of lights.
+// They only wrap the Tree layout; every other layout packs them away into the scatter nebula
+
+// Vertex morph shared by both layers, with the same easing and choreography as the foliage
+const MORPH_GLSL = `
+    uniform float uTime;
+    uniform float uProgress; // Linear layer time: 0 = previous layout, 1 = target layout
+    uniform float uStagger;
+    uniform float uEasing[${EASING_SAMPLES + 1}];
+    uniform float uFloatFrom;
+    uniform float uFloatTo;
+    attribute vec3 aFromPos;
+    attribute vec3 aToPos;
+    attribute float aDelay; // Choreography start delay, 0..1
+    attribute float aPath; // 0..1 along the string, bottom to top
+    attribute float aRandom;
+${EASING_GLSL}
+    vec3 garlandPosition() {
+      float eased = easeCurve((uProgress - aDelay * uStagger) / (1.0 - uStagger));
+      float drift = mix(uFloatFrom, uFloatTo, clamp(eased, 0.0, 1.0));
+      vec3 floatOffset = vec3(
+        sin(uTime * 0.5 + aRandom * 5.0),
+        cos(uTime * 0.3 + aRandom * 3.0),
+        sin(uTime * 0.7 + aRandom * 2.0)
+      ) * drift * 0.5;
+      return mix(aFromPos, aToPos, eased) + floatOffset;
+    }
+`;
+
+const TinselShader = {
+  vertexShader: `
+${MORPH_GLSL}
+    varying float vShimmer;
+
+    void main() {
+      vec4 mvPosition = modelViewMatrix * vec4(garlandPosition(), 1.0);
+      gl_PointSize = (6.0 + aRandom * 4.0) * (20.0 / -mvPosition.z);
+      gl_Position = projectionMatrix * mvPosition;
+
+      // Glints flowing up the strand
+      vShimmer = pow(0.5 + 0.5 * sin(aPath * 140.0 - uTime * 3.0 + aRandom * 6.0), 8.0);
+    }
+  `,
+  fragmentShader: `
+    uniform vec3 uColor;
+    varying float vShimmer;
+
+    void main() {
+      float dist = length(gl_PointCoord - vec2(0.5));
+      if (dist > 0.5) discard;
+      float strength = pow(1.0 - dist * 2.0, 1.5);
+
+      // The body stays under the bloom threshold, only the glints flare
+      vec3 color = uColor * (0.6 + vShimmer * 2.5);
+      gl_FragColor = vec4(color, strength * 0.9);
+    }
+  `
+};
+
+const BulbShader = {
+  vertexShader: `
+${MORPH_GLSL}
+    uniform int uPattern; // Index into BLINK_PATTERNS
+    uniform vec3 uBulbColors[${BULB_COLORS}];
+    attribute float aSlot; // Palette slot, alternating along the string
+    varying vec3 vColor;
+${BLINK_GLSL}
+    void main() {
+      vec4 mvPosition = modelViewMatrix * vec4(garlandPosition(), 1.0);
+      gl_PointSize = 16.0 * (20.0 / -mvPosition.z);
+      gl_Position = projectionMatrix * mvPosition;
+
+      float palette = bulbPalette(uPattern, aPath, aSlot, uTime);
+      int slot = int(mod(floor(palette), ${BULB_COLORS}.0));
+      int next = int(mod(floor(palette) + 1.0, ${BULB_COLORS}.0));
+      vec3 color = uPattern == 3 ? mix(uBulbColors[slot], uBulbColors[next], fract(palette)) : uBulbColors[slot];
+      // HDR: lit bulbs sit well above the bloom threshold
+      vColor = color * 3.0 * bulbBrightness(uPattern, aPath, aRandom, uTime);
+    }
+  `,
+  fragmentShader: `
+    varying vec3 vColor;
+
+    void main() {
+      float dist = length(gl_PointCoord - vec2(0.5));
+      if (dist > 0.5) discard;
+
+      // Hot core with a soft halo
+      float core = smoothstep(0.25, 0.0, dist);
+      float halo = pow(1.0 - dist * 2.0, 2.0);
+      gl_FragColor = vec4(vColor * (core + halo * 0.4), core + halo * 0.6);
+    }
+  `
+};
+
+const TINSEL_COUNT = 3000;
+const TINSEL_TURNS = 5;
+const TINSEL_THICKNESS = 0.12;
+const BULB_COUNT = 150;
+const BULB_TURNS = 7;
+// Neighbouring bulbs alternate through the palette
+const BULB_SLOTS = Float32Array.from({ length: BULB_COUNT }, (_, i) => i % BULB_COLORS);
+
+interface GarlandMorphUniforms {
+  [name: string]: THREE.IUniform;
+  uTime: THREE.IUniform<number>;
+  uProgress: THREE.IUniform<number>;
+  uStagger: THREE.IUniform<number>;
+  uEasing: THREE.IUniform<Float32Array>;
+  uFloatFrom: THREE.IUniform<number>;
+  uFloatTo: THREE.IUniform<number>;
+}
+
+// Geometry and uniforms of one garland layer, retargeted and played like the other layers.
+// `tree` holds the wrapped positions (xyz per point), `path` each point's 0..1 place along the string.
+// `reducedMotion` holds the drift, shimmer and blinking still.
+// `extra` per-point attributes (one float each) are read once, when the geometry is built
+const useGarlandMorph = (name: string, seed: string, state: TreeMorphState, tree: Float32Array, path: Float32Array, timeline: MorphTimeline, reducedMotion: boolean, extra: Record<string, Float32Array> = {}) => {
+  const count = path.length;
+
+  const { geometry, scatter, delays } = useMemo(() => {
+    // Own stream per layer so the other layers can't shift this one
+    const random = createRandom(`${seed}:${name}:scatter`);
+    const scatter = new Float32Array(count * 3);
+    const randoms = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      scatter.set(getRandomSpherePoint(random, CONSTANTS.SCATTER_RADIUS), i * 3);
+      randoms[i] = random();
+    }
+    const delays = new Float32Array(count);
+
+    // Always assemble out of the scatter nebula on first load
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(scatter, 3)); // Bounds only, the shader mixes from/to
+    geometry.setAttribute('aFromPos', new THREE.BufferAttribute(scatter.slice(), 3));
+    geometry.setAttribute('aToPos', new THREE.BufferAttribute(scatter.slice(), 3));
+    geometry.setAttribute('aDelay', new THREE.BufferAttribute(delays, 1));
+    geometry.setAttribute('aPath', new THREE.BufferAttribute(path, 1));
+    geometry.setAttribute('aRandom', new THREE.BufferAttribute(randoms, 1));
+    Object.entries(extra).forEach(([attribute, values]) => geometry.setAttribute(attribute, new THREE.BufferAttribute(values, 1)));
+    return { geometry, scatter, delays };
+  }, [name, seed, count, path]);
+
+  const uniforms = useMemo<GarlandMorphUniforms>(() => ({
+    uTime: { value: 0 },
+    uProgress: { value: 0 },
+    uStagger: { value: 0 },
+    uEasing: { value: getEasingSamples('cubic') },
+    uFloatFrom: { value: 1 },
+    uFloatTo: { value: 1 }
+  }), []);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // Retarget from wherever each point is right now (see Foliage)
+  useEffect(() => {
+    const from = geometry.attributes.aFromPos.array as Float32Array;
+    const to = geometry.attributes.aToPos.array as Float32Array;
+    const progressOf = particleProgress(timeline, 'garland');
+    for (let i = 0; i < count; i++) {
+      const t = progressOf(delays[i]);
+      for (let k = i * 3; k < i * 3 + 3; k++) from[k] += (to[k] - from[k]) * t;
+    }
+
+    const wrapped = state === TreeMorphState.TREE_SHAPE;
+    to.set(wrapped ? tree : scatter);
+    uniforms.uFloatFrom.value += (uniforms.uFloatTo.value - uniforms.uFloatFrom.value) * THREE.MathUtils.clamp(layerProgress(timeline, 'garland'), 0, 1);
+    uniforms.uFloatTo.value = wrapped ? 0 : 1;
+    // Points are in path order, so the spiral choreography winds the string on from the bottom
+    fillDelays(timeline.config.choreography, to, delays, { ordered: true });
+    geometry.attributes.aFromPos.needsUpdate = true;
+    geometry.attributes.aToPos.needsUpdate = true;
+    geometry.attributes.aDelay.needsUpdate = true;
+  }, [state, tree, geometry, scatter, delays, uniforms, timeline]);
+
+  useFrame((_, delta) => {
+    if (!reducedMotion) uniforms.uTime.value += delta;
+    uniforms.uProgress.value = layerTime(timeline, 'garland');
+    uniforms.uStagger.value = staggerAmount(timeline);
+    uniforms.uEasing.value = getEasingSamples(timeline.config.easing);
+  });
+
+  return { geometry, uniforms };
+};
+
+// Even 0..1 places along a string of `count` points
+const usePath = (count: number) => useMemo(() => Float32Array.from({ length: count }, (_, i) => i / (count - 1)), [count]);
+
+interface GarlandProps {
+  state: TreeMorphState;
+  seed: string;
+  profile: TreeProfile; // Tree silhouette the garland hugs
+  theme: Theme;
+  timeline: MorphTimeline;
+  reducedMotion: boolean;
+}
+
+// Tinsel: a loose strand of glittering points swagged around the tree
+export const Garland: React.FC<GarlandProps> = ({ state, seed, profile, theme, timeline, reducedMotion }) => {
+  const path = usePath(TINSEL_COUNT);
+
+  const tree = useMemo(() => {
+    const random = createRandom(`${seed}:garland:tinsel`);
+    const positions = new Float32Array(TINSEL_COUNT * 3);
+    for (let i = 0; i < TINSEL_COUNT; i++) {
+      const [x, y, z] = getGarlandPoint(path[i], profile, TINSEL_TURNS, 1.04);
+      // Fluff the strand out around its center line
+      const [dx, dy, dz] = getRandomSpherePoint(random, TINSEL_THICKNESS);
+      positions.set([x + dx, y + dy, z + dz], i * 3);
+    }
+    return positions;
+  }, [seed, profile, path]);
+
+  const { geometry, uniforms } = useGarlandMorph('garland', seed, state, tree, path, timeline, reducedMotion);
+
+  // Starts at the current theme; later theme changes cross-fade in useFrame
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    ...TinselShader,
+    uniforms: { ...uniforms, uColor: { value: new THREE.Color(theme.garland) } },
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending
+  }), [uniforms]);
+  useEffect(() => () => material.dispose(), [material]);
+
+  const target = useMemo(() => new THREE.Color(theme.garland), [theme]);
+  useFrame((_, delta) => fadeColor(material.uniforms.uColor.value, target, delta));
+
+  return <points geometry={geometry} material={material} />;
+};
+
+interface StringLightsProps extends GarlandProps {
+  pattern: BlinkPatternName;
+}
+
+// String lights: small bright bulbs running their own helix, blinking in the chosen pattern
+export const StringLights: React.FC<StringLightsProps> = ({ state, seed, profile, theme, timeline, pattern, reducedMotion }) => {
+  const path = usePath(BULB_COUNT);
+
+  // Half a turn out of phase with the tinsel, tucked slightly into the branches
+  const tree = useMemo(() => {
+    const positions = new Float32Array(BULB_COUNT * 3);
+    for (let i = 0; i < BULB_COUNT; i++) {
+      positions.set(getGarlandPoint(path[i], profile, BULB_TURNS, 0.98, Math.PI), i * 3);
+    }
+    return positions;
+  }, [profile, path]);
+
+  const { geometry, uniforms } = useGarlandMorph('lights', seed, state, tree, path, timeline, reducedMotion, { aSlot: BULB_SLOTS });
+
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    ...BulbShader,
+    uniforms: {
+      ...uniforms,
+      uPattern: { value: blinkPatternIndex(pattern) },
+      uBulbColors: { value: theme.bulbs.map((c) => new THREE.Color(c)) }
+    },
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending
+  }), [uniforms]);
+  useEffect(() => () => material.dispose(), [material]);
+
+  useEffect(() => {
+    material.uniforms.uPattern.value = blinkPatternIndex(pattern);
+  }, [material, pattern]);
+
+  const targets = useMemo(() => theme.bulbs.map((c) => new THREE.Color(c)), [theme]);
+  useFrame((_, delta) => {
+    (material.uniforms.uBulbColors.value as THREE.Color[]).forEach((color, i) => fadeColor(color, targets[i], delta));
+  });
+
+  return <points geometry={geometry} material={material} />;
+};
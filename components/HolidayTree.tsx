@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PlacedOrnament, TreeMorphState } from '../types';
+import { DEFAULT_GREETING } from '../utils/text';
+import { DEFAULT_THEME_ID, getTheme } from '../utils/themes';
+import { DEFAULT_TIER_ID, getQualityTier } from '../utils/quality';
+import { AudioPlayer } from '../utils/audio';
+import { createMorphTimeline } from '../utils/timeline';
+import { DEFAULT_TREE_PROFILE } from '../utils/treeProfile';
+import { DEFAULT_BLINK_PATTERN } from '../utils/lights';
+import { DEFAULT_WEATHER_ID, getWeather } from '../utils/weather';
+import { DEFAULT_SCENE_CONFIG, SceneConfig } from '../utils/sceneConfig';
+import { DEFAULT_CAMERA_PROGRAM } from '../utils/camera';
+import { prefersReducedMotion, subscribeReducedMotion } from '../utils/motion';
+import { generateSeed } from '../utils/seed';
+import { CaptureApi } from './CaptureController';
+import Experience from './Experience';
+
+const NO_PLACED_ORNAMENTS: PlacedOrnament[] = [];
+
+export interface HolidayTreeProps {
+  state?: TreeMorphState; // Tree by default
+  themeId?: string; // See utils/themes.ts
+  seed?: string; // Random per instance unless given
+  title?: string; // Shown over the scene; none by default
+  subtitle?: string;
+  greeting?: string; // Spelled out by the Greeting layout
+  reducedMotion?: boolean; // Follows the system setting unless given
+  config?: SceneConfig;
+  onTransitionStart?: (state: TreeMorphState) => void;
+  onTransitionEnd?: (state: TreeMorphState) => void; // The scene has finished assembling into `state`
+  onSelectOrnament?: (id: number) => void;
+}
+
+// The scene on its own, for embedding: no overlay, no URL or document changes, no global keys.
+// Everything the app keeps in state gets a default, so each instance stands alone.
+// Fills its parent; styled inline so it looks the same with or without the app's stylesheet
+const HolidayTree: React.FC<HolidayTreeProps> = ({
+  state = TreeMorphState.TREE_SHAPE,
+  themeId = DEFAULT_THEME_ID,
+  seed,
+  title,
+  subtitle,
+  greeting = DEFAULT_GREETING,
+  reducedMotion,
+  config = DEFAULT_SCENE_CONFIG,
+  onTransitionStart,
+  onTransitionEnd,
+  onSelectOrnament
+}) => {
+  const [randomSeed] = useState(generateSeed);
+  const [systemReducedMotion, setSystemReducedMotion] = useState(prefersReducedMotion);
+  useEffect(() => subscribeReducedMotion(setSystemReducedMotion), []);
+  const [tierId, setTierId] = useState(DEFAULT_TIER_ID);
+  const [timeline] = useState(() => createMorphTimeline());
+  const audioRef = useRef<AudioPlayer | null>(null);
+  const captureRef = useRef<CaptureApi | null>(null);
+  const theme = getTheme(themeId);
+
+  return (
+    <div style={{ position: 'relative', width: '100%', height: '100%', overflow: 'hidden', backgroundColor: theme.ui.dark, transition: 'background-color 1s' }}>
+      <Experience
+        treeState={state}
+        seed={seed ?? randomSeed}
+        greeting={greeting}
+        image={null}
+        treeProfile={DEFAULT_TREE_PROFILE}
+        lightPattern={DEFAULT_BLINK_PATTERN}
+        adventDays={[]}
+        focusedOrnament={null}
+        placedOrnaments={NO_PLACED_ORNAMENTS}
+        room={null}
+        roomState={null}
+        reducedMotion={reducedMotion ?? systemReducedMotion}
+        cameraProgram={DEFAULT_CAMERA_PROGRAM}
+        keyboard={false}
+        weather={getWeather(DEFAULT_WEATHER_ID)}
+        theme={theme}
+        quality={getQualityTier(tierId)}
+        adaptiveQuality
+        onQualityChange={setTierId}
+        audioRef={audioRef}
+        timeline={timeline}
+        onTransitionStart={onTransitionStart}
+        onTransitionEnd={onTransitionEnd}
+        onSelectOrnament={onSelectOrnament ?? (() => {})}
+        captureRef={captureRef}
+        onSequenceState={() => {}} // Scripted recordings are an app feature
+        config={config}
+      />
+      {(title || subtitle) && (
+        <div style={{ position: 'absolute', top: '8%', left: 0, right: 0, textAlign: 'center', pointerEvents: 'none', fontFamily: "var(--font-serif, 'Times New Roman', serif)" }}>
+          {title && (
+            <h1 style={{ margin: 0, fontSize: 'clamp(1.5rem, 5vw, 3rem)', letterSpacing: '0.2em', textTransform: 'uppercase', color: theme.ui.gold, textShadow: `0 0 20px ${theme.ui.goldDark}` }}>
+              {title}
+            </h1>
+          )}
+          {subtitle && (
+            <p style={{ margin: '0.5rem 0 0', fontSize: '0.75rem', letterSpacing: '0.4em', textTransform: 'uppercase', color: theme.ui.goldLight }}>
+              {subtitle}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HolidayTree;
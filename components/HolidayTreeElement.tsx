@@ -0,0 +1,135 @@
+import React from 'react';
+import { Root, createRoot } from 'react-dom/client';
+import { TreeMorphState } from '../types';
+import HolidayTree from './HolidayTree';
+
+// Events the element dispatches. They bubble and cross the shadow boundary
+export interface HolidayTreeEventMap {
+  statechange: CustomEvent<{ state: TreeMorphState; previous: TreeMorphState }>; // A morph has started
+  morphend: CustomEvent<{ state: TreeMorphState }>; // The scene has finished assembling
+  ornamentselect: CustomEvent<{ id: number }>;
+}
+
+// Kept inside the shadow root: nothing leaks into the page and the page's CSS stays out.
+// Size the element from outside like any block, e.g. `holiday-tree { height: 100vh }`
+const STYLES = `
+  :host { display: block; position: relative; width: 100%; height: 480px; contain: content; }
+  :host([hidden]) { display: none; }
+  .mount { width: 100%; height: 100%; }
+  canvas { touch-action: none; }
+`;
+
+// state="spiral-galaxy" -> SPIRAL_GALAXY. The picture layout needs a picture, so it isn't offered
+const parseState = (value: string | null): TreeMorphState | null => {
+  const key = value?.trim().toUpperCase().replace(/-/g, '_');
+  if (!key || key === TreeMorphState.IMAGE || !(key in TreeMorphState)) return null;
+  return key as TreeMorphState;
+};
+
+// reduced-motion or reduced-motion="true" holds still, reduced-motion="false" moves;
+// without the attribute the system setting decides
+const parseReducedMotion = (value: string | null): boolean | undefined => {
+  if (value === null) return undefined;
+  return value.trim().toLowerCase() !== 'false';
+};
+
+const toAttribute = (state: TreeMorphState) => state.toLowerCase().replace(/_/g, '-');
+
+// <holiday-tree state="tree-shape" theme="classic" seed="..." heading="..." subtitle="..." greeting="..."
+// reduced-motion>. `heading` rather than `title`, which would put a browser tooltip over the scene.
+// Each element renders its own scene in its own React root, so any number of them can share a page
+export class HolidayTreeElement extends HTMLElement {
+  static observedAttributes = ['state', 'theme', 'seed', 'heading', 'subtitle', 'greeting', 'reduced-motion'];
+
+  private root: Root | null = null;
+  private mount: HTMLDivElement | null = null;
+  private current = TreeMorphState.TREE_SHAPE;
+  private destroyed = false;
+
+  get state(): TreeMorphState {
+    return this.current;
+  }
+
+  set state(state: TreeMorphState) {
+    this.setAttribute('state', toAttribute(state));
+  }
+
+  // Blow the tree apart
+  scatter() {
+    this.state = TreeMorphState.SCATTERED;
+  }
+
+  // Pull it back together
+  assemble() {
+    this.state = TreeMorphState.TREE_SHAPE;
+  }
+
+  // Frees the scene and its WebGL context for good. The element stays in the page, empty
+  destroy() {
+    this.destroyed = true;
+    this.root?.unmount();
+    this.root = null;
+    this.shadowRoot?.replaceChildren();
+  }
+
+  connectedCallback() {
+    if (this.destroyed) return;
+    if (!this.mount) {
+      const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
+      const style = document.createElement('style');
+      style.textContent = STYLES;
+      this.mount = document.createElement('div');
+      this.mount.className = 'mount';
+      shadow.replaceChildren(style, this.mount);
+    }
+    this.root ??= createRoot(this.mount);
+    this.render();
+  }
+
+  // Moving the element around the page remounts it; leaving the page frees the scene
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback(name: string) {
+    if (name === 'state') {
+      const previous = this.current;
+      this.current = parseState(this.getAttribute('state')) ?? TreeMorphState.TREE_SHAPE;
+      // Attributes present at creation set the starting layout quietly
+      if (this.current !== previous && this.root) this.emit('statechange', { state: this.current, previous });
+    }
+    this.render();
+  }
+
+  private emit<K extends keyof HolidayTreeEventMap>(type: K, detail: HolidayTreeEventMap[K]['detail']) {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+
+  private render() {
+    this.root?.render(
+      <HolidayTree
+        state={this.current}
+        themeId={this.getAttribute('theme') ?? undefined}
+        seed={this.getAttribute('seed') ?? undefined}
+        title={this.getAttribute('heading') ?? undefined}
+        subtitle={this.getAttribute('subtitle') ?? undefined}
+        greeting={this.getAttribute('greeting') ?? undefined}
+        reducedMotion={parseReducedMotion(this.getAttribute('reduced-motion'))}
+        onTransitionEnd={(state) => this.emit('morphend', { state })}
+        onSelectOrnament={(id) => this.emit('ornamentselect', { id })}
+      />
+    );
+  }
+}
+
+// Registers the element, once. A subclass per tag, since a class can only be defined under one name
+export const defineHolidayTree = (tagName = 'holiday-tree') => {
+  if (!customElements.get(tagName)) customElements.define(tagName, class extends HolidayTreeElement {});
+};
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'holiday-tree': HolidayTreeElement;
+  }
+}
@@ -0,0 +1,93 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { hasModifier, isTypingTarget } from '../utils/keyboard';
+import { CameraActivity, markCameraInput } from '../utils/camera';
+
+// The parts of OrbitControls the keys drive
+type OrbitLike = {
+  target: THREE.Vector3;
+  minDistance: number;
+  maxDistance: number;
+  minPolarAngle: number;
+  maxPolarAngle: number;
+  update: () => void;
+};
+
+// Held key -> [orbit around, tilt, zoom] direction
+const KEY_MOTION: Record<string, [number, number, number]> = {
+  ArrowLeft: [1, 0, 0],
+  ArrowRight: [-1, 0, 0],
+  ArrowUp: [0, 1, 0],
+  ArrowDown: [0, -1, 0],
+  '+': [0, 0, -1],
+  '=': [0, 0, -1], // Plus without Shift on most layouts
+  '-': [0, 0, 1],
+  '_': [0, 0, 1]
+};
+
+const ORBIT_SPEED = 1.2; // Radians per second
+const ZOOM_SPEED = 12; // Units per second
+const EPS = 0.0001;
+
+const offset = new THREE.Vector3();
+const spherical = new THREE.Spherical();
+
+// Lives inside the Canvas: arrow keys orbit the camera, plus and minus zoom, within the
+// same limits as the mouse. Keys are held, so movement follows the frame rate smoothly
+const KeyboardController: React.FC<{ activity: CameraActivity }> = ({ activity }) => {
+  const camera = useThree((state) => state.camera);
+  const controls = useThree((state) => state.controls) as unknown as OrbitLike | null;
+  const held = useRef(new Set<string>());
+
+  useEffect(() => {
+    const keys = held.current;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.key in KEY_MOTION) || hasModifier(e) || isTypingTarget(e.target)) return;
+      e.preventDefault(); // Arrows would scroll the page
+      keys.add(e.key);
+    };
+    const onKeyUp = (e: KeyboardEvent) => keys.delete(e.key);
+    // Key-up is never seen once the window loses focus
+    const onBlur = () => keys.clear();
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, []);
+
+  useFrame((_, delta) => {
+    if (!controls || held.current.size === 0) return;
+    markCameraInput(activity); // Takes the camera back from the director
+    let orbit = 0;
+    let tilt = 0;
+    let zoom = 0;
+    held.current.forEach((key) => {
+      const [o, t, z] = KEY_MOTION[key];
+      orbit += o;
+      tilt += t;
+      zoom += z;
+    });
+
+    offset.copy(camera.position).sub(controls.target);
+    spherical.setFromVector3(offset);
+    spherical.theta += orbit * ORBIT_SPEED * delta;
+    spherical.phi = THREE.MathUtils.clamp(
+      spherical.phi - tilt * ORBIT_SPEED * delta,
+      Math.max(EPS, controls.minPolarAngle),
+      Math.min(Math.PI - EPS, controls.maxPolarAngle)
+    );
+    spherical.radius = THREE.MathUtils.clamp(spherical.radius + zoom * ZOOM_SPEED * delta, controls.minDistance, controls.maxDistance);
+    camera.position.copy(controls.target).add(offset.setFromSpherical(spherical));
+    camera.lookAt(controls.target);
+    controls.update();
+  });
+
+  return null;
+};
+
+export default KeyboardController;
@@ -0,0 +1,53 @@
+import React, { useEffect } from 'react';
+import { OrnamentMessage } from '../utils/messages';
+import { Messages } from '../utils/i18n';
+
+interface MessageCardProps {
+  message: OrnamentMessage;
+  onClose: () => void;
+  messages: Messages;
+}
+
+const MessageCard: React.FC<MessageCardProps> = ({ message, onClose, messages }) => {
+  // Escape closes the card
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center p-8 bg-black/40" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="ornament-message-title"
+        className="max-w-md w-full p-8 bg-arix-dark/80 backdrop-blur-md border border-arix-gold/30 rounded-sm text-center shadow-[0_0_40px_rgba(212,175,55,0.2)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 id="ornament-message-title" className="font-serif text-arix-gold text-2xl tracking-widest uppercase">
+          {message.title}
+        </h2>
+        <p className="mt-4 font-serif text-arix-goldLight leading-relaxed">
+          {message.message}
+        </p>
+        {message.from && (
+          <p className="mt-4 text-arix-goldLight/60 text-xs tracking-[0.3em] uppercase">
+            — {message.from}
+          </p>
+        )}
+        <button
+          autoFocus // Keyboard users land on the card, Enter or Escape closes it
+          onClick={onClose}
+          className="mt-6 px-6 py-2 rounded-full font-serif tracking-widest uppercase text-arix-gold border border-arix-gold/20 hover:bg-white/5 transition-all duration-500"
+        >
+          {messages.closeNote}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MessageCard;
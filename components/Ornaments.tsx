@@ -1,154 +1,566 @@
 import React, { useMemo, useRef, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeMorphState, OrnamentData } from '../types';
-import { getRandomSpherePoint, getTreeSpiralPoint, CONSTANTS } from '../utils/math';
+import { TreeMorphState, OrnamentData, PlacedOrnament, Vec3 } from '../types';
+import { createRandom } from '../utils/math';
+import { LAYOUTS, LayoutContext, getLayout } from '../utils/layouts';
+import { hasOrnamentMessage } from '../utils/messages';
+import { Theme, fadeColor } from '../utils/themes';
+import { AudioLevels } from '../utils/audio';
+import { SnowCover } from '../utils/weather';
+import { OrnamentSetConfig } from '../utils/sceneConfig';
+import { MorphTimeline, TransitionLayer, layerProgress, layerTime, particleProgress, staggerAmount } from '../utils/timeline';
+import { EASING_GLSL, EASING_SAMPLES, evaluateSamples, getEasingSamples } from '../utils/easing';
+import { fillDelays } from '../utils/choreography';
+import { MAX_PLACED_ORNAMENTS, isPlacedId } from '../utils/ornaments';
+
+// Sphere palette slot kept small (red in Classic), see Theme.ornaments
+const SPHERE_ACCENT_SLOT = 3;
+
+// Morphing on the GPU, like the foliage: every ornament's endpoints and motion live in
+// instanced attributes, and the vertex shader places, spins and scales it.
+// instanceMatrix stays identity, so nothing is re-uploaded per frame
+const MorphChunks = {
+  header: `
+    uniform float uTime;
+    uniform float uProgress; // Linear layer time: 0 = previous layout, 1 = target layout
+    uniform float uStagger; // Share of the layer time spread over ornament delays
+    uniform float uEasing[${EASING_SAMPLES + 1}]; // Easing curve lookup table
+    uniform float uFloatFrom;
+    uniform float uFloatTo;
+    uniform float uBeat; // Music beat envelope, 0 without music
+    varying float vSnowUp; // How much the surface faces the sky, for settled snow
+    attribute vec3 aFromPos;
+    attribute vec3 aToPos;
+    attribute vec3 aRotation; // Resting euler angles (XYZ order, as THREE.Object3D)
+    attribute vec3 aScale; // Base scale times the per-axis shape
+    attribute vec2 aMotion; // x: float speed, y: phase offset
+    attribute float aGlow; // Hover highlight, 0..1
+    attribute float aDelay; // Choreography start delay, 0..1
+${EASING_GLSL}
+    // This ornament's eased progress; may overshoot on springy curves
+    float ornamentProgress() {
+      return easeCurve((uProgress - aDelay * uStagger) / (1.0 - uStagger));
+    }
+
+    // 1 while drifting in a floating layout, 0 once settled into a shape
+    float ornamentDrift() {
+      return mix(uFloatFrom, uFloatTo, clamp(ornamentProgress(), 0.0, 1.0));
+    }
+
+    mat3 ornamentRotation() {
+      vec3 e = aRotation + vec3(uTime * 0.2 * ornamentDrift(), uTime * 0.1, 0.0);
+      vec3 c = cos(e);
+      vec3 s = sin(e);
+      mat3 rx = mat3(1.0, 0.0, 0.0, 0.0, c.x, s.x, 0.0, -s.x, c.x);
+      mat3 ry = mat3(c.y, 0.0, -s.y, 0.0, 1.0, 0.0, s.y, 0.0, c.y);
+      mat3 rz = mat3(c.z, s.z, 0.0, -s.z, c.z, 0.0, 0.0, 0.0, 1.0);
+      return rx * ry * rz;
+    }
+
+    // Gentle pop, a kick on every beat, and a little swell while hovered
+    vec3 ornamentScale() {
+      return aScale * (0.8 + 0.2 * sin(uTime + aMotion.y)) * (1.0 + uBeat * 0.15) * (1.0 + aGlow * 0.4);
+    }
+
+    vec3 ornamentPosition() {
+      vec3 pos = mix(aFromPos, aToPos, ornamentProgress());
+      pos.y += sin(uTime * aMotion.x + aMotion.y) * 0.2 * ornamentDrift();
+      return pos;
+    }
+  `,
+  normal: `
+    objectNormal = ornamentRotation() * (objectNormal / ornamentScale());
+    vSnowUp = normalize(mat3(modelMatrix) * objectNormal).y;
+  `,
+  fragmentHeader: `
+    uniform float uSnow; // Settled snow, 0..1
+    varying float vSnowUp;
+  `,
+  // Snow settles on the upward faces only: white, matte, no metal
+  snow: `
+    float snowCover = uSnow * smoothstep(0.55, 0.85, vSnowUp);
+    diffuseColor.rgb = mix(diffuseColor.rgb, vec3(0.95), snowCover);
+  `,
+  snowSurface: `
+    roughnessFactor = mix(roughnessFactor, 0.9, snowCover);
+    metalnessFactor = mix(metalnessFactor, 0.0, snowCover);
+  `,
+  position: `
+    transformed = ornamentRotation() * (transformed * ornamentScale()) + ornamentPosition();
+  `
+};
+
+type MorphUniforms = {
+  uTime: THREE.IUniform<number>;
+  uProgress: THREE.IUniform<number>;
+  uStagger: THREE.IUniform<number>;
+  uEasing: THREE.IUniform<Float32Array>;
+  uFloatFrom: THREE.IUniform<number>;
+  uFloatTo: THREE.IUniform<number>;
+  uBeat: THREE.IUniform<number>;
+  uSnow: THREE.IUniform<number>;
+};
+
+// Patch a built-in material (lit or shadow depth) with the morph chunks
+const withMorph = <T extends THREE.Material>(material: T, uniforms: MorphUniforms): T => {
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${MorphChunks.header}`)
+      .replace('#include <beginnormal_vertex>', `#include <beginnormal_vertex>\n${MorphChunks.normal}`)
+      .replace('#include <begin_vertex>', `#include <begin_vertex>\n${MorphChunks.position}`);
+    // Snow on lit materials; the depth material only picks up the declarations
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>\n${MorphChunks.fragmentHeader}`)
+      .replace('#include <color_fragment>', `#include <color_fragment>\n${MorphChunks.snow}`)
+      .replace('#include <metalnessmap_fragment>', `#include <metalnessmap_fragment>\n${MorphChunks.snowSurface}`);
+  };
+  material.customProgramCacheKey = () => 'ornament-morph';
+  return material;
+};
+
+const tempTarget = new THREE.Vector3();
+
+// CPU copy of ornamentPosition() for picking. Only runs on pointer events
+const morphedPosition = (from: Float32Array, to: Float32Array, motion: Float32Array, i: number, t: number, drift: number, time: number, out: THREE.Vector3) => {
+  out.set(from[i * 3], from[i * 3 + 1], from[i * 3 + 2]);
+  out.lerp(tempTarget.set(to[i * 3], to[i * 3 + 1], to[i * 3 + 2]), t);
+  out.y += Math.sin(time * motion[i * 2] + motion[i * 2 + 1]) * 0.2 * drift;
+  return out;
+};
+
+type OrnamentItem = OrnamentData & { scaleVector: Vec3 };
+
+const SCATTER_LAYOUT = getLayout(TreeMorphState.SCATTERED);
+
+// A placed ornament hangs where it was put in the Tree layout. Everything else it learns from its
+// own seeded stream: one scatter point it drifts to in every other layout, so it still morphs
+const placedItem = (placed: PlacedOrnament, scaleBase: number, paletteSize: number, seed: string, context: LayoutContext): OrnamentItem => {
+  const random = createRandom(`${seed}:placed:${placed.id}`);
+  const drift = SCATTER_LAYOUT.ornamentPoint(random, 0, 1, placed.type, context);
+  const positions = {} as Record<TreeMorphState, Vec3>;
+  LAYOUTS.forEach((layout) => {
+    positions[layout.state] = drift;
+  });
+  positions[TreeMorphState.TREE_SHAPE] = placed.position;
+  return {
+    id: placed.id,
+    type: placed.type,
+    positions,
+    scale: scaleBase * placed.size,
+    rotation: [random() * Math.PI, random() * Math.PI, 0],
+    colorSlot: placed.colorSlot % paletteSize,
+    speed: 0.2 + random() * 0.5,
+    offset: random() * 100,
+    scaleVector: [1, 1, 1]
+  };
+};
+
+// Whether a stored position is still where the ornament should be headed
+const samePoint = (array: Float32Array, i: number, point: Vec3) =>
+  Math.abs(array[i * 3] - point[0]) < 1e-4 && Math.abs(array[i * 3 + 1] - point[1]) < 1e-4 && Math.abs(array[i * 3 + 2] - point[2]) < 1e-4;
 
 interface OrnamentGroupProps {
   state: TreeMorphState;
   type: 'SPHERE' | 'BOX';
-  count: number;
+  count: number; // Seeded ornaments
+  placed: PlacedOrnament[]; // Hand-placed ones of this type, drawn after the seeded ones
   geometry: THREE.BufferGeometry;
   material: THREE.Material;
   scaleBase: number;
-  palette?: string[]; // Optional color palette
+  palette: string[]; // Theme palette; ornaments keep their slot when it changes
+  seed: string;
+  layoutContext: LayoutContext;
+  idOffset: number; // First OrnamentData.id of this group, ids are unique across groups
+  shadows: boolean;
+  audio: AudioLevels;
+  snow: SnowCover;
+  timeline: MorphTimeline;
+  focusedId: number | null; // Keyboard focus, highlighted like a hover
+  reducedMotion: boolean; // Stop the bobbing and spinning
+  onSelect: (id: number) => void;
+  onPress?: (id: number) => void; // Pointer down on a placed ornament, e.g. to start dragging it
 }
 
-const OrnamentGroup: React.FC<OrnamentGroupProps> = ({ state, type, count, geometry, material, scaleBase, palette }) => {
+const OrnamentGroup: React.FC<OrnamentGroupProps> = ({ state, type, count, placed, geometry, material, scaleBase, palette, seed, layoutContext, idOffset, shadows, audio, snow, timeline, focusedId, reducedMotion, onSelect, onPress }) => {
   const meshRef = useRef<THREE.InstancedMesh>(null);
+  const paletteSize = palette.length;
+  // Picked instance index (not id); the per-instance 0..1 highlight lives in the aGlow attribute
+  const layer: TransitionLayer = type === 'BOX' ? 'gifts' : 'spheres';
+  const hoveredRef = useRef<number | null>(null);
   
   // Initialize Data
   const data = useMemo(() => {
-    const items: OrnamentData[] = [];
-    const colorObj = new THREE.Color();
+    const items: OrnamentItem[] = [];
+    const random = createRandom(`${seed}:ornaments:${type}`);
+
+    // Each layout draws from its own stream so adding one doesn't reshuffle the others
+    const layoutRandoms = LAYOUTS.map((layout) => createRandom(`${seed}:ornaments:${type}:${layout.state}`));
 
     for (let i = 0; i < count; i++) {
-      const scatter = getRandomSpherePoint(CONSTANTS.SCATTER_RADIUS);
-      const tree = getTreeSpiralPoint(i, count, CONSTANTS.TREE_HEIGHT, CONSTANTS.TREE_RADIUS_BASE * (type === 'BOX' ? 0.8 : 0.9));
-      
-      // Jitter tree position
-      tree[0] += (Math.random() - 0.5) * 0.5;
-      tree[2] += (Math.random() - 0.5) * 0.5;
-
-      // Pick random color from palette if exists
-      let colorHex = '#d4af37';
-      if (palette && palette.length > 0) {
-          colorHex = palette[Math.floor(Math.random() * palette.length)];
-      }
+      const positions = {} as Record<TreeMorphState, Vec3>;
+      LAYOUTS.forEach((layout, l) => {
+        positions[layout.state] = layout.ornamentPoint(layoutRandoms[l], i, count, type, layoutContext);
+      });
+
+      // Pick a random palette slot (the color itself comes from the theme)
+      const colorSlot = Math.floor(random() * paletteSize);
       
       // Scale Logic
-      let scaleVec: [number, number, number] = [1, 1, 1];
+      let scaleVec: Vec3 = [1, 1, 1];
       let itemScaleBase = scaleBase;
 
       if (type === 'BOX') {
         // Randomize dimensions to make flat boxes, tall boxes, cubes
         scaleVec = [
-            0.8 + Math.random() * 0.4, // Width
-            0.6 + Math.random() * 0.6, // Height
-            0.8 + Math.random() * 0.4  // Depth
+            0.8 + random() * 0.4, // Width
+            0.6 + random() * 0.6, // Height
+            0.8 + random() * 0.4  // Depth
         ];
         // Standard variation for boxes
-        itemScaleBase = scaleBase * (0.8 + Math.random() * 0.4);
+        itemScaleBase = scaleBase * (0.8 + random() * 0.4);
       } else if (type === 'SPHERE') {
          // Stratified sizing for Spheres
          // Default to small detail spheres
-         itemScaleBase = scaleBase * (0.8 + Math.random() * 0.4);
+         itemScaleBase = scaleBase * (0.8 + random() * 0.4);
 
-         // If NOT Red (Red is #8a0000), apply chance for larger sizes to fill gaps
-         if (colorHex !== '#8a0000') {
-             const r = Math.random();
+         // If NOT the accent color (red in Classic), apply chance for larger sizes to fill gaps
+         if (colorSlot !== SPHERE_ACCENT_SLOT) {
+             const r = random();
              if (r < 0.04) {
                  // 4% Very Large (Focus/Fill) - 2.2x to 2.4x
-                 itemScaleBase = scaleBase * (2.2 + Math.random() * 0.2);
+                 itemScaleBase = scaleBase * (2.2 + random() * 0.2);
              } else if (r < 0.20) {
                  // 16% Medium-Large (Main Decor) - 1.4x to 1.8x
-                 itemScaleBase = scaleBase * (1.4 + Math.random() * 0.4);
+                 itemScaleBase = scaleBase * (1.4 + random() * 0.4);
              }
          }
       }
 
       items.push({
-        id: i,
+        id: idOffset + i,
         type,
-        scatter: scatter,
-        tree: tree,
+        positions,
         scale: itemScaleBase,
-        rotation: [Math.random() * Math.PI, Math.random() * Math.PI, 0],
-        color: colorHex,
-        speed: 0.2 + Math.random() * 0.5,
-        offset: Math.random() * 100,
-        // @ts-ignore - attaching custom scale vector to data
-        scaleVector: scaleVec 
+        rotation: [random() * Math.PI, random() * Math.PI, 0],
+        colorSlot,
+        speed: 0.2 + random() * 0.5,
+        offset: random() * 100,
+        scaleVector: scaleVec
       });
     }
     return items;
-  }, [count, type, scaleBase, palette]);
+  }, [count, type, scaleBase, paletteSize, seed, layoutContext, idOffset]);
+
+  const placedData = useMemo(
+    () => placed.slice(0, MAX_PLACED_ORNAMENTS).map((p) => placedItem(p, scaleBase, paletteSize, seed, layoutContext)),
+    [placed, scaleBase, paletteSize, seed, layoutContext]
+  );
+  // Everything drawn, in instance order
+  const items = useMemo(() => (placedData.length > 0 ? [...data, ...placedData] : data), [data, placedData]);
+  // Room for every placed ornament up front, so placing one never rebuilds the buffers
+  const capacity = count + MAX_PLACED_ORNAMENTS;
+  // Ornament id at each instance index, as last written to the morph buffers
+  const slotIdsRef = useRef<number[]>([]);
+
+  // Per-instance morph inputs. Arrays are kept for the lifetime of the group and rewritten in place
+  const attributes = useMemo(() => ({
+    from: new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3),
+    to: new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3),
+    rotation: new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3),
+    scale: new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3),
+    motion: new THREE.InstancedBufferAttribute(new Float32Array(capacity * 2), 2),
+    glow: new THREE.InstancedBufferAttribute(new Float32Array(capacity), 1),
+    delay: new THREE.InstancedBufferAttribute(new Float32Array(capacity), 1)
+  }), [capacity]);
+
+  const morphGeometry = useMemo(() => {
+    const morphed = geometry.clone();
+    morphed.setAttribute('aFromPos', attributes.from);
+    morphed.setAttribute('aToPos', attributes.to);
+    morphed.setAttribute('aRotation', attributes.rotation);
+    morphed.setAttribute('aScale', attributes.scale);
+    morphed.setAttribute('aMotion', attributes.motion);
+    morphed.setAttribute('aGlow', attributes.glow);
+    morphed.setAttribute('aDelay', attributes.delay);
+    morphed.computeBoundingSphere();
+    return morphed;
+  }, [geometry, attributes]);
+
+  // Uniforms owned by this group's material instances (the shared templates stay untouched)
+  const uniforms = useMemo<MorphUniforms>(() => ({
+    uTime: { value: 0 },
+    uProgress: { value: 0 },
+    uStagger: { value: 0 },
+    uEasing: { value: getEasingSamples('cubic') },
+    uFloatFrom: { value: 1 },
+    uFloatTo: { value: 1 },
+    uBeat: { value: 0 },
+    uSnow: { value: 0 }
+  }), []);
+  const morphMaterial = useMemo(() => withMorph(material.clone(), uniforms), [material, uniforms]);
+  // Shadows are rendered with a depth material; it needs the same vertex motion
+  const depthMaterial = useMemo(() => withMorph(new THREE.MeshDepthMaterial(), uniforms), [uniforms]);
+
+  useEffect(() => () => morphGeometry.dispose(), [morphGeometry]);
+  useEffect(() => () => morphMaterial.dispose(), [morphMaterial]);
+  useEffect(() => () => depthMaterial.dispose(), [depthMaterial]);
+
+  // Static per-ornament attributes
+  useEffect(() => {
+    items.forEach((item, i) => {
+      attributes.rotation.setXYZ(i, ...item.rotation);
+      attributes.scale.setXYZ(i, item.scaleVector[0] * item.scale, item.scaleVector[1] * item.scale, item.scaleVector[2] * item.scale);
+      attributes.motion.setXY(i, item.speed, item.offset);
+    });
+    attributes.rotation.needsUpdate = true;
+    attributes.scale.needsUpdate = true;
+    attributes.motion.needsUpdate = true;
+  }, [items, attributes]);
+
+  // Live instance colors (linear rgb) cross-fade towards the palette; no geometry is rebuilt
+  const colorsRef = useRef<THREE.Color[]>([]);
+  const targetColors = useMemo(() => palette.map((hex) => new THREE.Color(hex)), [palette]);
+  const colorsFadingRef = useRef(false);
 
   // Set initial instance colors
   useEffect(() => {
       if (!meshRef.current) return;
-      const colorHelper = new THREE.Color();
-      data.forEach((item, i) => {
-          colorHelper.set(item.color);
-          meshRef.current!.setColorAt(i, colorHelper);
-      });
+      colorsRef.current = items.map((item) => targetColors[item.colorSlot].clone());
+      items.forEach((_, i) => meshRef.current!.setColorAt(i, colorsRef.current[i]));
       meshRef.current.instanceColor!.needsUpdate = true;
   }, [data]);
 
-  const tempObj = new THREE.Object3D();
-  const progressRef = useRef(0);
+  // Theme switch: fade from whatever is showing now
+  useEffect(() => {
+      colorsFadingRef.current = true;
+  }, [targetColors]);
 
-  useFrame((clock, delta) => {
-    if (!meshRef.current) return;
+  const colorHelper = new THREE.Color();
 
-    // Transition Logic
-    const target = state === TreeMorphState.TREE_SHAPE ? 1.0 : 0.0;
-    const lerpSpeed = type === 'BOX' ? 1.2 : 1.8;
-    progressRef.current += (target - progressRef.current) * lerpSpeed * delta;
-    
-    const t = progressRef.current;
-    // Cubic ease
-    const easeT = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+  // New layout (seed/count change): start over from the scatter nebula.
+  // A new greeting only changes the text targets, so it doesn't reset here
+  useEffect(() => {
+    const from = attributes.from.array as Float32Array;
+    items.forEach((item, i) => from.set(item.positions[TreeMorphState.SCATTERED], i * 3));
+    (attributes.to.array as Float32Array).set(from);
+    uniforms.uFloatFrom.value = 1;
+    uniforms.uFloatTo.value = 1;
+    slotIdsRef.current = items.map((item) => item.id);
+  }, [seed, count]);
 
-    const time = clock.clock.getElapsedTime();
+  // Retarget from the current (possibly mid-transition) position, never via scatter
+  useEffect(() => {
+    const from = attributes.from.array as Float32Array;
+    const to = attributes.to.array as Float32Array;
+    const delays = attributes.delay.array as Float32Array;
+    // Each ornament is caught at its own point of the (possibly staggered) morph
+    const progressAt = particleProgress(timeline, layer);
+    for (let i = 0; i < delays.length; i++) {
+      const t = progressAt(delays[i]);
+      for (let axis = i * 3; axis < i * 3 + 3; axis++) {
+        from[axis] += (to[axis] - from[axis]) * t;
+      }
+    }
+    items.forEach((item, i) => to.set(item.positions[state], i * 3));
+    const easeT = THREE.MathUtils.clamp(layerProgress(timeline, layer), 0, 1);
+    uniforms.uFloatFrom.value += (uniforms.uFloatTo.value - uniforms.uFloatFrom.value) * easeT;
+    uniforms.uFloatTo.value = getLayout(state).floating ? 1 : 0;
+    // Ornaments are laid out in order along the tree, so the spiral follows their index
+    fillDelays(timeline.config.choreography, to.subarray(0, items.length * 3), delays.subarray(0, items.length), { ordered: true });
+    attributes.from.needsUpdate = true;
+    attributes.to.needsUpdate = true;
+    attributes.delay.needsUpdate = true;
+    slotIdsRef.current = items.map((item) => item.id);
+  }, [state, data]);
 
-    data.forEach((item, i) => {
-      const x = THREE.MathUtils.lerp(item.scatter[0], item.tree[0], easeT);
-      const y = THREE.MathUtils.lerp(item.scatter[1], item.tree[1], easeT);
-      const z = THREE.MathUtils.lerp(item.scatter[2], item.tree[2], easeT);
+  // Placed ornaments come, go, move and change color without disturbing the rest: every ornament
+  // keeps its morph by id, newcomers appear right where they belong, moved ones jump there
+  useEffect(() => {
+    const from = attributes.from.array as Float32Array;
+    const to = attributes.to.array as Float32Array;
+    const delays = attributes.delay.array as Float32Array;
+    const glow = attributes.glow.array as Float32Array;
+    const previous = { from: from.slice(), to: to.slice(), delays: delays.slice(), glow: glow.slice(), colors: colorsRef.current };
+    const indexById = new Map(slotIdsRef.current.map((id, i) => [id, i]));
 
-      const floatY = Math.sin(time * item.speed + item.offset) * (0.2 * (1-easeT));
-      
-      tempObj.position.set(x, y + floatY, z);
-      
-      tempObj.rotation.x = item.rotation[0] + (time * 0.2 * (1-easeT));
-      tempObj.rotation.y = item.rotation[1] + (time * 0.1);
-      tempObj.rotation.z = item.rotation[2];
-
-      // Apply base scale + individual vector scale + pop animation
-      const scalePop = item.scale * (0.8 + 0.2 * Math.sin(time + item.offset));
-      // @ts-ignore
-      const sv = item.scaleVector || [1,1,1];
-      
-      tempObj.scale.set(
-          sv[0] * scalePop, 
-          sv[1] * scalePop, 
-          sv[2] * scalePop
-      );
-
-      tempObj.updateMatrix();
-      meshRef.current!.setMatrixAt(i, tempObj.matrix);
+    colorsRef.current = items.map((item, j) => {
+      const target = item.positions[state];
+      const i = indexById.get(item.id);
+      if (i === undefined || !samePoint(previous.to, i, target)) {
+        from.set(target, j * 3);
+        to.set(target, j * 3);
+      } else {
+        from.set(previous.from.subarray(i * 3, i * 3 + 3), j * 3);
+        to.set(previous.to.subarray(i * 3, i * 3 + 3), j * 3);
+      }
+      delays[j] = i === undefined ? 0 : previous.delays[i];
+      glow[j] = i === undefined ? 0 : previous.glow[i];
+      return (i !== undefined && previous.colors[i]) || targetColors[item.colorSlot].clone();
     });
+    slotIdsRef.current = items.map((item) => item.id);
+    hoveredRef.current = null;
+    // Recolors fade like a theme switch
+    colorsFadingRef.current = true;
+    attributes.from.needsUpdate = true;
+    attributes.to.needsUpdate = true;
+    attributes.delay.needsUpdate = true;
+    attributes.glow.needsUpdate = true;
+  }, [placedData]);
+
+  // Whether any ornament's hover highlight is still easing
+  const glowActiveRef = useRef(false);
+
+  useFrame((_, delta) => {
+    if (!meshRef.current) return;
+
+    // Progress comes from the shared timeline; each ornament eases its own share in the shader
+    uniforms.uProgress.value = layerTime(timeline, layer);
+    uniforms.uStagger.value = staggerAmount(timeline);
+    uniforms.uEasing.value = getEasingSamples(timeline.config.easing);
+    if (!reducedMotion) uniforms.uTime.value += delta;
+    uniforms.uBeat.value = audio.beat;
+    // Snow settles on the gift boxes; the round baubles shed it
+    uniforms.uSnow.value = type === 'BOX' ? snow.tree : 0;
 
-    meshRef.current.instanceMatrix.needsUpdate = true;
+    // Colors and highlights only need CPU work while something is changing
+    const fading = colorsFadingRef.current;
+    const focusIndex = focusedId !== null && focusedId >= idOffset && focusedId < idOffset + count ? focusedId - idOffset : null;
+    if (!fading && !glowActiveRef.current && hoveredRef.current === null && focusIndex === null) return;
+
+    const glow = attributes.glow.array as Float32Array;
+    const colors = colorsRef.current;
+    let colorsChanged = false;
+    let stillFading = false;
+    let stillGlowing = false;
+
+    for (let i = 0; i < items.length; i++) {
+      // Theme cross-fade
+      const target = targetColors[items[i].colorSlot];
+      if (fading && colors[i]) {
+        fadeColor(colors[i], target, delta);
+        if (!colors[i].equals(target)) stillFading = true;
+      }
+
+      // Hover (or keyboard focus) highlight eases in/out; only touch instance colors while something is animating
+      const glowTarget = hoveredRef.current === i || focusIndex === i ? 1 : 0;
+      const glowing = glow[i] !== glowTarget;
+      if (glowing) {
+        glow[i] += (glowTarget - glow[i]) * Math.min(1, delta * 10);
+        if (Math.abs(glowTarget - glow[i]) < 0.001) glow[i] = glowTarget;
+        stillGlowing = true;
+      }
+      if ((glowing || fading) && colors[i]) {
+        // Push the color past 1.0 so the picked ornament catches the bloom
+        colorHelper.copy(colors[i]).multiplyScalar(1 + glow[i] * 2.5);
+        meshRef.current.setColorAt(i, colorHelper);
+        colorsChanged = true;
+      }
+    }
+
+    if (stillGlowing || glowActiveRef.current) attributes.glow.needsUpdate = true;
+    if (colorsChanged) meshRef.current.instanceColor!.needsUpdate = true;
+    colorsFadingRef.current = stillFading;
+    glowActiveRef.current = stillGlowing;
   });
 
+  // The built-in instance raycast reads instanceMatrix, which no longer moves.
+  // Test against a bounding sphere at each ornament's morphed position instead
+  const raycast = useMemo(() => {
+    const inverseMatrix = new THREE.Matrix4();
+    const localRay = new THREE.Ray();
+    const sphere = new THREE.Sphere();
+    const hit = new THREE.Vector3();
+
+    return function (this: THREE.InstancedMesh, raycaster: THREE.Raycaster, intersects: THREE.Intersection[]) {
+      const radius = morphGeometry.boundingSphere?.radius ?? 1;
+      const from = attributes.from.array as Float32Array;
+      const to = attributes.to.array as Float32Array;
+      const scale = attributes.scale.array as Float32Array;
+      const motion = attributes.motion.array as Float32Array;
+      const glow = attributes.glow.array as Float32Array;
+      const delays = attributes.delay.array as Float32Array;
+      const time = uniforms.uTime.value;
+      const stagger = uniforms.uStagger.value;
+
+      inverseMatrix.copy(this.matrixWorld).invert();
+      localRay.copy(raycaster.ray).applyMatrix4(inverseMatrix);
+
+      for (let i = 0; i < items.length; i++) {
+        // Same per-ornament progress as ornamentProgress() in the shader
+        const t = evaluateSamples(uniforms.uEasing.value, (uniforms.uProgress.value - delays[i] * stagger) / (1 - stagger));
+        const drift = THREE.MathUtils.lerp(uniforms.uFloatFrom.value, uniforms.uFloatTo.value, THREE.MathUtils.clamp(t, 0, 1));
+        morphedPosition(from, to, motion, i, t, drift, time, sphere.center);
+        const pop = (0.8 + 0.2 * Math.sin(time + motion[i * 2 + 1])) * (1 + uniforms.uBeat.value * 0.15) * (1 + glow[i] * 0.4);
+        sphere.radius = radius * pop * Math.max(scale[i * 3], scale[i * 3 + 1], scale[i * 3 + 2]);
+        if (!localRay.intersectSphere(sphere, hit)) continue;
+
+        hit.applyMatrix4(this.matrixWorld);
+        const distance = raycaster.ray.origin.distanceTo(hit);
+        if (distance < raycaster.near || distance > raycaster.far) continue;
+        intersects.push({ distance, point: hit.clone(), object: this, instanceId: i });
+      }
+    };
+  }, [items, attributes, morphGeometry, uniforms]);
+
+  const setHovered = (index: number | null) => {
+    hoveredRef.current = index;
+    // Hint which ornaments hide a note
+    const clickable = index !== null && (hasOrnamentMessage(items[index].id) || isPlacedId(items[index].id));
+    document.body.style.cursor = clickable ? 'pointer' : 'auto';
+  };
+
   return (
-    <instancedMesh ref={meshRef} args={[geometry, material, count]} castShadow receiveShadow />
+    <instancedMesh 
+      ref={meshRef} 
+      args={[morphGeometry, morphMaterial, capacity]}
+      count={items.length}
+      customDepthMaterial={depthMaterial}
+      raycast={raycast}
+      // Positions are only known on the GPU, so the instance bounds can't be trusted for culling
+      frustumCulled={false}
+      castShadow={shadows} 
+      receiveShadow={shadows}
+      // Raycast picking per instance; stopPropagation so only the front-most ornament reacts
+      onPointerMove={(e) => {
+        e.stopPropagation();
+        if (e.instanceId !== undefined && e.instanceId !== hoveredRef.current) setHovered(e.instanceId);
+      }}
+      onPointerOut={() => setHovered(null)}
+      onPointerDown={(e) => {
+        if (!onPress || e.instanceId === undefined || !isPlacedId(items[e.instanceId].id)) return;
+        e.stopPropagation();
+        onPress(items[e.instanceId].id);
+      }}
+      onClick={(e) => {
+        e.stopPropagation();
+        if (e.instanceId !== undefined) onSelect(items[e.instanceId].id);
+      }}
+    />
   );
 };
 
-const Ornaments: React.FC<{ state: TreeMorphState }> = ({ state }) => {
+interface OrnamentsProps {
+  state: TreeMorphState;
+  seed: string;
+  layoutContext: LayoutContext;
+  theme: Theme;
+  shadows: boolean; // Off on lower quality tiers
+  audio: AudioLevels;
+  snow: SnowCover;
+  timeline: MorphTimeline;
+  // Counts and sizes from the scene config
+  spheres: OrnamentSetConfig;
+  gifts: OrnamentSetConfig;
+  placed: PlacedOrnament[]; // Hand-placed, on top of the seeded ones
+  focusedId: number | null; // Ornament picked with the keyboard
+  reducedMotion: boolean;
+  onSelectOrnament: (id: number) => void;
+  onPressOrnament?: (id: number) => void; // Placed ones only
+}
+
+const Ornaments: React.FC<OrnamentsProps> = ({ state, seed, layoutContext, theme, shadows, audio, snow, timeline, spheres, gifts, placed, focusedId, reducedMotion, onSelectOrnament, onPressOrnament }) => {
   // Shared Geometries
   const sphereGeo = useMemo(() => new THREE.SphereGeometry(1, 24, 24), []);
   // Use a Box geometry with bevels to catch light better for "Luxury" feel
@@ -174,23 +586,8 @@ const Ornaments: React.FC<{ state: TreeMorphState }> = ({ state }) => {
     envMapIntensity: 1.2,
   }), []);
 
-  // Palette for boxes: Deep Red, Chocolate, White/Cream, Gold, Deep Green
-  const giftPalette = [
-      '#8a0000', // Deep Red
-      '#8B4513', // Chocolate
-      '#F5F5F5', // White/Silver
-      '#D4AF37', // Gold
-      '#D4AF37', // More Gold
-      '#064e3b'  // Deep Green
-  ];
-
-  const spherePalette = [
-      '#ffc125', // Gold
-      '#ffc125', // Gold
-      '#ffc125', // Gold
-      '#8a0000', // Occasional Red
-      '#ffffff'  // Occasional Pearl
-  ];
+  const placedSpheres = useMemo(() => placed.filter((o) => o.type === 'SPHERE'), [placed]);
+  const placedGifts = useMemo(() => placed.filter((o) => o.type === 'BOX'), [placed]);
 
   return (
     <group>
@@ -198,22 +595,46 @@ const Ornaments: React.FC<{ state: TreeMorphState }> = ({ state }) => {
       <OrnamentGroup 
         state={state} 
         type="SPHERE" 
-        count={250} 
+        count={spheres.count} 
+        placed={placedSpheres}
         geometry={sphereGeo} 
         material={goldMaterial} 
-        scaleBase={0.25} 
-        palette={spherePalette}
+        scaleBase={spheres.scaleBase} 
+        palette={theme.ornaments.sphere}
+        seed={seed}
+        layoutContext={layoutContext}
+        idOffset={0}
+        shadows={shadows}
+        audio={audio}
+        snow={snow}
+        timeline={timeline}
+        focusedId={focusedId}
+        reducedMotion={reducedMotion}
+        onSelect={onSelectOrnament}
+        onPress={onPressOrnament}
       />
       
       {/* Gift Boxes - Colorful, varied shapes */}
       <OrnamentGroup 
         state={state} 
         type="BOX" 
-        count={100} 
+        count={gifts.count} 
+        placed={placedGifts}
         geometry={boxGeo} 
         material={giftMaterial} 
-        scaleBase={0.4} 
-        palette={giftPalette}
+        scaleBase={gifts.scaleBase} 
+        palette={theme.ornaments.gift}
+        seed={seed}
+        layoutContext={layoutContext}
+        idOffset={spheres.count}
+        shadows={shadows}
+        audio={audio}
+        snow={snow}
+        timeline={timeline}
+        focusedId={focusedId}
+        reducedMotion={reducedMotion}
+        onSelect={onSelectOrnament}
+        onPress={onPressOrnament}
       />
     </group>
   );
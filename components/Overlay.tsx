@@ -1,48 +1,454 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { TreeMorphState } from '../types';
+import { LAYOUTS } from '../utils/layouts';
+import { THEMES, getTheme } from '../utils/themes';
+import { BLINK_PATTERNS, BlinkPatternName } from '../utils/lights';
+import { WEATHER_PRESETS, WeatherId } from '../utils/weather';
+import { QUALITY_TIERS, QualitySetting, QualityTier, getQualityTier } from '../utils/quality';
+import { CardDetails, GreetingCard, isShareableState } from '../utils/share';
+import { LOCALES, LocaleId, Messages, getMessages } from '../utils/i18n';
+import { CAMERA_PROGRAMS, CameraProgram } from '../utils/camera';
+import { RoomState, RoomTool } from '../utils/room';
+import { hasGlyph } from '../utils/text';
+import AdventCalendar from './AdventCalendar';
+import RoomPanel from './RoomPanel';
 
 interface OverlayProps {
   state: TreeMorphState;
   onToggle: (newState: TreeMorphState) => void;
+  transitioning: boolean; // Still morphing into `state`
+  seed: string;
+  onReseed: () => void;
+  greeting: string;
+  onGreetingChange: (text: string) => void;
+  hasImage: boolean;
+  imageFailed: boolean; // The last picture tried couldn't be read
+  onImageFile: (file: File) => void;
+  card: CardDetails;
+  onThemeChange: (themeId: string) => void;
+  lightPattern: BlinkPatternName;
+  onLightPatternChange: (pattern: BlinkPatternName) => void;
+  weather: WeatherId;
+  onWeatherChange: (weather: WeatherId) => void;
+  quality: QualitySetting;
+  activeTierId: string; // Tier in use, the governor's pick when quality is 'auto'
+  onQualityChange: (quality: QualitySetting) => void;
+  onExportConfig: () => void; // Download the scene config (data/scene.json format)
+  audioTrack: string | null; // Name of the loaded music file
+  audioPlaying: boolean;
+  audioFailed: boolean; // The last music file tried wouldn't play
+  onAudioFile: (file: File) => void;
+  onAudioToggle: () => void;
+  onShareCard: (card: GreetingCard) => string; // Returns the shareable link
+  adventDays: number[]; // Opened advent doors, each one a decoration on the tree
+  onOpenDoor: (day: number) => void;
+  locale: LocaleId;
+  onLocaleChange: (locale: LocaleId) => void;
+  reducedMotion: boolean;
+  onReducedMotionChange: (reduced: boolean) => void;
+  cameraProgram: CameraProgram;
+  onCameraProgramChange: (program: CameraProgram) => void;
+  roomId: string | null; // Joined decorating room
+  roomState: RoomState | null;
+  roomName: string;
+  onJoinRoom: (roomId: string, name: string) => void;
+  onLeaveRoom: () => void;
+  roomTool: RoomTool;
+  onRoomToolChange: (tool: RoomTool) => void;
 }
 
-const Overlay: React.FC<OverlayProps> = ({ state, onToggle }) => {
+interface CardComposerProps {
+  card: CardDetails;
+  state: TreeMorphState;
+  seed: string;
+  greeting: string;
+  onShareCard: (card: GreetingCard) => string;
+  messages: Messages;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-sm bg-black/40 border border-arix-gold/20 text-arix-goldLight font-serif tracking-wider text-sm placeholder:text-arix-goldLight/40 focus:outline-none focus:border-arix-gold/60';
+const labelClass = 'flex flex-col gap-1 text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60';
+
+// Composes a personal card and turns it into a link. Everything lives in the URL hash
+const CardComposer: React.FC<CardComposerProps> = ({ card, state, seed, greeting, onShareCard, messages }) => {
+  const t = messages.composer;
+  const [draft, setDraft] = useState<CardDetails>(card);
+  const [startState, setStartState] = useState<TreeMorphState>(isShareableState(state) ? state : TreeMorphState.TREE_SHAPE);
+  const [link, setLink] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<CardDetails>) => {
+    setDraft((d) => ({ ...d, ...patch }));
+    setLink(null);
+  };
+
+  const share = () => {
+    try {
+      const url = onShareCard({ ...draft, state: startState, seed, greeting });
+      setLink(url);
+      setError(null);
+      navigator.clipboard?.writeText(url).catch(() => undefined);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="w-80 p-5 flex flex-col gap-3 bg-black/50 backdrop-blur-md border border-arix-gold/20 rounded-sm">
+      <label className={labelClass}>
+        {t.recipient}
+        <input className={inputClass} value={draft.recipient} maxLength={40} placeholder={t.recipientPlaceholder} onChange={(e) => update({ recipient: e.target.value })} />
+      </label>
+      <label className={labelClass}>
+        {t.title}
+        <input className={inputClass} value={draft.title} maxLength={40} onChange={(e) => update({ title: e.target.value })} />
+      </label>
+      <label className={labelClass}>
+        {t.subtitle}
+        <input className={inputClass} value={draft.subtitle} maxLength={60} onChange={(e) => update({ subtitle: e.target.value })} />
+      </label>
+      <label className={labelClass}>
+        {t.theme}
+        <select className={inputClass} value={draft.themeId} onChange={(e) => update({ themeId: e.target.value })}>
+          {THEMES.map((theme) => (
+            <option key={theme.id} value={theme.id}>{messages.themes[theme.id] ?? theme.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className={labelClass}>
+        {t.opensAs}
+        <select className={inputClass} value={startState} onChange={(e) => { setStartState(e.target.value as TreeMorphState); setLink(null); }}>
+          {LAYOUTS.filter((l) => isShareableState(l.state)).map((l) => (
+            <option key={l.state} value={l.state}>{messages.layouts[l.state]}</option>
+          ))}
+        </select>
+      </label>
+      <button
+        onClick={share}
+        className="mt-1 px-5 py-2 rounded-full font-serif tracking-widest text-sm bg-arix-gold text-arix-dark hover:shadow-[0_0_20px_rgba(212,175,55,0.4)] transition-all duration-500"
+      >
+        {t.createLink}
+      </button>
+      {link && (
+        <input readOnly className={`${inputClass} text-xs`} value={link} onFocus={(e) => e.target.select()} aria-label={t.linkLabel} />
+      )}
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+const Overlay: React.FC<OverlayProps> = ({ state, onToggle, transitioning, seed, onReseed, greeting, onGreetingChange, hasImage, imageFailed, onImageFile, card, onThemeChange, lightPattern, onLightPatternChange, weather, onWeatherChange, quality, activeTierId, onQualityChange, onExportConfig, audioTrack, audioPlaying, audioFailed, onAudioFile, onAudioToggle, onShareCard, adventDays, onOpenDoor, locale, onLocaleChange, reducedMotion, onReducedMotionChange, cameraProgram, onCameraProgramChange, roomId, roomState, roomName, onJoinRoom, onLeaveRoom, roomTool, onRoomToolChange }) => {
+  const t = getMessages(locale);
+  const tierLabel = (tier: QualityTier) => t.qualityTiers[tier.id] ?? tier.label;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const audioInputRef = useRef<HTMLInputElement>(null);
+  const [composerOpen, setComposerOpen] = useState(false);
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  // A room link opens straight into the room
+  const [roomOpen, setRoomOpen] = useState(roomId !== null);
+  // Draft text; the particles only re-sample when the greeting is submitted
+  const [draft, setDraft] = useState(greeting);
+  useEffect(() => setDraft(greeting), [greeting]);
+
   return (
     <div className="absolute inset-0 pointer-events-none flex flex-col justify-between p-8 z-10">
       
       {/* Header */}
       <div className="flex flex-col items-center pointer-events-auto">
+        {card.recipient && (
+          <p className="text-arix-goldLight text-xs md:text-sm tracking-[0.3em] mb-2 uppercase opacity-80">
+            {t.dear(card.recipient)}
+          </p>
+        )}
         <h1 className="text-3xl sm:text-4xl md:text-5xl lg:text-6xl font-serif text-arix-gold tracking-widest uppercase text-center drop-shadow-[0_0_10px_rgba(212,175,55,0.5)] whitespace-nowrap">
-          MERRY CHRISTMAS
+          {card.title}
         </h1>
         <p className="text-arix-goldLight text-xs md:text-sm tracking-[0.3em] mt-2 uppercase opacity-80">
-          The Holiday Collection
+          {card.subtitle}
         </p>
+
+        {/* Card composer */}
+        <button
+            onClick={() => setComposerOpen((open) => !open)}
+            className="mt-4 text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60 hover:text-arix-gold transition-all duration-500"
+        >
+            {composerOpen ? t.composer.close : t.composer.open}
+        </button>
+        {composerOpen && (
+            <div className="mt-3">
+                <CardComposer card={card} state={state} seed={seed} greeting={greeting} onShareCard={onShareCard} messages={t} />
+            </div>
+        )}
+
+        {/* Advent calendar - a door a day, each adding a decoration */}
+        <button
+            onClick={() => setCalendarOpen((open) => !open)}
+            className="mt-2 text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60 hover:text-arix-gold transition-all duration-500"
+        >
+            {calendarOpen ? t.calendar.close : t.calendar.open}
+        </button>
+        {calendarOpen && (
+            <div className="mt-3">
+                <AdventCalendar openedDays={adventDays} onOpenDoor={onOpenDoor} messages={t} reducedMotion={reducedMotion} />
+            </div>
+        )}
+
+        {/* Shared room - decorate one tree together, live */}
+        <button
+            onClick={() => setRoomOpen((open) => !open)}
+            className="mt-2 text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60 hover:text-arix-gold transition-all duration-500"
+        >
+            {roomOpen ? t.room.close : t.room.open}
+        </button>
+        {roomOpen && (
+            <div className="mt-3">
+                <RoomPanel
+                    roomId={roomId}
+                    roomState={roomState}
+                    name={roomName}
+                    onJoin={onJoinRoom}
+                    onLeave={onLeaveRoom}
+                    tool={roomTool}
+                    onToolChange={onRoomToolChange}
+                    palettes={getTheme(card.themeId).ornaments}
+                    messages={t}
+                />
+            </div>
+        )}
       </div>
 
       {/* Controls */}
       <div className="flex flex-col items-center mb-10 pointer-events-auto">
-        <div className="flex gap-4 p-1 bg-black/30 backdrop-blur-md rounded-full border border-arix-gold/20">
+        <div role="group" aria-label={t.layoutGroup} className="flex flex-wrap justify-center gap-2 p-1 bg-black/30 backdrop-blur-md rounded-full border border-arix-gold/20">
+            {/* One button per registered layout; number keys 1-9 pick them too */}
+            {LAYOUTS.map((layout) => (
+                <button
+                    key={layout.state}
+                    onClick={() => {
+                        // The picture layout needs a picture first
+                        if (layout.state === TreeMorphState.IMAGE && !hasImage) fileInputRef.current?.click();
+                        else onToggle(layout.state);
+                    }}
+                    aria-pressed={state === layout.state}
+                    className={`px-5 py-2 rounded-full font-serif tracking-widest uppercase transition-all duration-500 ${
+                        state === layout.state 
+                        ? 'bg-arix-gold text-arix-dark shadow-[0_0_20px_rgba(212,175,55,0.4)]' 
+                        : 'text-arix-gold hover:bg-white/5'
+                    } ${state === layout.state && transitioning && !reducedMotion ? 'animate-pulse' : ''}`}
+                >
+                    {t.layouts[layout.state]}
+                </button>
+            ))}
+        </div>
+
+        {/* Picture upload (drag and drop onto the page works too) */}
+        <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/png,image/jpeg"
+            className="hidden"
+            onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImageFile(file);
+                e.target.value = '';
+            }}
+        />
+        {hasImage && (
             <button
-                onClick={() => onToggle(TreeMorphState.SCATTERED)}
-                className={`px-6 py-2 rounded-full font-serif tracking-widest transition-all duration-500 ${
-                    state === TreeMorphState.SCATTERED 
-                    ? 'bg-arix-gold text-arix-dark shadow-[0_0_20px_rgba(212,175,55,0.4)]' 
-                    : 'text-arix-gold hover:bg-white/5'
-                }`}
+                onClick={() => fileInputRef.current?.click()}
+                className="mt-3 text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60 hover:text-arix-gold transition-all duration-500"
+            >
+                {t.changePicture}
+            </button>
+        )}
+        {imageFailed && <p className="mt-2 text-xs text-red-300">{t.pictureError}</p>}
+
+        {/* Greeting text - foliage assembles into the typed message */}
+        <form
+            className="flex items-center gap-2 mt-4"
+            onSubmit={(e) => {
+                e.preventDefault();
+                onGreetingChange(draft);
+            }}
+        >
+            <input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                maxLength={24}
+                placeholder={t.greetingPlaceholder}
+                aria-label={t.greetingLabel}
+                className="w-56 px-4 py-2 rounded-full bg-black/30 backdrop-blur-md border border-arix-gold/20 text-arix-goldLight font-serif tracking-widest text-sm placeholder:text-arix-goldLight/40 focus:outline-none focus:border-arix-gold/60"
+            />
+            <button
+                type="submit"
+                className="px-5 py-2 rounded-full font-serif tracking-widest text-sm text-arix-gold border border-arix-gold/20 hover:bg-white/5 transition-all duration-500"
+            >
+                {t.write}
+            </button>
+        </form>
+        {!Array.from(draft).every(hasGlyph) && <p className="mt-2 text-xs text-red-300">{t.greetingUnsupported}</p>}
+
+        {/* Theme switcher - colors cross-fade, the layout stays put */}
+        <div role="group" aria-label={t.composer.theme} className="flex flex-wrap justify-center gap-2 mt-4">
+            {THEMES.map((theme) => (
+                <button
+                    key={theme.id}
+                    onClick={() => onThemeChange(theme.id)}
+                    aria-pressed={card.themeId === theme.id}
+                    className={`flex items-center gap-2 px-3 py-1 rounded-full text-[10px] tracking-[0.3em] uppercase border transition-all duration-500 ${
+                        card.themeId === theme.id
+                        ? 'border-arix-gold text-arix-gold'
+                        : 'border-arix-gold/20 text-arix-goldLight/60 hover:bg-white/5'
+                    }`}
+                >
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: theme.ui.gold }} />
+                    {t.themes[theme.id] ?? theme.label}
+                </button>
+            ))}
+        </div>
+
+        {/* String light blink pattern */}
+        <div role="group" aria-label={t.lights} className="flex flex-wrap justify-center items-center gap-2 mt-4 text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60">
+            <span aria-hidden="true">{t.lights}</span>
+            {BLINK_PATTERNS.map((p) => (
+                <button
+                    key={p.id}
+                    onClick={() => onLightPatternChange(p.id)}
+                    aria-pressed={lightPattern === p.id}
+                    className={`px-3 py-1 rounded-full border transition-all duration-500 ${
+                        lightPattern === p.id
+                        ? 'border-arix-gold text-arix-gold'
+                        : 'border-arix-gold/20 text-arix-goldLight/60 hover:bg-white/5'
+                    }`}
+                >
+                    {t.lightPatterns[p.id]}
+                </button>
+            ))}
+        </div>
+
+        {/* Weather - snow builds up under the tree and melts when it clears */}
+        <div role="group" aria-label={t.weather} className="flex flex-wrap justify-center items-center gap-2 mt-4 text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60">
+            <span aria-hidden="true">{t.weather}</span>
+            {WEATHER_PRESETS.map((w) => (
+                <button
+                    key={w.id}
+                    onClick={() => onWeatherChange(w.id)}
+                    aria-pressed={weather === w.id}
+                    className={`px-3 py-1 rounded-full border transition-all duration-500 ${
+                        weather === w.id
+                        ? 'border-arix-gold text-arix-gold'
+                        : 'border-arix-gold/20 text-arix-goldLight/60 hover:bg-white/5'
+                    }`}
+                >
+                    {t.weatherPresets[w.id]}
+                </button>
+            ))}
+        </div>
+
+        {/* Camera - plays while nobody is orbiting; dragging takes over and it picks up again after a while */}
+        <div role="group" aria-label={t.camera} className="flex flex-wrap justify-center items-center gap-2 mt-4 text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60">
+            <span aria-hidden="true">{t.camera}</span>
+            {CAMERA_PROGRAMS.map((program) => (
+                <button
+                    key={program}
+                    onClick={() => onCameraProgramChange(program)}
+                    aria-pressed={cameraProgram === program}
+                    className={`px-3 py-1 rounded-full border transition-all duration-500 ${
+                        cameraProgram === program
+                        ? 'border-arix-gold text-arix-gold'
+                        : 'border-arix-gold/20 text-arix-goldLight/60 hover:bg-white/5'
+                    }`}
+                >
+                    {t.cameraPrograms[program]}
+                </button>
+            ))}
+        </div>
+
+        {/* Music - the tree dances to a local audio file */}
+        <input
+            ref={audioInputRef}
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onAudioFile(file);
+                e.target.value = '';
+            }}
+        />
+        <div className="flex items-center gap-3 mt-4 text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60">
+            {audioTrack && <span className="max-w-[12rem] truncate normal-case tracking-widest">{audioTrack}</span>}
+            {audioTrack && (
+                <button
+                    onClick={onAudioToggle}
+                    className="px-3 py-1 rounded-full border border-arix-gold/20 text-arix-gold hover:bg-white/5 transition-all duration-500"
+                >
+                    {audioPlaying ? t.pause : t.play}
+                </button>
+            )}
+            <button
+                onClick={() => audioInputRef.current?.click()}
+                className="px-3 py-1 rounded-full border border-arix-gold/20 text-arix-gold hover:bg-white/5 transition-all duration-500"
+            >
+                {audioTrack ? t.changeMusic : t.playMusic}
+            </button>
+        </div>
+        {audioFailed && <p className="mt-2 text-xs text-red-300">{t.musicError}</p>}
+
+        {/* Layout seed - part of the URL, so the link reproduces this exact tree */}
+        <div className="flex items-center gap-3 mt-4 text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60">
+            <span>{t.seed(seed)}</span>
+            <button
+                onClick={onReseed}
+                className="px-3 py-1 rounded-full border border-arix-gold/20 text-arix-gold hover:bg-white/5 transition-all duration-500"
+            >
+                {t.newTree}
+            </button>
+            {/* Auto steps tiers by measured frame time; picking a tier pins it */}
+            <label className="flex items-center gap-2">
+                {t.quality}
+                <select
+                    value={quality}
+                    onChange={(e) => onQualityChange(e.target.value)}
+                    className="bg-black/30 border border-arix-gold/20 rounded-full px-3 py-1 text-arix-gold tracking-[0.3em] uppercase focus:outline-none focus:border-arix-gold/60"
+                >
+                    <option value="auto">{t.qualityAuto(tierLabel(getQualityTier(activeTierId)))}</option>
+                    {QUALITY_TIERS.map((tier) => (
+                        <option key={tier.id} value={tier.id}>{tierLabel(tier)}</option>
+                    ))}
+                </select>
+            </label>
+            <button
+                onClick={onExportConfig}
+                className="px-3 py-1 rounded-full border border-arix-gold/20 text-arix-gold hover:bg-white/5 transition-all duration-500"
             >
-                SCATTER
+                {t.exportScene}
             </button>
+            {/* Starts from the system setting; stops drift, twinkle and camera moves */}
             <button
-                onClick={() => onToggle(TreeMorphState.TREE_SHAPE)}
-                className={`px-6 py-2 rounded-full font-serif tracking-widest transition-all duration-500 ${
-                    state === TreeMorphState.TREE_SHAPE 
-                    ? 'bg-arix-gold text-arix-dark shadow-[0_0_20px_rgba(212,175,55,0.4)]' 
-                    : 'text-arix-gold hover:bg-white/5'
+                onClick={() => onReducedMotionChange(!reducedMotion)}
+                aria-pressed={reducedMotion}
+                className={`px-3 py-1 rounded-full border transition-all duration-500 ${
+                    reducedMotion
+                    ? 'border-arix-gold text-arix-gold'
+                    : 'border-arix-gold/20 text-arix-goldLight/60 hover:bg-white/5'
                 }`}
             >
-                TREE
+                {t.reduceMotion}
             </button>
+            {/* Detected from the browser; a pick here is remembered */}
+            <label className="flex items-center gap-2">
+                {t.language}
+                <select
+                    value={locale}
+                    onChange={(e) => onLocaleChange(e.target.value as LocaleId)}
+                    className="bg-black/30 border border-arix-gold/20 rounded-full px-3 py-1 text-arix-gold tracking-[0.3em] focus:outline-none focus:border-arix-gold/60"
+                >
+                    {LOCALES.map((l) => (
+                        <option key={l.id} value={l.id} lang={l.id}>{l.label}</option>
+                    ))}
+                </select>
+            </label>
         </div>
       </div>
     </div>
@@ -1,17 +1,23 @@
-import React, { useMemo, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import { createRandom, getTreeSurfacePoint } from '../utils/math';
+import { Theme, fadeColor } from '../utils/themes';
+import { scaledCount } from '../utils/quality';
+import { AudioLevels } from '../utils/audio';
+import { SnowCover, WeatherPreset } from '../utils/weather';
+import { TreeProfile } from '../utils/treeProfile';
 
 // ----------------------
 // BACKGROUND STARS (Cool, Twinkling)
 // ----------------------
 const StarMaterial = {
   uniforms: {
-    uTime: { value: 0 },
-    uColor: { value: new THREE.Color('#aaccff') }
+    uTwinkleTime: { value: 0 }, // Runs faster with the music highs
+    uColor: { value: new THREE.Color() } // Theme sky color
   },
   vertexShader: `
-    uniform float uTime;
+    uniform float uTwinkleTime;
     attribute float aSize;
     attribute float aSpeed;
     varying float vAlpha;
@@ -20,7 +26,7 @@ const StarMaterial = {
       vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
       
       // Twinkle effect based on time and random speed
-      float twinkle = 0.5 + 0.5 * sin(uTime * aSpeed + position.x * 100.0);
+      float twinkle = 0.5 + 0.5 * sin(uTwinkleTime * aSpeed + position.x * 100.0);
       
       gl_PointSize = aSize * (30.0 / -mvPosition.z);
       gl_Position = projectionMatrix * mvPosition;
@@ -46,47 +52,80 @@ const StarMaterial = {
   `
 };
 
-export const BackgroundStars = () => {
-  const COUNT = 1500;
+interface ParticleLayerProps {
+  seed: string;
+  theme: Theme;
+  count: number; // Particles at full quality (scene config)
+  density: number; // Fraction of the particles drawn, set by the quality tier
+  audio: AudioLevels;
+  reducedMotion: boolean; // Freeze drift and twinkle
+}
+
+// Per-instance uniforms starting at the current theme color; the definitions are only templates
+const useLayerMaterial = (template: { uniforms: { [name: string]: THREE.IUniform } }, color: string) => {
+  return useMemo(() => {
+    const uniforms = THREE.UniformsUtils.clone(template.uniforms);
+    uniforms.uColor.value = new THREE.Color(color);
+    return { ...template, uniforms };
+    // Only the starting color matters, later changes fade in useFrame
+  }, [template]);
+};
+
+// Draw only the first part of the buffers on lower quality tiers, the data itself stays put
+const useDrawRange = (count: number, density: number) => {
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  useEffect(() => {
+    geometryRef.current?.setDrawRange(0, scaledCount(count, density));
+  }, [count, density]);
+  return geometryRef;
+};
+
+export const BackgroundStars: React.FC<ParticleLayerProps> = ({ seed, theme, count, density, audio, reducedMotion }) => {
+  const geometryRef = useDrawRange(count, density);
   const materialRef = useRef<THREE.ShaderMaterial>(null);
+  const materialArgs = useLayerMaterial(StarMaterial, theme.stars);
+  const targetColor = useMemo(() => new THREE.Color(theme.stars), [theme]);
   
   const { positions, sizes, speeds } = useMemo(() => {
-    const pos = new Float32Array(COUNT * 3);
-    const sz = new Float32Array(COUNT);
-    const sp = new Float32Array(COUNT);
+    const pos = new Float32Array(count * 3);
+    const sz = new Float32Array(count);
+    const sp = new Float32Array(count);
+    const random = createRandom(`${seed}:stars`);
     
-    for(let i=0; i<COUNT; i++) {
+    for(let i=0; i<count; i++) {
         // Distribute on a large sphere surface/volume
-        const r = 60 + Math.random() * 40;
-        const theta = Math.random() * Math.PI * 2;
-        const phi = Math.acos(2 * Math.random() - 1);
+        const r = 60 + random() * 40;
+        const theta = random() * Math.PI * 2;
+        const phi = Math.acos(2 * random() - 1);
         
         pos[i*3] = r * Math.sin(phi) * Math.cos(theta);
         pos[i*3+1] = r * Math.sin(phi) * Math.sin(theta);
         pos[i*3+2] = r * Math.cos(phi);
         
-        sz[i] = 10.0 + Math.random() * 20.0;
-        sp[i] = 2.0 + Math.random() * 5.0; // Twinkle speed
+        sz[i] = 10.0 + random() * 20.0;
+        sp[i] = 2.0 + random() * 5.0; // Twinkle speed
     }
     return { positions: pos, sizes: sz, speeds: sp };
-  }, []);
+  }, [seed, count]);
 
-  useFrame((state) => {
+  useFrame((_, delta) => {
     if(materialRef.current) {
-        materialRef.current.uniforms.uTime.value = state.clock.elapsedTime;
+        // Accumulated rather than scaled, so a speed change doesn't jump the phase
+        if (!reducedMotion) materialRef.current.uniforms.uTwinkleTime.value += delta * (1 + audio.high * 3);
+        fadeColor(materialRef.current.uniforms.uColor.value, targetColor, delta);
     }
   });
 
   return (
     <points>
-      <bufferGeometry>
-        <bufferAttribute attach="attributes-position" count={COUNT} array={positions} itemSize={3} />
-        <bufferAttribute attach="attributes-aSize" count={COUNT} array={sizes} itemSize={1} />
-        <bufferAttribute attach="attributes-aSpeed" count={COUNT} array={speeds} itemSize={1} />
+      <bufferGeometry ref={geometryRef}>
+        <bufferAttribute attach="attributes-position" count={count} array={positions} itemSize={3} />
+        <bufferAttribute attach="attributes-aSize" count={count} array={sizes} itemSize={1} />
+        <bufferAttribute attach="attributes-aSpeed" count={count} array={speeds} itemSize={1} />
       </bufferGeometry>
       <shaderMaterial 
         ref={materialRef} 
-        args={[StarMaterial]} 
+        args={[materialArgs]} 
         transparent 
         blending={THREE.AdditiveBlending} 
         depthWrite={false} 
@@ -101,10 +140,12 @@ export const BackgroundStars = () => {
 const DustMaterial = {
   uniforms: {
     uTime: { value: 0 },
-    uColor: { value: new THREE.Color('#ffddaa') } // Warm Gold
+    uPulse: { value: 0 }, // Music mids level
+    uColor: { value: new THREE.Color() } // Theme dust color
   },
   vertexShader: `
     uniform float uTime;
+    uniform float uPulse;
     attribute float aScale;
     attribute vec3 aRandom; // x: offset, y: speed, z: noise
     varying float vAlpha;
@@ -122,11 +163,11 @@ const DustMaterial = {
       pos.z += cos(uTime * 0.3 + aRandom.z) * 0.5;
 
       vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
-      gl_PointSize = aScale * (15.0 / -mvPosition.z);
+      gl_PointSize = aScale * (1.0 + uPulse * 0.6) * (15.0 / -mvPosition.z);
       gl_Position = projectionMatrix * mvPosition;
       
-      // Pulsing alpha
-      vAlpha = 0.4 + 0.4 * sin(uTime * 2.0 + aRandom.x);
+      // Pulsing alpha, brighter with the mids
+      vAlpha = 0.4 + 0.4 * sin(uTime * 2.0 + aRandom.x) + uPulse * 0.5;
     }
   `,
   fragmentShader: `
@@ -145,54 +186,288 @@ const DustMaterial = {
   `
 };
 
-export const GoldenDust = () => {
-    const COUNT = 300;
+export const GoldenDust: React.FC<ParticleLayerProps> = ({ seed, theme, count, density, audio, reducedMotion }) => {
+    const geometryRef = useDrawRange(count, density);
     const materialRef = useRef<THREE.ShaderMaterial>(null);
+    const materialArgs = useLayerMaterial(DustMaterial, theme.dust);
+    const targetColor = useMemo(() => new THREE.Color(theme.dust), [theme]);
     
     const { positions, scales, randoms } = useMemo(() => {
-        const pos = new Float32Array(COUNT * 3);
-        const sc = new Float32Array(COUNT);
-        const rnd = new Float32Array(COUNT * 3);
+        const pos = new Float32Array(count * 3);
+        const sc = new Float32Array(count);
+        const rnd = new Float32Array(count * 3);
+        const random = createRandom(`${seed}:dust`);
         
-        for(let i=0; i<COUNT; i++) {
+        for(let i=0; i<count; i++) {
             // Cylinder distribution around tree
-            const r = Math.random() * 12;
-            const theta = Math.random() * Math.PI * 2;
-            const y = (Math.random() - 0.5) * 20;
+            const r = random() * 12;
+            const theta = random() * Math.PI * 2;
+            const y = (random() - 0.5) * 20;
             
             pos[i*3] = r * Math.cos(theta);
             pos[i*3+1] = y;
             pos[i*3+2] = r * Math.sin(theta);
             
-            sc[i] = 5.0 + Math.random() * 10.0;
+            sc[i] = 5.0 + random() * 10.0;
             
-            rnd[i*3] = Math.random() * 100; // offset
-            rnd[i*3+1] = 0.5 + Math.random(); // speed
-            rnd[i*3+2] = Math.random() * 100; // noise
+            rnd[i*3] = random() * 100; // offset
+            rnd[i*3+1] = 0.5 + random(); // speed
+            rnd[i*3+2] = random() * 100; // noise
         }
         return { positions: pos, scales: sc, randoms: rnd };
-    }, []);
+    }, [seed, count]);
 
-    useFrame((state) => {
+    useFrame((_, delta) => {
         if(materialRef.current) {
-            materialRef.current.uniforms.uTime.value = state.clock.elapsedTime;
+            if (!reducedMotion) materialRef.current.uniforms.uTime.value += delta;
+            materialRef.current.uniforms.uPulse.value = audio.mid;
+            fadeColor(materialRef.current.uniforms.uColor.value, targetColor, delta);
         }
     });
 
     return (
         <points>
-            <bufferGeometry>
-                <bufferAttribute attach="attributes-position" count={COUNT} array={positions} itemSize={3} />
-                <bufferAttribute attach="attributes-aScale" count={COUNT} array={scales} itemSize={1} />
-                <bufferAttribute attach="attributes-aRandom" count={COUNT} array={randoms} itemSize={3} />
+            <bufferGeometry ref={geometryRef}>
+                <bufferAttribute attach="attributes-position" count={count} array={positions} itemSize={3} />
+                <bufferAttribute attach="attributes-aScale" count={count} array={scales} itemSize={1} />
+                <bufferAttribute attach="attributes-aRandom" count={count} array={randoms} itemSize={3} />
             </bufferGeometry>
             <shaderMaterial 
                 ref={materialRef} 
-                args={[DustMaterial]} 
+                args={[materialArgs]} 
                 transparent 
                 blending={THREE.AdditiveBlending} 
                 depthWrite={false} 
             />
         </points>
     );
-};
\ No newline at end of file
+};
+
+// ----------------------
+// SNOWFALL (Drifting down with the wind)
+// ----------------------
+// Flakes loop inside a box around the tree (world units)
+const SNOW_SPAN = 40;
+const SNOW_FLOOR = -8;
+const SNOW_HEIGHT = 30;
+
+const SnowMaterial = {
+  uniforms: {
+    uTime: { value: 0 },
+    uFall: { value: 0 }, // Distance fallen so far, accumulated so speed changes don't jump
+    uDrift: { value: new THREE.Vector2() }, // Distance blown so far, likewise
+    uTurbulence: { value: 0 },
+    uColor: { value: new THREE.Color() } // Theme snow color
+  },
+  vertexShader: `
+    uniform float uTime;
+    uniform float uFall;
+    uniform vec2 uDrift;
+    uniform float uTurbulence;
+    attribute vec3 aRandom; // x: phase, y: weight, z: size
+    varying float vAlpha;
+
+    void main() {
+      vec3 pos = position;
+      // Heavier flakes fall faster and are pushed around less
+      float weight = 0.6 + aRandom.y * 0.8;
+      pos.y = mod(pos.y - uFall * weight - ${SNOW_FLOOR}.0, ${SNOW_HEIGHT}.0) + ${SNOW_FLOOR}.0;
+      pos.xz += uDrift / weight;
+
+      // Flutter
+      pos.x += sin(uTime * 1.3 + aRandom.x) * uTurbulence;
+      pos.z += cos(uTime * 0.9 + aRandom.x * 1.7) * uTurbulence;
+      pos.xz = mod(pos.xz + ${SNOW_SPAN / 2}.0, ${SNOW_SPAN}.0) - ${SNOW_SPAN / 2}.0;
+
+      vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+      gl_PointSize = aRandom.z * (15.0 / -mvPosition.z);
+      gl_Position = projectionMatrix * mvPosition;
+
+      vAlpha = 0.5 + 0.3 * aRandom.y;
+    }
+  `,
+  fragmentShader: `
+    uniform vec3 uColor;
+    varying float vAlpha;
+
+    void main() {
+      float dist = length(gl_PointCoord - vec2(0.5));
+      if (dist > 0.5) discard;
+
+      // Soft flake, kept under the bloom threshold so a blizzard doesn't white out the scene
+      float strength = pow(1.0 - (dist * 2.0), 1.5);
+      gl_FragColor = vec4(uColor * 0.8, strength * vAlpha);
+    }
+  `
+};
+
+interface SnowfallProps {
+  seed: string;
+  theme: Theme;
+  count: number; // Flakes at full quality (scene config)
+  density: number; // Fraction of the particles drawn, set by the quality tier
+  weather: WeatherPreset;
+  cover: SnowCover; // How much snow is falling right now
+  reducedMotion: boolean; // Flakes hang where they are
+}
+
+export const Snowfall: React.FC<SnowfallProps> = ({ seed, theme, count, density, weather, cover, reducedMotion }) => {
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  const pointsRef = useRef<THREE.Points>(null);
+  const materialRef = useRef<THREE.ShaderMaterial>(null);
+  const materialArgs = useLayerMaterial(SnowMaterial, theme.snow);
+  const targetColor = useMemo(() => new THREE.Color(theme.snow), [theme]);
+
+  const { positions, randoms } = useMemo(() => {
+    const pos = new Float32Array(count * 3);
+    const rnd = new Float32Array(count * 3);
+    const random = createRandom(`${seed}:snow`);
+
+    for (let i = 0; i < count; i++) {
+      pos[i * 3] = (random() - 0.5) * SNOW_SPAN;
+      pos[i * 3 + 1] = SNOW_FLOOR + random() * SNOW_HEIGHT;
+      pos[i * 3 + 2] = (random() - 0.5) * SNOW_SPAN;
+
+      rnd[i * 3] = random() * 100; // phase
+      rnd[i * 3 + 1] = random(); // weight
+      rnd[i * 3 + 2] = 4.0 + random() * 8.0; // size
+    }
+    return { positions: pos, randoms: rnd };
+  }, [seed, count]);
+
+  useFrame((_, delta) => {
+    // The falling share eases with the weather; lower tiers draw fewer of those flakes
+    if (pointsRef.current) pointsRef.current.visible = cover.falling > 0.001;
+    geometryRef.current?.setDrawRange(0, scaledCount(count, cover.falling * density));
+
+    if (materialRef.current) {
+      const { uniforms } = materialRef.current;
+      if (!reducedMotion) {
+        uniforms.uTime.value += delta;
+        uniforms.uFall.value += delta * weather.fallSpeed;
+        uniforms.uDrift.value.x += delta * weather.wind[0];
+        uniforms.uDrift.value.y += delta * weather.wind[1];
+      }
+      uniforms.uTurbulence.value += (weather.turbulence - uniforms.uTurbulence.value) * Math.min(1, delta);
+      fadeColor(uniforms.uColor.value, targetColor, delta);
+    }
+  });
+
+  return (
+    <points ref={pointsRef} visible={false}>
+      <bufferGeometry ref={geometryRef}>
+        <bufferAttribute attach="attributes-position" count={count} array={positions} itemSize={3} />
+        <bufferAttribute attach="attributes-aRandom" count={count} array={randoms} itemSize={3} />
+      </bufferGeometry>
+      <shaderMaterial
+        ref={materialRef}
+        args={[materialArgs]}
+        transparent
+        blending={THREE.AdditiveBlending}
+        depthWrite={false}
+      />
+    </points>
+  );
+};
+
+// ----------------------
+// SNOW CAPS (Settled on the branches)
+// ----------------------
+const SnowCapMaterial = {
+  uniforms: {
+    uCover: { value: 0 }, // Share of the caps that have landed
+    uColor: { value: new THREE.Color() } // Theme snow color
+  },
+  vertexShader: `
+    uniform float uCover;
+    attribute float aThreshold; // Lands once the cover passes this
+    varying float vAlpha;
+
+    void main() {
+      vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+      gl_PointSize = 7.0 * (20.0 / -mvPosition.z);
+      gl_Position = projectionMatrix * mvPosition;
+
+      // Each flake fades in over a short stretch of the cover
+      vAlpha = clamp((uCover - aThreshold) * 10.0, 0.0, 1.0);
+    }
+  `,
+  fragmentShader: `
+    uniform vec3 uColor;
+    varying float vAlpha;
+
+    void main() {
+      if (vAlpha <= 0.0) discard;
+      float dist = length(gl_PointCoord - vec2(0.5));
+      if (dist > 0.5) discard;
+
+      float strength = pow(1.0 - (dist * 2.0), 1.2);
+      gl_FragColor = vec4(uColor * 0.7, strength * vAlpha);
+    }
+  `
+};
+
+interface SnowCapsProps {
+  seed: string;
+  theme: Theme;
+  profile: TreeProfile; // Caps rest on the outside of this silhouette
+  density: number;
+  cover: SnowCover;
+}
+
+export const SnowCaps: React.FC<SnowCapsProps> = ({ seed, theme, profile, density, cover }) => {
+  const COUNT = 2500;
+  const geometryRef = useDrawRange(COUNT, density);
+  const pointsRef = useRef<THREE.Points>(null);
+  const materialRef = useRef<THREE.ShaderMaterial>(null);
+  const materialArgs = useLayerMaterial(SnowCapMaterial, theme.snow);
+  const targetColor = useMemo(() => new THREE.Color(theme.snow), [theme]);
+
+  const { positions, thresholds } = useMemo(() => ({
+    positions: new Float32Array(COUNT * 3),
+    thresholds: new Float32Array(COUNT)
+  }), []);
+
+  // Refilled in place when the silhouette is edited
+  useEffect(() => {
+    const random = createRandom(`${seed}:snowcaps`);
+    for (let i = 0; i < COUNT; i++) {
+      const [x, y, z] = getTreeSurfacePoint(random, profile);
+      // Resting on top of the needles rather than inside them
+      positions[i * 3] = x;
+      positions[i * 3 + 1] = y + 0.08;
+      positions[i * 3 + 2] = z;
+      thresholds[i] = random() * 0.9;
+    }
+    const geometry = geometryRef.current;
+    if (geometry) {
+      geometry.attributes.position.needsUpdate = true;
+      geometry.attributes.aThreshold.needsUpdate = true;
+      geometry.computeBoundingSphere();
+    }
+  }, [seed, profile, positions, thresholds]);
+
+  useFrame((_, delta) => {
+    if (pointsRef.current) pointsRef.current.visible = cover.tree > 0.001;
+    if (materialRef.current) {
+      materialRef.current.uniforms.uCover.value = cover.tree;
+      fadeColor(materialRef.current.uniforms.uColor.value, targetColor, delta);
+    }
+  });
+
+  return (
+    <points ref={pointsRef} visible={false}>
+      <bufferGeometry ref={geometryRef}>
+        <bufferAttribute attach="attributes-position" count={COUNT} array={positions} itemSize={3} />
+        <bufferAttribute attach="attributes-aThreshold" count={COUNT} array={thresholds} itemSize={1} />
+      </bufferGeometry>
+      <shaderMaterial
+        ref={materialRef}
+        args={[materialArgs]}
+        transparent
+        blending={THREE.AdditiveBlending}
+        depthWrite={false}
+      />
+    </points>
+  );
+};
@@ -0,0 +1,33 @@
+import React, { useEffect, useMemo } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { QUALITY_TIERS, createQualityGovernor } from '../utils/quality';
+
+interface QualityMonitorProps {
+  enabled: boolean; // False while a tier is forced
+  tierId: string;
+  onTierChange: (tierId: string) => void;
+}
+
+const tierIndex = (id: string) => Math.max(0, QUALITY_TIERS.findIndex((t) => t.id === id));
+
+// Lives inside the Canvas and feeds frame times to the quality governor
+const QualityMonitor: React.FC<QualityMonitorProps> = ({ enabled, tierId, onTierChange }) => {
+  const get = useThree((state) => state.get);
+  const governor = useMemo(() => createQualityGovernor(tierIndex(tierId)), []);
+
+  // Coming back from a forced tier, measure from a clean slate
+  useEffect(() => {
+    if (enabled) governor.reset(tierIndex(tierId));
+  }, [governor, enabled]);
+
+  useFrame((_, delta) => {
+    // Captures drive the clock by hand, their frame times say nothing about the device
+    if (!enabled || get().frameloop !== 'always') return;
+    const next = governor.sample(delta);
+    if (next !== null) onTierChange(QUALITY_TIERS[next].id);
+  });
+
+  return null;
+};
+
+export default QualityMonitor;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Messages } from '../utils/i18n';
+import { Theme } from '../utils/themes';
+import { ROOM_TOOL_MODES, RoomState, RoomTool, generateRoomId, isRoomId, peerColor } from '../utils/room';
+
+interface RoomPanelProps {
+  roomId: string | null; // Joined room, if any
+  roomState: RoomState | null;
+  name: string;
+  onJoin: (roomId: string, name: string) => void;
+  onLeave: () => void;
+  tool: RoomTool;
+  onToolChange: (tool: RoomTool) => void;
+  palettes: Theme['ornaments']; // Swatches for placing and painting
+  messages: Messages;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-sm bg-black/40 border border-arix-gold/20 text-arix-goldLight font-serif tracking-wider text-sm placeholder:text-arix-goldLight/40 focus:outline-none focus:border-arix-gold/60';
+const labelClass = 'flex flex-col gap-1 text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60';
+
+const pillClass = (active: boolean) => `px-3 py-1 rounded-full border transition-all duration-500 ${
+  active
+  ? 'border-arix-gold text-arix-gold'
+  : 'border-arix-gold/20 text-arix-goldLight/60 hover:bg-white/5'
+}`;
+
+// Join a shared room by id, see who's there, and pick what a click on the tree does
+const RoomPanel: React.FC<RoomPanelProps> = ({ roomId, roomState, name, onJoin, onLeave, tool, onToolChange, palettes, messages }) => {
+  const t = messages.room;
+  const [draftName, setDraftName] = useState(name);
+  const [draftRoom, setDraftRoom] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  if (!roomId || !roomState) {
+    const joinable = isRoomId(draftRoom.trim());
+    return (
+      <div className="w-80 p-5 flex flex-col gap-3 bg-black/50 backdrop-blur-md border border-arix-gold/20 rounded-sm">
+        <label className={labelClass}>
+          {t.name}
+          <input className={inputClass} value={draftName} maxLength={32} placeholder={t.guest} onChange={(e) => setDraftName(e.target.value)} />
+        </label>
+        <label className={labelClass}>
+          {t.roomId}
+          <input className={inputClass} value={draftRoom} maxLength={64} onChange={(e) => setDraftRoom(e.target.value)} />
+        </label>
+        <div className="flex justify-center gap-2 text-[10px] tracking-[0.3em] uppercase">
+          <button disabled={!joinable} onClick={() => onJoin(draftRoom.trim(), draftName.trim())} className={`${pillClass(joinable)} disabled:opacity-40 disabled:cursor-not-allowed`}>
+            {t.join}
+          </button>
+          <button onClick={() => onJoin(generateRoomId(), draftName.trim())} className={pillClass(false)}>
+            {t.create}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const palette = palettes[tool.type === 'BOX' ? 'gift' : 'sphere'];
+
+  const copyLink = () => {
+    navigator.clipboard
+      ?.writeText(window.location.href)
+      .then(() => setCopied(true))
+      .catch(() => undefined);
+  };
+
+  return (
+    <div className="w-80 p-5 flex flex-col gap-3 bg-black/50 backdrop-blur-md border border-arix-gold/20 rounded-sm text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-serif text-sm tracking-widest text-arix-gold normal-case truncate">{roomId}</span>
+        <span role="status">{t.status[roomState.status]}</span>
+      </div>
+
+      {/* Who else is here, in their cursor colors */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span>{t.people(roomState.peers.length)}</span>
+        {roomState.peers.map((peer) => (
+          <span key={peer.id} className="normal-case tracking-widest" style={{ color: peerColor(peer.id) }}>
+            {peer.name || t.guest}
+          </span>
+        ))}
+      </div>
+
+      <div role="group" aria-label={t.open} className="flex flex-wrap justify-center gap-2">
+        {ROOM_TOOL_MODES.map((mode) => (
+          <button key={mode} onClick={() => onToolChange({ ...tool, mode })} aria-pressed={tool.mode === mode} className={pillClass(tool.mode === mode)}>
+            {t.tools[mode]}
+          </button>
+        ))}
+      </div>
+
+      {tool.mode === 'place' && (
+        <div className="flex justify-center gap-2">
+          {(['SPHERE', 'BOX'] as const).map((type) => (
+            <button key={type} onClick={() => onToolChange({ ...tool, type })} aria-pressed={tool.type === type} className={pillClass(tool.type === type)}>
+              {t.types[type]}
+            </button>
+          ))}
+        </div>
+      )}
+      {(tool.mode === 'place' || tool.mode === 'recolor') && (
+        <div className="flex justify-center gap-2">
+          {palette.map((hex, slot) => (
+            <button
+              key={slot}
+              onClick={() => onToolChange({ ...tool, colorSlot: slot })}
+              aria-pressed={tool.colorSlot === slot}
+              aria-label={t.color(slot)}
+              className={`w-6 h-6 rounded-full border-2 transition-all duration-500 ${tool.colorSlot === slot ? 'border-arix-gold scale-110' : 'border-transparent'}`}
+              style={{ backgroundColor: hex }}
+            />
+          ))}
+        </div>
+      )}
+      {(tool.mode === 'recolor' || tool.mode === 'remove') && <p className="text-center normal-case tracking-wider">{t.hint}</p>}
+
+      <div className="flex justify-center gap-2">
+        <button onClick={copyLink} className={pillClass(false)}>
+          {copied ? t.copied : t.copyLink}
+        </button>
+        <button onClick={onLeave} className={pillClass(false)}>
+          {t.leave}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RoomPanel;
@@ -0,0 +1,69 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { RoomClient, RoomPeer, SharedOrnament, peerColor } from '../utils/room';
+
+interface RoomPresenceProps {
+  room: RoomClient;
+  peers: RoomPeer[];
+  ornaments: SharedOrnament[];
+  showLabels: boolean; // Only while the tree stands; in other layouts the ornaments are adrift
+}
+
+// Keep the labels under the overlay (drei's default stacks them above everything)
+const LABEL_Z: [number, number] = [10, 0];
+const LABEL_CLASS = 'px-2 py-0.5 rounded-full bg-black/50 text-[10px] tracking-widest whitespace-nowrap pointer-events-none select-none';
+
+const tempPoint = new THREE.Vector3();
+
+// Another person's pointer on the tree: glides after the latest position the relay sent
+const PeerCursor = ({ room, peer }: { room: RoomClient; peer: RoomPeer }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const labelRef = useRef<HTMLDivElement>(null);
+  const color = peerColor(peer.id);
+
+  useFrame((_, delta) => {
+    const group = groupRef.current;
+    if (!group) return;
+    const point = room.cursors.get(peer.id);
+    if (point && !group.visible) group.position.set(...point); // Appear in place, not flying in
+    if (point) group.position.lerp(tempPoint.set(...point), Math.min(1, delta * 12));
+    group.visible = point !== undefined;
+    // Html lives in the DOM, outside the scene graph's visibility
+    if (labelRef.current) labelRef.current.style.display = group.visible ? '' : 'none';
+  });
+
+  return (
+    <group ref={groupRef} visible={false}>
+      <mesh>
+        <sphereGeometry args={[0.15, 12, 12]} />
+        <meshBasicMaterial color={color} toneMapped={false} />
+      </mesh>
+      <Html position={[0, 0.45, 0]} center zIndexRange={LABEL_Z}>
+        <div ref={labelRef} className={LABEL_CLASS} style={{ color }}>{peer.name}</div>
+      </Html>
+    </group>
+  );
+};
+
+// Lives in tree space: everyone else's cursor, and who placed which ornament
+const RoomPresence: React.FC<RoomPresenceProps> = ({ room, peers, ornaments, showLabels }) => (
+  <group>
+    {peers.map((peer) => (
+      <PeerCursor key={peer.id} room={room} peer={peer} />
+    ))}
+    {showLabels && ornaments.map((ornament) => (
+      <Html
+        key={ornament.id}
+        position={[ornament.position[0], ornament.position[1] + 0.5 * ornament.size, ornament.position[2]]}
+        center
+        zIndexRange={LABEL_Z}
+      >
+        <div className={`${LABEL_CLASS} opacity-70`} style={{ color: peerColor(ornament.owner) }}>{ornament.ownerName}</div>
+      </Html>
+    ))}
+  </group>
+);
+
+export default RoomPresence;
@@ -0,0 +1,18 @@
+import React from 'react';
+
+interface SceneNarratorProps {
+  message: string; // Latest announcement; a new string is read out
+  help: string; // How to drive the scene from the keyboard
+}
+
+// Screen-reader only: describes the scene and its transitions as they happen
+const SceneNarrator: React.FC<SceneNarratorProps> = ({ message, help }) => (
+  <>
+    <p className="sr-only">{help}</p>
+    <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+      {message}
+    </div>
+  </>
+);
+
+export default SceneNarrator;
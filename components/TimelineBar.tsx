@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  MorphTimeline,
+  TIMELINE_SPEEDS,
+  reverseTimeline,
+  seekTimeline,
+  toggleTimelinePlayback
+} from '../utils/timeline';
+import { EASING_NAMES, EasingName } from '../utils/easing';
+import { CHOREOGRAPHIES, ChoreographyName } from '../utils/choreography';
+import { Messages } from '../utils/i18n';
+
+interface TimelineBarProps {
+  timeline: MorphTimeline;
+  messages: Messages;
+}
+
+const SLIDER_STEPS = 1000;
+
+const buttonClass = 'px-3 py-1 rounded-full border border-arix-gold/20 text-arix-gold hover:bg-white/5 transition-all duration-500';
+
+// Scrubbable morph timeline: slider, play / pause, reverse, playback speed, easing curve and choreography
+const TimelineBar: React.FC<TimelineBarProps> = ({ timeline, messages }) => {
+  const t = messages.timeline;
+  const sliderRef = useRef<HTMLInputElement>(null);
+  const draggingRef = useRef(false); // Don't fight the thumb while it's held
+  // Mirrors of the timeline for the labels; the slider itself is updated without re-rendering
+  const [playing, setPlaying] = useState(timeline.playing);
+  const [direction, setDirection] = useState(timeline.direction);
+  const [speed, setSpeed] = useState(timeline.speed);
+  const [easing, setEasing] = useState(timeline.config.easing);
+  const [choreography, setChoreography] = useState(timeline.config.choreography);
+
+  useEffect(() => {
+    let frame = 0;
+    const sync = () => {
+      if (sliderRef.current && !draggingRef.current) {
+        sliderRef.current.value = String(Math.round(timeline.progress * SLIDER_STEPS));
+      }
+      setPlaying(timeline.playing);
+      setDirection(timeline.direction);
+      frame = requestAnimationFrame(sync);
+    };
+    frame = requestAnimationFrame(sync);
+    return () => cancelAnimationFrame(frame);
+  }, [timeline]);
+
+  return (
+    <div className="absolute bottom-8 left-8 md:bottom-12 md:left-12 z-10 flex items-center gap-2 text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60">
+      <button className={buttonClass} onClick={() => toggleTimelinePlayback(timeline)}>
+        {playing ? messages.pause : messages.play}
+      </button>
+      <button className={buttonClass} onClick={() => reverseTimeline(timeline)} aria-pressed={direction < 0}>
+        {direction < 0 ? t.forward : t.reverse}
+      </button>
+      <input
+        ref={sliderRef}
+        type="range"
+        min={0}
+        max={SLIDER_STEPS}
+        defaultValue={Math.round(timeline.progress * SLIDER_STEPS)}
+        onChange={(e) => seekTimeline(timeline, Number(e.target.value) / SLIDER_STEPS)}
+        onPointerDown={() => (draggingRef.current = true)}
+        onPointerUp={() => (draggingRef.current = false)}
+        aria-label={t.progress}
+        className="w-32 md:w-48 accent-arix-gold"
+      />
+      <select
+        value={speed}
+        onChange={(e) => {
+          timeline.speed = Number(e.target.value);
+          setSpeed(timeline.speed);
+        }}
+        aria-label={t.speed}
+        className="px-2 py-1 rounded-full bg-black/40 border border-arix-gold/20 text-arix-goldLight text-xs focus:outline-none"
+      >
+        {TIMELINE_SPEEDS.map((s) => (
+          <option key={s} value={s}>{s}x</option>
+        ))}
+      </select>
+      <select
+        value={easing}
+        onChange={(e) => {
+          // Applies from the next frame, mid-transition included
+          timeline.config = { ...timeline.config, easing: e.target.value as EasingName };
+          setEasing(timeline.config.easing);
+        }}
+        aria-label={t.easing}
+        className="px-2 py-1 rounded-full bg-black/40 border border-arix-gold/20 text-arix-goldLight text-xs focus:outline-none"
+      >
+        {EASING_NAMES.map((name) => (
+          <option key={name} value={name}>{t.easings[name]}</option>
+        ))}
+      </select>
+      <select
+        value={choreography}
+        onChange={(e) => {
+          // Delays are laid out per layout, so this applies from the next layout change
+          timeline.config = { ...timeline.config, choreography: e.target.value as ChoreographyName };
+          setChoreography(timeline.config.choreography);
+        }}
+        aria-label={t.choreography}
+        className="px-2 py-1 rounded-full bg-black/40 border border-arix-gold/20 text-arix-goldLight text-xs focus:outline-none"
+      >
+        {CHOREOGRAPHIES.map(({ id }) => (
+          <option key={id} value={id}>{t.choreographies[id]}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default TimelineBar;
@@ -0,0 +1,130 @@
+import React, { useEffect } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { TreeMorphState } from '../types';
+import { LayoutContext } from '../utils/layouts';
+import { MorphTimeline, advanceTimeline, restartTimeline, seekTimeline } from '../utils/timeline';
+
+interface TimelineControllerProps {
+  timeline: MorphTimeline;
+  state: TreeMorphState;
+  seed: string;
+  layoutContext: LayoutContext;
+  // Lifecycle events: a morph towards `state` began / arrived
+  onTransitionStart?: (state: TreeMorphState) => void;
+  onTransitionEnd?: (state: TreeMorphState) => void;
+}
+
+// Pixels of drag / pinch spread for a full morph
+const DRAG_RANGE = 400;
+const PINCH_RANGE = 300;
+// Wheel delta units for a full morph
+const WHEEL_RANGE = 1200;
+
+// Lives inside the Canvas: plays the shared morph timeline and maps canvas gestures onto it.
+// Shift + drag and Shift + wheel scrub with a mouse, a two-finger pinch scrubs on touch.
+// Without Shift the camera controls keep the mouse; pinching takes over from pinch-zoom.
+//
+// Must be rendered after the morphing layers: they bake their retarget with the current
+// progress in their own effects, and this component's effect (which runs later) restarts it
+const TimelineController: React.FC<TimelineControllerProps> = ({ timeline, state, seed, layoutContext, onTransitionStart, onTransitionEnd }) => {
+  const target = useThree((s) => s.events.connected as HTMLElement | undefined);
+  const get = useThree((s) => s.get);
+
+  useFrame((_, delta) => {
+    advanceTimeline(timeline, delta);
+    // Ends once per transition, whether played or scrubbed to the end
+    if (!timeline.ended && timeline.progress >= 1) {
+      timeline.ended = true;
+      onTransitionEnd?.(state);
+    }
+  }, -1);
+
+  // Every new layout (or rebuilt target) starts a fresh morph
+  useEffect(() => {
+    restartTimeline(timeline);
+    onTransitionStart?.(state);
+  }, [timeline, state, seed, layoutContext]);
+
+  useEffect(() => {
+    if (!target) return;
+
+    const touches = new Map<number, { x: number; y: number }>();
+    let pinchDistance: number | null = null;
+    let dragX: number | null = null;
+
+    const touchSpread = () => {
+      const [a, b] = [...touches.values()];
+      return Math.hypot(a.x - b.x, a.y - b.y);
+    };
+
+    // Orbit controls are told to sit out while a pinch scrubs
+    const setZoom = (enabled: boolean) => {
+      const controls = get().controls as { enableZoom?: boolean } | null;
+      if (controls && 'enableZoom' in controls) controls.enableZoom = enabled;
+    };
+
+    const onPointerDown = (e: PointerEvent) => {
+      if (e.pointerType === 'touch') {
+        touches.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        if (touches.size === 2) {
+          pinchDistance = touchSpread();
+          setZoom(false);
+        }
+      } else if (e.shiftKey && e.button === 0) {
+        // Keep the drag from reaching the camera controls and ornament picking
+        e.stopPropagation();
+        dragX = e.clientX;
+      }
+    };
+
+    const onPointerMove = (e: PointerEvent) => {
+      if (touches.has(e.pointerId)) {
+        touches.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        if (touches.size === 2 && pinchDistance !== null) {
+          const spread = touchSpread();
+          // Spreading plays forwards, pinching rewinds
+          seekTimeline(timeline, timeline.progress + (spread - pinchDistance) / PINCH_RANGE);
+          pinchDistance = spread;
+        }
+      } else if (dragX !== null) {
+        seekTimeline(timeline, timeline.progress + (e.clientX - dragX) / DRAG_RANGE);
+        dragX = e.clientX;
+      }
+    };
+
+    const onPointerUp = (e: PointerEvent) => {
+      if (touches.delete(e.pointerId) && touches.size < 2 && pinchDistance !== null) {
+        pinchDistance = null;
+        setZoom(true);
+      }
+      dragX = null;
+    };
+
+    const onWheel = (e: WheelEvent) => {
+      if (!e.shiftKey) return;
+      e.preventDefault();
+      e.stopPropagation();
+      // Some browsers turn Shift + wheel into horizontal scrolling
+      const delta = e.deltaY !== 0 ? e.deltaY : e.deltaX;
+      seekTimeline(timeline, timeline.progress - delta / WHEEL_RANGE);
+    };
+
+    // Capture phase, so scrubbing is decided before the camera controls see the event
+    target.addEventListener('pointerdown', onPointerDown, true);
+    target.addEventListener('wheel', onWheel, { capture: true, passive: false });
+    window.addEventListener('pointermove', onPointerMove);
+    window.addEventListener('pointerup', onPointerUp);
+    window.addEventListener('pointercancel', onPointerUp);
+    return () => {
+      target.removeEventListener('pointerdown', onPointerDown, true);
+      target.removeEventListener('wheel', onWheel, { capture: true });
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerup', onPointerUp);
+      window.removeEventListener('pointercancel', onPointerUp);
+    };
+  }, [target, get, timeline]);
+
+  return null;
+};
+
+export default TimelineController;
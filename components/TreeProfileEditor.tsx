@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { TREE_PROFILE_FIELDS, TREE_PROFILE_PRESETS, TreeProfile } from '../utils/treeProfile';
+import { Messages } from '../utils/i18n';
+
+interface TreeProfileEditorProps {
+  profile: TreeProfile;
+  onChange: (profile: TreeProfile) => void;
+  messages: Messages;
+}
+
+const buttonClass = 'px-3 py-1 rounded-full border border-arix-gold/20 text-arix-gold hover:bg-white/5 transition-all duration-500';
+
+// Live silhouette editor: presets plus one slider per profile parameter.
+// Every change reshapes the Tree layout straight away (foliage, ornaments and star)
+const TreeProfileEditor: React.FC<TreeProfileEditorProps> = ({ profile, onChange, messages }) => {
+  const t = messages.treeShape;
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="absolute top-8 left-8 md:top-12 md:left-12 z-10 flex flex-col items-start gap-2 text-[10px] tracking-[0.3em] uppercase text-arix-goldLight/60">
+      <button className={buttonClass} onClick={() => setOpen((o) => !o)} aria-expanded={open}>
+        {open ? t.close : t.open}
+      </button>
+      {open && (
+        <div className="w-64 p-4 flex flex-col gap-3 bg-black/50 backdrop-blur-md border border-arix-gold/20 rounded-sm">
+          <div className="flex flex-wrap gap-2">
+            {TREE_PROFILE_PRESETS.map((preset) => (
+              <button key={preset.id} className={buttonClass} onClick={() => onChange(preset.profile)}>
+                {t.presets[preset.id] ?? preset.label}
+              </button>
+            ))}
+          </div>
+          {TREE_PROFILE_FIELDS.map((field) => (
+            <label key={field.key} className="flex flex-col gap-1">
+              <span className="flex justify-between">
+                {t.fields[field.key]}
+                <span className="text-arix-gold">{profile[field.key]}</span>
+              </span>
+              <input
+                type="range"
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                value={profile[field.key]}
+                onChange={(e) => onChange({ ...profile, [field.key]: Number(e.target.value) })}
+                className="accent-arix-gold"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TreeProfileEditor;
@@ -0,0 +1,98 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { ThreeEvent, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Vec3 } from '../types';
+import { snapToTreeSurface } from '../utils/math';
+import { TreeProfile, canopyRadius, trunkHeight } from '../utils/treeProfile';
+
+interface TreeSurfaceProps {
+  profile: TreeProfile;
+  onPoint?: (point: Vec3 | null) => void; // Pointer over the tree, null once it leaves
+  onPick?: (point: Vec3) => void; // Click on the tree, snapped onto the canopy
+  dragging?: boolean; // An ornament is being dragged: follow the pointer until it's released
+  onDrag?: (point: Vec3) => void; // Snapped, like picks
+  onDragEnd?: () => void;
+}
+
+const STEPS = 64;
+// Pointer travel (px) that makes a press a drag to orbit rather than a click
+const CLICK_SLOP = 4;
+
+// Invisible shell around the canopy that turns pointer rays into points on the tree
+// (in the Tree layout's space). Round: the lumps of an asymmetric tree are left to the snapping
+const TreeSurface: React.FC<TreeSurfaceProps> = ({ profile, onPoint, onPick, dragging = false, onDrag, onDragEnd }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const { camera, gl, get } = useThree();
+  // Latest handlers, so a drag keeps its listeners while the ornament moves
+  const dragHandlers = useRef({ onDrag, onDragEnd });
+  dragHandlers.current = { onDrag, onDragEnd };
+
+  const geometry = useMemo(() => {
+    const round = { ...profile, asymmetry: 0 };
+    const base = trunkHeight(profile);
+    const points = [new THREE.Vector2(0, base - 5)];
+    for (let i = 0; i <= STEPS; i++) {
+      const h = i / STEPS;
+      points.push(new THREE.Vector2(canopyRadius(round, h, 0), base + h * (profile.height - base) - 5));
+    }
+    return new THREE.LatheGeometry(points, 48);
+  }, [profile]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // The pointer may still be over the tree when the surface goes away
+  useEffect(() => () => onPoint?.(null), [onPoint]);
+
+  // The dragged ornament sits under the pointer and would hide the surface from scene events,
+  // so a drag casts its own rays. The camera holds still meanwhile
+  useEffect(() => {
+    if (!dragging) return;
+    const controls = get().controls as { enabled?: boolean } | null;
+    if (controls && 'enabled' in controls) controls.enabled = false;
+    const raycaster = new THREE.Raycaster();
+    const pointer = new THREE.Vector2();
+    const onMove = (e: PointerEvent) => {
+      const mesh = meshRef.current;
+      if (!mesh) return;
+      const rect = gl.domElement.getBoundingClientRect();
+      pointer.set(((e.clientX - rect.left) / rect.width) * 2 - 1, -((e.clientY - rect.top) / rect.height) * 2 + 1);
+      raycaster.setFromCamera(pointer, camera);
+      const hit = raycaster.intersectObject(mesh)[0];
+      if (!hit) return;
+      const local = mesh.worldToLocal(hit.point);
+      dragHandlers.current.onDrag?.(snapToTreeSurface([local.x, local.y, local.z], profile));
+    };
+    const onUp = () => dragHandlers.current.onDragEnd?.();
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+    window.addEventListener('pointercancel', onUp);
+    return () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      window.removeEventListener('pointercancel', onUp);
+      if (controls && 'enabled' in controls) controls.enabled = true;
+    };
+  }, [dragging, profile, camera, gl, get]);
+
+  const toTreeSpace = (e: ThreeEvent<PointerEvent | MouseEvent>): Vec3 => {
+    const local = meshRef.current!.worldToLocal(e.point.clone());
+    return [local.x, local.y, local.z];
+  };
+
+  return (
+    <mesh
+      ref={meshRef}
+      geometry={geometry}
+      onPointerMove={(e) => onPoint?.(toTreeSpace(e))}
+      onPointerOut={() => onPoint?.(null)}
+      onClick={(e) => {
+        if (!onPick || e.delta > CLICK_SLOP) return;
+        e.stopPropagation();
+        onPick(snapToTreeSurface(toTreeSpace(e), profile));
+      }}
+    >
+      <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+    </mesh>
+  );
+};
+
+export default TreeSurface;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { useFrame } from '@react-three/fiber';
+import { TreeMorphState } from '../types';
+import { MorphTimeline } from '../utils/timeline';
+import { SnowCover, WeatherPreset, updateSnowCover } from '../utils/weather';
+
+interface WeatherMonitorProps {
+  weather: WeatherPreset;
+  state: TreeMorphState;
+  timeline: MorphTimeline;
+  cover: SnowCover; // Shared with the snow layers and the gift boxes
+}
+
+// Lives inside the Canvas and builds up (or melts) the snow cover before anything reads it.
+// Snow only stays on the tree while it stands assembled; a morph shakes it off
+const WeatherMonitor: React.FC<WeatherMonitorProps> = ({ weather, state, timeline, cover }) => {
+  useFrame((_, delta) => {
+    const settled = state === TreeMorphState.TREE_SHAPE && timeline.progress >= 1;
+    updateSnowCover(cover, weather.intensity, settled, delta);
+  }, -1);
+
+  return null;
+};
+
+export default WeatherMonitor;
@@ -0,0 +1,13 @@
+// Library entry (npm run build:lib): the scene as a React component and as <holiday-tree>.
+// React, three and the @react-three packages are peer dependencies, bundled only in standalone.ts
+export { default as Experience } from '../components/Experience';
+export type { ExperienceProps } from '../components/Experience';
+export { default as HolidayTree } from '../components/HolidayTree';
+export type { HolidayTreeProps } from '../components/HolidayTree';
+export { HolidayTreeElement, defineHolidayTree } from '../components/HolidayTreeElement';
+export type { HolidayTreeEventMap } from '../components/HolidayTreeElement';
+export { TreeMorphState } from '../types';
+export { THEMES } from '../utils/themes';
+export type { Theme } from '../utils/themes';
+export { DEFAULT_SCENE_CONFIG, validateSceneConfig } from '../utils/sceneConfig';
+export type { SceneConfig } from '../utils/sceneConfig';
@@ -0,0 +1,9 @@
+// Drop-in script for pages without a build step or an import map: everything is bundled and
+// <holiday-tree> is registered on load
+//   <script type="module" src="holiday-tree.standalone.js"></script>
+//   <holiday-tree state="tree-shape" theme="classic" heading="Merry Christmas"></holiday-tree>
+import { defineHolidayTree } from '../components/HolidayTreeElement';
+
+defineHolidayTree();
+
+export * from './index';
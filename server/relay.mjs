@@ -0,0 +1,280 @@
+// Reference relay for shared decorating rooms (see utils/room.ts for the client and the
+// conflict rules). Plain Node, no dependencies: npm run relay, then open the app with ?room=<id>.
+// Rooms live in memory for as long as the process runs, so people can leave and come back.
+//
+//   PORT=8787 node server/relay.mjs
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 8787);
+
+// Same limits as the app (utils/ornaments.ts, utils/room.ts)
+const MAX_PLACED_ORNAMENTS = 200; // Per ornament type
+const PLACED_ID_BASE = 2 ** 32;
+const SIZE_RANGE = [0.5, 2.5];
+const ROOM_ID = /^[\w-]{1,64}$/;
+const MAX_NAME = 32;
+const MAX_MESSAGE = 16 * 1024; // Bytes
+const PING_INTERVAL = 30000; // ms
+// Sent to a connection replaced by a newer one with the same client id; clients don't reconnect
+const REPLACED_CODE = 4000;
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/** @type {Map<string, { ornaments: Map<number, object>, clients: Set<Client> }>} */
+const rooms = new Map();
+
+const isFiniteNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+const isPlacedOrnament = (o) =>
+  typeof o === 'object' && o !== null &&
+  isFiniteNumber(o.id) && o.id >= PLACED_ID_BASE &&
+  (o.type === 'SPHERE' || o.type === 'BOX') &&
+  Array.isArray(o.position) && o.position.length === 3 && o.position.every(isFiniteNumber) &&
+  Number.isInteger(o.colorSlot) && o.colorSlot >= 0 &&
+  isFiniteNumber(o.size) && o.size >= SIZE_RANGE[0] && o.size <= SIZE_RANGE[1];
+
+const isPoint = (p) => Array.isArray(p) && p.length === 3 && p.every(isFiniteNumber);
+
+// --- WebSocket framing (RFC 6455), just what a browser client needs ---
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+class Client {
+  constructor(socket) {
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.fragmentBytes = 0;
+    this.alive = true;
+    this.id = null;
+    this.name = '';
+    this.room = null;
+    socket.on('data', (chunk) => this.receive(chunk));
+    socket.on('close', () => leave(this));
+    socket.on('error', () => socket.destroy());
+  }
+
+  send(message) {
+    if (!this.socket.destroyed) this.socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  }
+
+  close(code = 1000) {
+    if (this.socket.destroyed || this.socket.writableEnded) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.socket.end(encodeFrame(0x8, payload));
+  }
+
+  // Client frames are always masked; fragments are joined before a message is handled.
+  // MAX_MESSAGE caps the whole message, not just each frame
+  receive(chunk) {
+    if (this.socket.writableEnded) return; // Closing: nothing more is read
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.buffer.length >= 2) {
+      const first = this.buffer[0];
+      const second = this.buffer[1];
+      let length = second & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        const long = this.buffer.readBigUInt64BE(2);
+        length = long > BigInt(MAX_MESSAGE) ? MAX_MESSAGE + 1 : Number(long);
+        offset = 10;
+      }
+      if (length > MAX_MESSAGE || !(second & 0x80)) {
+        this.close(1009);
+        return;
+      }
+      if (this.buffer.length < offset + 4 + length) return;
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+      this.frame(first & 0x80, first & 0x0f, payload);
+    }
+  }
+
+  frame(fin, opcode, payload) {
+    if (opcode === 0x8) {
+      this.close();
+    } else if (opcode === 0x9) {
+      if (!this.socket.destroyed) this.socket.write(encodeFrame(0xa, payload));
+    } else if (opcode === 0xa) {
+      this.alive = true;
+    } else if (opcode === 0x1 || opcode === 0x0) {
+      this.fragmentBytes += payload.length;
+      if (this.fragmentBytes > MAX_MESSAGE) {
+        this.fragments = [];
+        this.close(1009);
+        return;
+      }
+      this.fragments.push(payload);
+      if (!fin) return;
+      const text = Buffer.concat(this.fragments).toString('utf8');
+      this.fragments = [];
+      this.fragmentBytes = 0;
+      try {
+        handle(this, JSON.parse(text));
+      } catch {
+        this.close(1007);
+      }
+    }
+  }
+}
+
+// --- Rooms ---
+
+const broadcast = (room, message, except = null) => {
+  room.clients.forEach((client) => {
+    if (client !== except) client.send(message);
+  });
+};
+
+const join = (client, { room: roomId, clientId, name }) => {
+  if (client.room || typeof roomId !== 'string' || !ROOM_ID.test(roomId) || typeof clientId !== 'string' || !clientId || clientId.length > 64) {
+    client.close(1008);
+    return;
+  }
+  let room = rooms.get(roomId);
+  if (!room) {
+    room = { ornaments: new Map(), clients: new Set() };
+    rooms.set(roomId, room);
+  }
+  // A reconnect can beat the old connection's timeout; the new one wins
+  room.clients.forEach((other) => {
+    if (other.id === clientId) {
+      room.clients.delete(other);
+      other.room = null;
+      other.close(REPLACED_CODE);
+    }
+  });
+  client.id = clientId;
+  client.name = typeof name === 'string' ? name.trim().slice(0, MAX_NAME) : '';
+  client.room = room;
+  const peers = [...room.clients].map((other) => ({ id: other.id, name: other.name }));
+  room.clients.add(client);
+  client.send({ type: 'welcome', ornaments: [...room.ornaments.values()], peers });
+  broadcast(room, { type: 'peer', peer: { id: client.id, name: client.name } }, client);
+};
+
+const leave = (client) => {
+  const { room } = client;
+  if (!room) return;
+  client.room = null;
+  room.clients.delete(client);
+  broadcast(room, { type: 'leave', id: client.id });
+};
+
+// Applied in arrival order. Placing an id that exists is a repeat (its owner reconnecting) or a
+// clash (someone else's); changes to ornaments that are gone are rejected
+const apply = (client, op) => {
+  const { ornaments } = client.room;
+  if (op.kind === 'place') {
+    if (!isPlacedOrnament(op.ornament)) return false;
+    const existing = ornaments.get(op.ornament.id);
+    if (existing) return existing.owner === client.id ? existing : false;
+    const ofType = [...ornaments.values()].filter((o) => o.type === op.ornament.type).length;
+    if (ofType >= MAX_PLACED_ORNAMENTS) return false;
+    const { id, type, position, colorSlot, size } = op.ornament;
+    const ornament = { id, type, position, colorSlot, size, owner: client.id, ownerName: client.name };
+    ornaments.set(id, ornament);
+    return ornament;
+  }
+  if (op.kind === 'recolor') {
+    const ornament = ornaments.get(op.id);
+    if (!ornament || !Number.isInteger(op.colorSlot) || op.colorSlot < 0) return false;
+    ornament.colorSlot = op.colorSlot;
+    return ornament;
+  }
+  if (op.kind === 'remove') {
+    return ornaments.delete(op.id);
+  }
+  return false;
+};
+
+const handle = (client, message) => {
+  if (message?.type === 'join') {
+    join(client, message);
+    return;
+  }
+  const { room } = client;
+  if (!room) return;
+  if (message.type === 'op' && typeof message.op?.opId === 'string') {
+    const result = apply(client, message.op);
+    if (!result) {
+      client.send({ type: 'reject', opId: message.op.opId });
+      return;
+    }
+    // A place goes out as stored, with its owner; the owner of a repeat is the original one
+    const op = message.op.kind === 'place' ? { ...message.op, ornament: result } : message.op;
+    const by = message.op.kind === 'place' ? result.owner : client.id;
+    const byName = message.op.kind === 'place' ? result.ownerName : client.name;
+    broadcast(room, { type: 'op', op, by, byName });
+  } else if (message.type === 'cursor' && (message.point === null || isPoint(message.point))) {
+    broadcast(room, { type: 'cursor', id: client.id, point: message.point }, client);
+  }
+};
+
+// --- Server ---
+
+const server = createServer((_, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('Holiday tree room relay: connect over WebSocket\n');
+});
+
+const clients = new Set();
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+  const client = new Client(socket);
+  clients.add(client);
+  socket.on('close', () => clients.delete(client));
+});
+
+// Drop connections that stopped answering (a closed laptop lid sends no close frame)
+setInterval(() => {
+  clients.forEach((client) => {
+    if (!client.alive) {
+      client.socket.destroy();
+      return;
+    }
+    client.alive = false;
+    if (!client.socket.destroyed) client.socket.write(encodeFrame(0x9, Buffer.alloc(0)));
+  });
+}, PING_INTERVAL).unref();
+
+server.listen(PORT, () => console.log(`Room relay listening on ws://localhost:${PORT}`));
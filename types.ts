@@ -1,19 +1,38 @@
+// Every registered layout the particles can morph into (see utils/layouts.ts)
 export enum TreeMorphState {
   SCATTERED = 'SCATTERED',
-  TREE_SHAPE = 'TREE_SHAPE'
+  TREE_SHAPE = 'TREE_SHAPE',
+  SPIRAL_GALAXY = 'SPIRAL_GALAXY',
+  RING = 'RING',
+  HEART = 'HEART',
+  SNOWFLAKE = 'SNOWFLAKE',
+  SPHERE = 'SPHERE',
+  TEXT = 'TEXT',
+  IMAGE = 'IMAGE'
 }
 
-export interface DualPosition {
-  scatter: [number, number, number];
-  tree: [number, number, number];
+export type Vec3 = [number, number, number];
+
+// One target position per layout, so any layout can morph into any other
+export interface MorphPositions {
+  positions: Record<TreeMorphState, Vec3>;
   scale: number;
   rotation: [number, number, number];
-  color: string;
+  colorSlot: number; // Index into the active theme's palette, so themes recolor in place
 }
 
-export interface OrnamentData extends DualPosition {
+export interface OrnamentData extends MorphPositions {
   id: number;
   type: 'SPHERE' | 'BOX' | 'STAR';
   speed: number; // For floating animation
   offset: number; // Random offset for sine waves
-}
\ No newline at end of file
+}
+// An ornament put on the tree by hand rather than laid out from the seed. It hangs where it was
+// put in the Tree layout and drifts with the scatter cloud everywhere else
+export interface PlacedOrnament {
+  id: number; // Unique across every ornament in the scene (see utils/ornaments.ts)
+  type: 'SPHERE' | 'BOX';
+  position: Vec3; // On the tree, in the Tree layout's space
+  colorSlot: number; // Into the theme palette for its type
+  size: number; // Times the set's base scale
+}
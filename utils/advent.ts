@@ -0,0 +1,102 @@
+// Advent calendar: a countdown to Christmas and one door per day from December 1 to 24.
+// Dates come from the local clock; ?date=YYYY-MM-DD pretends it is another day (for testing).
+// Opened doors are remembered per season in localStorage.
+
+const DATE_PARAM = 'date';
+const STORAGE_PREFIX = 'advent:';
+const DECEMBER = 11; // Date months count from 0
+
+export const ADVENT_DAYS = 24;
+
+export type CountdownTarget = 'eve' | 'day';
+
+export const COUNTDOWN_TARGETS: CountdownTarget[] = ['eve', 'day'];
+
+export type AdventShape = 'bauble' | 'star' | 'gem' | 'wreath' | 'bell' | 'present';
+
+export interface AdventReward {
+  day: number;
+  shape: AdventShape; // Also names it behind the opened door (see utils/i18n.ts)
+  colorSlot: number; // Into the theme's bulb colors, so themes recolor them too
+}
+
+const SHAPES: AdventShape[] = ['bauble', 'star', 'gem', 'wreath', 'bell', 'present'];
+
+// One new decoration per day
+export const ADVENT_REWARDS: AdventReward[] = Array.from({ length: ADVENT_DAYS }, (_, i) => ({
+  day: i + 1,
+  shape: SHAPES[i % SHAPES.length],
+  colorSlot: i % 4
+}));
+
+// Pretend-today from the URL, as a shift from the real date so the clock keeps ticking
+const readDateOffset = (): number => {
+  const value = new URLSearchParams(window.location.search).get(DATE_PARAM);
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return 0;
+  const [, year, month, day] = match.map(Number);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return new Date(year, month - 1, day).getTime() - today.getTime();
+};
+
+const DATE_OFFSET = readDateOffset();
+
+// The calendar's idea of "now": the local clock, or the ?date= override
+export const getCalendarNow = () => new Date(Date.now() + DATE_OFFSET);
+
+// Door `day` opens from midnight local time on December `day`
+export const isDoorUnlocked = (day: number, now: Date) => now.getMonth() === DECEMBER && now.getDate() >= day;
+
+// Christmas Day: every door is open and the tree is fully lit
+export const isChristmasDay = (now: Date) => now.getMonth() === DECEMBER && now.getDate() === 25;
+
+// The next Christmas Eve / Day still ahead (today's counts until it is over)
+const countdownTargetDate = (now: Date, target: CountdownTarget) => {
+  const day = target === 'eve' ? 24 : 25;
+  const date = new Date(now.getFullYear(), DECEMBER, day);
+  if (now.getTime() >= new Date(now.getFullYear(), DECEMBER, day + 1).getTime()) date.setFullYear(now.getFullYear() + 1);
+  return date;
+};
+
+export interface Countdown {
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  arrived: boolean; // It is the day itself
+}
+
+export const getCountdown = (now: Date, target: CountdownTarget): Countdown => {
+  const remaining = Math.max(0, countdownTargetDate(now, target).getTime() - now.getTime());
+  const total = Math.floor(remaining / 1000);
+  return {
+    days: Math.floor(total / 86400),
+    hours: Math.floor(total / 3600) % 24,
+    minutes: Math.floor(total / 60) % 60,
+    seconds: total % 60,
+    arrived: remaining === 0
+  };
+};
+
+// Doors are remembered per season, so next December starts fresh
+const storageKey = (now: Date) => `${STORAGE_PREFIX}${now.getFullYear()}`;
+
+export const loadOpenedDoors = (now: Date): number[] => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(storageKey(now)) ?? '[]');
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((day): day is number => Number.isInteger(day) && day >= 1 && day <= ADVENT_DAYS);
+  } catch {
+    // Private mode or a corrupted entry: start with every door closed
+    return [];
+  }
+};
+
+export const saveOpenedDoors = (now: Date, days: number[]) => {
+  try {
+    localStorage.setItem(storageKey(now), JSON.stringify(days));
+  } catch (err) {
+    console.warn('Could not save the advent calendar', err);
+  }
+};
@@ -0,0 +1,117 @@
+// Audio-reactive mode: a local music file played through a Web Audio AnalyserNode.
+// The file is decoded by the browser and never uploaded anywhere.
+
+// Smoothed 0..1 levels the scene reads every frame. One shared object, mutated in place
+export interface AudioLevels {
+  bass: number;
+  mid: number;
+  high: number;
+  beat: number; // Jumps to 1 on a bass onset, then decays
+}
+
+export const createAudioLevels = (): AudioLevels => ({ bass: 0, mid: 0, high: 0, beat: 0 });
+
+// Frequency bands in Hz
+const BANDS = {
+  bass: [20, 150],
+  mid: [400, 2000],
+  high: [5000, 14000]
+} as const;
+
+// Rise fast, fall slowly, so levels follow the music without flickering
+const ATTACK = 18;
+const RELEASE = 4;
+const BEAT_DECAY = 6;
+// A beat is bass this much louder than its recent average...
+const BEAT_THRESHOLD = 1.35;
+const BEAT_MIN_LEVEL = 0.3;
+// ...and at least this long after the previous one (seconds)
+const BEAT_COOLDOWN = 0.25;
+
+export interface AudioPlayer {
+  name: string; // File name, for the overlay
+  play: () => Promise<void>;
+  pause: () => void;
+  isPlaying: () => boolean;
+  // Read the analyser into `levels`. Call once per frame
+  analyse: (levels: AudioLevels, delta: number) => void;
+  dispose: () => void;
+}
+
+const follow = (current: number, target: number, delta: number) => {
+  const rate = target > current ? ATTACK : RELEASE;
+  return current + (target - current) * Math.min(1, rate * delta);
+};
+
+export const createAudioPlayer = (file: File): AudioPlayer => {
+  if (typeof AudioContext === 'undefined') {
+    throw new Error('This browser cannot analyse audio (Web Audio is not available)');
+  }
+
+  const url = URL.createObjectURL(file);
+  const element = new Audio(url);
+  element.loop = true;
+
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  analyser.smoothingTimeConstant = 0.6;
+  // Element -> analyser -> speakers
+  context.createMediaElementSource(element).connect(analyser);
+  analyser.connect(context.destination);
+
+  const spectrum = new Uint8Array(analyser.frequencyBinCount);
+  const binWidth = context.sampleRate / analyser.fftSize;
+  const bandLevel = ([low, high]: readonly [number, number]) => {
+    const start = Math.max(0, Math.floor(low / binWidth));
+    const end = Math.min(spectrum.length, Math.ceil(high / binWidth));
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += spectrum[i];
+    return end > start ? sum / (end - start) / 255 : 0;
+  };
+
+  let averageBass = 0;
+  let sinceBeat = BEAT_COOLDOWN;
+
+  return {
+    name: file.name,
+    play: async () => {
+      // Contexts start suspended until a user gesture
+      await context.resume();
+      await element.play();
+    },
+    pause: () => element.pause(),
+    isPlaying: () => !element.paused,
+    analyse: (levels, delta) => {
+      analyser.getByteFrequencyData(spectrum);
+      const bass = bandLevel(BANDS.bass);
+
+      levels.bass = follow(levels.bass, bass, delta);
+      levels.mid = follow(levels.mid, bandLevel(BANDS.mid), delta);
+      levels.high = follow(levels.high, bandLevel(BANDS.high), delta);
+
+      // Onset: bass jumps well above its running average
+      sinceBeat += delta;
+      if (bass > BEAT_MIN_LEVEL && bass > averageBass * BEAT_THRESHOLD && sinceBeat >= BEAT_COOLDOWN) {
+        levels.beat = 1;
+        sinceBeat = 0;
+      } else {
+        levels.beat *= Math.exp(-BEAT_DECAY * delta);
+      }
+      averageBass += (bass - averageBass) * Math.min(1, delta * 2);
+    },
+    dispose: () => {
+      element.pause();
+      context.close();
+      URL.revokeObjectURL(url);
+    }
+  };
+};
+
+// Ease every level back to rest, e.g. after the music stops
+export const settleAudioLevels = (levels: AudioLevels, delta: number) => {
+  levels.bass = follow(levels.bass, 0, delta);
+  levels.mid = follow(levels.mid, 0, delta);
+  levels.high = follow(levels.high, 0, delta);
+  levels.beat *= Math.exp(-BEAT_DECAY * delta);
+};
@@ -0,0 +1,156 @@
+// Camera shots: keyframed paths the camera director plays (see components/CameraDirector.tsx).
+// Positions run along a smooth curve through the keyframes; target and fov ease segment by segment
+import * as THREE from 'three';
+import { TreeMorphState, Vec3 } from '../types';
+import { EASINGS, EasingName } from './easing';
+import { TreeProfile, treeTop } from './treeProfile';
+
+export type ShotId = 'push-in' | 'hero-star' | 'ornament-orbit';
+
+// What the director plays: one shot, or the tour that follows the layout and cycles when idle
+export type CameraProgram = 'tour' | ShotId;
+
+export const CAMERA_PROGRAMS: CameraProgram[] = ['tour', 'push-in', 'hero-star', 'ornament-orbit'];
+
+export const DEFAULT_CAMERA_PROGRAM: CameraProgram = 'tour';
+
+export interface CameraKeyframe {
+  time: number; // Seconds from the start of the shot
+  position: Vec3; // World space
+  target: Vec3; // Where the camera looks
+  fov: number;
+  easing?: EasingName | 'linear'; // Of the segment arriving here; cubic by default
+}
+
+export interface CameraShot {
+  id: ShotId;
+  keyframes: CameraKeyframe[]; // At least two, in time order
+  loop: boolean; // Loops seamlessly back to the first keyframe; otherwise holds the last one
+}
+
+// Everything is drawn inside a group lowered by this much (see Experience)
+const SCENE_OFFSET = -2.5;
+
+// Circle of keyframes around the tree, bobbing gently between two heights
+const orbitKeyframes = (radius: number, low: number, high: number, target: Vec3, fov: number, seconds: number): CameraKeyframe[] => {
+  const steps = 12;
+  return Array.from({ length: steps }, (_, i) => {
+    const angle = (i / steps) * Math.PI * 2;
+    const y = i % 2 === 0 ? low : high;
+    return {
+      time: (i / steps) * seconds,
+      position: [Math.sin(angle) * radius, y, Math.cos(angle) * radius] as Vec3,
+      target,
+      fov,
+      easing: 'linear' as const
+    };
+  });
+};
+
+// The shots for a tree silhouette; the hero shot looks up at wherever its star sits
+export const buildShots = (profile: TreeProfile): Record<ShotId, CameraShot> => {
+  const starY = treeTop(profile) + 0.8 + SCENE_OFFSET;
+  return {
+    // Slow push-in while the tree assembles
+    'push-in': {
+      id: 'push-in',
+      loop: false,
+      keyframes: [
+        { time: 0, position: [0, 6, 40], target: [0, 1, 0], fov: 50 },
+        { time: 8, position: [0, 2, 24], target: [0, 0, 0], fov: 45 }
+      ]
+    },
+    // Low hero angle looking up at the star, kept inside the orbit limits so manual control can take over in place
+    'hero-star': {
+      id: 'hero-star',
+      loop: false,
+      keyframes: [
+        { time: 0, position: [6, -2, 14.8], target: [0, starY - 1, 0], fov: 40 },
+        { time: 12, position: [4, -1, 14], target: [0, starY - 0.5, 0], fov: 32 }
+      ]
+    },
+    // Close orbit through the ornaments
+    'ornament-orbit': {
+      id: 'ornament-orbit',
+      loop: true,
+      keyframes: orbitKeyframes(17, 0, 2.5, [0, -0.5, 0], 42, 48)
+    }
+  };
+};
+
+export const shotDuration = (shot: CameraShot) => {
+  const last = shot.keyframes[shot.keyframes.length - 1].time;
+  // A looping shot also travels from the last keyframe back to the first, one average step
+  return shot.loop ? last + last / (shot.keyframes.length - 1) : last;
+};
+
+export interface CameraPose {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  fov: number;
+}
+
+export const createCameraPose = (): CameraPose => ({ position: new THREE.Vector3(), target: new THREE.Vector3(), fov: 45 });
+
+const curveCache = new WeakMap<CameraShot, THREE.CatmullRomCurve3>();
+
+const shotCurve = (shot: CameraShot) => {
+  let curve = curveCache.get(shot);
+  if (!curve) {
+    const points = shot.keyframes.map((k) => new THREE.Vector3(...k.position));
+    curve = new THREE.CatmullRomCurve3(points, shot.loop, 'centripetal');
+    curveCache.set(shot, curve);
+  }
+  return curve;
+};
+
+const tempTarget = new THREE.Vector3();
+
+// Where the shot puts the camera `time` seconds in. Writes into `out`
+export const evaluateShot = (shot: CameraShot, time: number, out: CameraPose): CameraPose => {
+  const { keyframes } = shot;
+  const duration = shotDuration(shot);
+  const t = shot.loop ? ((time % duration) + duration) % duration : THREE.MathUtils.clamp(time, 0, duration);
+
+  // Segment i runs from keyframe i to the next (or back to the first when looping)
+  const segments = shot.loop ? keyframes.length : keyframes.length - 1;
+  let i = 0;
+  while (i < segments - 1 && t >= (keyframes[i + 1]?.time ?? duration)) i++;
+  const from = keyframes[i];
+  const to = keyframes[(i + 1) % keyframes.length];
+  const end = i + 1 < keyframes.length ? to.time : duration;
+  const linear = end > from.time ? (t - from.time) / (end - from.time) : 1;
+  const easing = to.easing ?? 'cubic';
+  const eased = easing === 'linear' ? linear : EASINGS[easing](linear);
+
+  // The curve passes keyframe i at i / segments
+  shotCurve(shot).getPoint((i + eased) / segments, out.position);
+  out.target.set(...from.target).lerp(tempTarget.set(...to.target), eased);
+  out.fov = THREE.MathUtils.lerp(from.fov, to.fov, eased);
+  return out;
+};
+
+// The tour: what each layout opens with, then what it cycles through while nobody is orbiting
+export const TOUR_OPENING: Partial<Record<TreeMorphState, ShotId>> = {
+  [TreeMorphState.TREE_SHAPE]: 'push-in'
+};
+
+const TOUR_CYCLE: Partial<Record<TreeMorphState, ShotId[]>> = {
+  [TreeMorphState.TREE_SHAPE]: ['hero-star', 'ornament-orbit']
+};
+
+// Layouts without their own shots just orbit
+const DEFAULT_TOUR: ShotId[] = ['ornament-orbit'];
+
+export const tourShots = (state: TreeMorphState) => TOUR_CYCLE[state] ?? DEFAULT_TOUR;
+
+// Time-stamped record of the last manual camera input, shared by the controls and the director
+export interface CameraActivity {
+  lastInput: number; // performance.now() of the last orbit, zoom or camera key; -Infinity before any
+}
+
+export const createCameraActivity = (): CameraActivity => ({ lastInput: -Infinity });
+
+export const markCameraInput = (activity: CameraActivity) => {
+  activity.lastInput = performance.now();
+};
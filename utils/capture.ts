@@ -0,0 +1,115 @@
+// Stills and video export of the canvas.
+// Video goes through WebCodecs + a WebM muxer so every frame carries an exact timestamp;
+// MediaRecorder stamps frames by wall clock, which stutters whenever rendering falls behind.
+import { Muxer, ArrayBufferTarget } from 'webm-muxer';
+import { TreeMorphState } from '../types';
+
+export interface CaptureSequence {
+  duration: number; // Seconds of scene time
+  // Layout changes, in scene seconds from the start of the recording
+  steps: { at: number; state: TreeMorphState }[];
+  // Camera orbit around the tree, starting at `from` seconds
+  orbit: { from: number; speed: number }; // speed in radians per second
+}
+
+// Dissolve into the nebula, assemble the tree, then a slow orbit around it
+export const MORPH_SEQUENCE: CaptureSequence = {
+  duration: 13,
+  steps: [
+    { at: 0, state: TreeMorphState.SCATTERED },
+    { at: 3.5, state: TreeMorphState.TREE_SHAPE }
+  ],
+  orbit: { from: 8.5, speed: 0.6 }
+};
+
+export interface RecordOptions {
+  width: number; // Output width in pixels, height follows the canvas aspect
+  fps: number;
+}
+
+export const CAPTURE_WIDTHS = [1920, 3840, 7680];
+
+export const isVideoRecordingSupported = () => typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the download a moment to start before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const captureFilename = (extension: string) => {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  return `merry-christmas-${stamp}.${extension}`;
+};
+
+export const canvasToPngBlob = (canvas: HTMLCanvasElement): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    // toBlob snapshots the drawing buffer synchronously, so call it right after rendering
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the canvas as PNG'))), 'image/png');
+  });
+};
+
+export interface WebmEncoder {
+  addFrame: (canvas: HTMLCanvasElement, index: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+}
+
+export const createWebmEncoder = (width: number, height: number, fps: number): WebmEncoder => {
+  if (!isVideoRecordingSupported()) {
+    throw new Error('This browser cannot encode video (WebCodecs is not available)');
+  }
+
+  // VP9 wants even dimensions; crop the odd pixel rather than rescale
+  const evenWidth = width - (width % 2);
+  const evenHeight = height - (height % 2);
+
+  const target = new ArrayBufferTarget();
+  const muxer = new Muxer({
+    target,
+    video: { codec: 'V_VP9', width: evenWidth, height: evenHeight, frameRate: fps }
+  });
+
+  let encodeError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (err) => (encodeError = err)
+  });
+  encoder.configure({
+    codec: 'vp09.00.10.08',
+    width: evenWidth,
+    height: evenHeight,
+    bitrate: Math.round(evenWidth * evenHeight * fps * 0.15),
+    framerate: fps
+  });
+
+  const frameDuration = 1e6 / fps; // Microseconds
+
+  return {
+    addFrame: async (canvas, index) => {
+      if (encodeError) throw encodeError;
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(index * frameDuration),
+        duration: Math.round(frameDuration),
+        visibleRect: { x: 0, y: 0, width: evenWidth, height: evenHeight }
+      });
+      // Keyframe every two seconds keeps seeking snappy
+      encoder.encode(frame, { keyFrame: index % (fps * 2) === 0 });
+      frame.close();
+      // Back-pressure: let the encoder catch up instead of queueing the whole video in memory
+      while (encoder.encodeQueueSize > 4) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+    },
+    finish: async () => {
+      await encoder.flush();
+      encoder.close();
+      if (encodeError) throw encodeError;
+      muxer.finalize();
+      return new Blob([target.buffer], { type: 'video/webm' });
+    }
+  };
+};
@@ -0,0 +1,75 @@
+// Choreography presets: per-particle start delays so a layout builds up in a pattern
+// instead of every particle moving at once. Delays run 0 (first to move) to 1 (last).
+
+export type ChoreographyName = 'together' | 'spiral' | 'pour' | 'radial';
+
+export interface Choreography {
+  id: ChoreographyName;
+}
+
+export const CHOREOGRAPHIES: Choreography[] = [
+  { id: 'together' }, // Everything at once, no delays
+  { id: 'spiral' }, // Winds up from the base
+  { id: 'pour' }, // Top-down from the star
+  { id: 'radial' } // Bursts out from the center
+];
+
+// Turns the spiral makes from base to tip
+const SPIRAL_TURNS = 4;
+
+interface DelayOptions {
+  // Per-particle 0..1 noise (foliage aRandom) so neighbours don't move in lockstep
+  jitter?: Float32Array;
+  // Particle order already follows the shape (ornament i / count, as in getTreeSpiralPoint);
+  // the spiral then simply walks that order
+  ordered?: boolean;
+}
+
+// Fill `out` with one delay per particle, from the positions it is heading to (xyz per particle)
+export const fillDelays = (name: ChoreographyName, positions: Float32Array, out: Float32Array, { jitter, ordered }: DelayOptions = {}) => {
+  const count = out.length;
+  if (name === 'together') {
+    out.fill(0);
+    return;
+  }
+
+  // Vertical extent of the target shape, and its farthest point from the middle
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (let i = 0; i < count; i++) {
+    minY = Math.min(minY, positions[i * 3 + 1]);
+    maxY = Math.max(maxY, positions[i * 3 + 1]);
+  }
+  const height = Math.max(maxY - minY, 0.0001);
+  const centerY = (minY + maxY) / 2;
+  const distance = (i: number) => Math.hypot(positions[i * 3], positions[i * 3 + 1] - centerY, positions[i * 3 + 2]);
+  let maxDistance = 0.0001;
+  if (name === 'radial') {
+    for (let i = 0; i < count; i++) maxDistance = Math.max(maxDistance, distance(i));
+  }
+
+  for (let i = 0; i < count; i++) {
+    const x = positions[i * 3];
+    const y = positions[i * 3 + 1];
+    const z = positions[i * 3 + 2];
+    const h = (y - minY) / height;
+    let delay: number;
+
+    if (name === 'spiral') {
+      if (ordered) {
+        delay = count > 1 ? i / (count - 1) : 0;
+      } else {
+        const turn = (Math.atan2(z, x) + Math.PI) / (Math.PI * 2);
+        // Whole turns by height, the angle fills in within each turn
+        delay = (Math.min(SPIRAL_TURNS - 1, Math.floor(h * SPIRAL_TURNS)) + turn) / SPIRAL_TURNS;
+      }
+    } else if (name === 'pour') {
+      delay = 1 - h;
+    } else {
+      delay = distance(i) / maxDistance;
+    }
+
+    if (jitter) delay = delay * 0.9 + jitter[i] * 0.1;
+    out[i] = Math.min(1, Math.max(0, delay));
+  }
+};
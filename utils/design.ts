@@ -0,0 +1,113 @@
+// The visitor's own ornament design: hand-placed ornaments with undo/redo, remembered in
+// localStorage and saved to or loaded from a JSON file. Separate from any shared room
+import { PlacedOrnament, Vec3 } from '../types';
+import { MAX_PLACED_ORNAMENTS, PLACED_SIZE_RANGE, isPlacedOrnament } from './ornaments';
+
+const STORAGE_KEY = 'design:ornaments';
+const FILE_VERSION = 1;
+// Undo steps kept
+const HISTORY_LIMIT = 100;
+
+// What a click on the tree does while editing
+export type EditorToolMode = 'place' | 'move' | 'remove';
+
+export const EDITOR_TOOL_MODES: EditorToolMode[] = ['place', 'move', 'remove'];
+
+export interface EditorTool {
+  mode: EditorToolMode;
+  type: PlacedOrnament['type'];
+  colorSlot: number; // Into the theme palette for the type
+  size: number; // Within PLACED_SIZE_RANGE
+}
+
+export const DEFAULT_EDITOR_TOOL: EditorTool = { mode: 'place', type: 'SPHERE', colorSlot: 0, size: 1 };
+
+export const EDITOR_SIZE_STEP = 0.1;
+
+export interface DesignHistory {
+  past: PlacedOrnament[][]; // Oldest first
+  present: PlacedOrnament[];
+  future: PlacedOrnament[][]; // Next redo first
+}
+
+export const createDesignHistory = (present: PlacedOrnament[]): DesignHistory => ({ past: [], present, future: [] });
+
+// A new step; whatever could be redone is dropped
+export const commitDesign = (history: DesignHistory, next: PlacedOrnament[]): DesignHistory => ({
+  past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+  present: next,
+  future: []
+});
+
+export const undoDesign = (history: DesignHistory): DesignHistory => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future]
+  };
+};
+
+export const redoDesign = (history: DesignHistory): DesignHistory => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1)
+  };
+};
+
+export const countOfType = (design: PlacedOrnament[], type: PlacedOrnament['type']) =>
+  design.reduce((n, o) => (o.type === type ? n + 1 : n), 0);
+
+// Whether the scene has room for one more of the type. Pass everything on the tree (the design and
+// any shared room's ornaments): the cap is per ornament type across both
+export const canPlace = (placed: PlacedOrnament[], type: PlacedOrnament['type']) => countOfType(placed, type) < MAX_PLACED_ORNAMENTS;
+
+export const moveInDesign = (design: PlacedOrnament[], id: number, position: Vec3) =>
+  design.map((o) => (o.id === id ? { ...o, position } : o));
+
+export const removeFromDesign = (design: PlacedOrnament[], id: number) => design.filter((o) => o.id !== id);
+
+export const clampSize = (size: number) => Math.min(PLACED_SIZE_RANGE[1], Math.max(PLACED_SIZE_RANGE[0], size));
+
+// Keeps the valid entries, at most the scene's limit per type, each id once
+const readOrnaments = (input: unknown): PlacedOrnament[] => {
+  if (!Array.isArray(input)) return [];
+  const ids = new Set<number>();
+  const counts = { SPHERE: 0, BOX: 0 };
+  return input.filter((o): o is PlacedOrnament => {
+    if (!isPlacedOrnament(o) || ids.has(o.id) || counts[o.type] >= MAX_PLACED_ORNAMENTS) return false;
+    ids.add(o.id);
+    counts[o.type]++;
+    return true;
+  }).map(({ id, type, position, colorSlot, size }) => ({ id, type, position, colorSlot, size }));
+};
+
+export const loadDesign = (): PlacedOrnament[] => {
+  try {
+    return readOrnaments(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]'));
+  } catch {
+    // Private mode or a corrupted entry: start with a bare tree
+    return [];
+  }
+};
+
+export const saveDesign = (design: PlacedOrnament[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(design));
+  } catch (err) {
+    console.warn('Could not save the ornament design', err);
+  }
+};
+
+export const exportDesign = (design: PlacedOrnament[]) => `${JSON.stringify({ version: FILE_VERSION, ornaments: design }, null, 2)}\n`;
+
+// Throws on anything that isn't a design file; invalid ornaments in one are skipped
+export const parseDesign = (text: string): PlacedOrnament[] => {
+  const parsed: unknown = JSON.parse(text);
+  if (typeof parsed !== 'object' || parsed === null || !Array.isArray((parsed as { ornaments?: unknown }).ornaments)) {
+    throw new Error('Not an ornament design file');
+  }
+  return readOrnaments((parsed as { ornaments: unknown[] }).ornaments);
+};
@@ -0,0 +1,66 @@
+// Easing curves for layout transitions. x runs 0..1; spring and elastic overshoot 1 on the way.
+// Defined only here; shaders receive either eased values or a sampled copy of the curve
+
+export type EasingName = 'cubic' | 'spring' | 'elastic' | 'bounce';
+
+export type EasingFn = (x: number) => number;
+
+const easeInOutCubic: EasingFn = (x) => (x < 0.5 ? 4 * x * x * x : 1 - Math.pow(-2 * x + 2, 3) / 2);
+
+// Critically under-damped spring, settled by x = 1
+const easeSpring: EasingFn = (x) => (x >= 1 ? 1 : 1 - Math.exp(-7 * x) * Math.cos(x * Math.PI * 2.5));
+
+const easeOutElastic: EasingFn = (x) => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  return Math.pow(2, -10 * x) * Math.sin((x * 10 - 0.75) * ((2 * Math.PI) / 3)) + 1;
+};
+
+const easeOutBounce: EasingFn = (x) => {
+  const n = 7.5625;
+  const d = 2.75;
+  if (x < 1 / d) return n * x * x;
+  if (x < 2 / d) return n * (x -= 1.5 / d) * x + 0.75;
+  if (x < 2.5 / d) return n * (x -= 2.25 / d) * x + 0.9375;
+  return n * (x -= 2.625 / d) * x + 0.984375;
+};
+
+export const EASINGS: Record<EasingName, EasingFn> = {
+  cubic: easeInOutCubic,
+  spring: easeSpring,
+  elastic: easeOutElastic,
+  bounce: easeOutBounce
+};
+
+export const EASING_NAMES = Object.keys(EASINGS) as EasingName[];
+
+// Shaders that ease per particle (staggered choreography) get the curve as a lookup table.
+// The CPU evaluates the same table when it needs to know where a particle is drawn
+export const EASING_SAMPLES = 64;
+
+const sampleCache = new Map<EasingName, Float32Array>();
+
+export const getEasingSamples = (name: EasingName): Float32Array => {
+  let samples = sampleCache.get(name);
+  if (!samples) {
+    samples = new Float32Array(EASING_SAMPLES + 1);
+    for (let i = 0; i <= EASING_SAMPLES; i++) samples[i] = EASINGS[name](i / EASING_SAMPLES);
+    sampleCache.set(name, samples);
+  }
+  return samples;
+};
+
+export const evaluateSamples = (samples: Float32Array, x: number) => {
+  const f = Math.min(1, Math.max(0, x)) * EASING_SAMPLES;
+  const i = Math.min(EASING_SAMPLES - 1, Math.floor(f));
+  return samples[i] + (samples[i + 1] - samples[i]) * (f - i);
+};
+
+// GLSL twin of evaluateSamples; needs `uniform float uEasing[EASING_SAMPLES + 1]`
+export const EASING_GLSL = `
+  float easeCurve(float x) {
+    float f = clamp(x, 0.0, 1.0) * ${EASING_SAMPLES}.0;
+    int i = int(min(${EASING_SAMPLES - 1}.0, floor(f)));
+    return mix(uEasing[i], uEasing[i + 1], f - float(i));
+  }
+`;
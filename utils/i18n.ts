@@ -0,0 +1,1229 @@
+// Overlay languages: a message catalog per locale, with its own holiday phrases (not just
+// translations of the English ones), text direction and a serif that covers its script.
+// The browser's languages pick the locale; a choice made in the overlay is remembered.
+import { PlacedOrnament, TreeMorphState } from '../types';
+import { BlinkPatternName } from './lights';
+import { WeatherId } from './weather';
+import { AdventShape, CountdownTarget } from './advent';
+import { CameraProgram } from './camera';
+import { RoomStatus, RoomToolMode } from './room';
+import { EditorToolMode } from './design';
+import { EasingName } from './easing';
+import { ChoreographyName } from './choreography';
+import { TreeProfile } from './treeProfile';
+
+export type LocaleId = 'en' | 'es' | 'de' | 'fr' | 'ja' | 'zh' | 'ar';
+
+export interface Locale {
+  id: LocaleId;
+  label: string; // In its own language, for the picker
+  dir: 'ltr' | 'rtl';
+  // Web font for scripts the default serif doesn't cover, loaded the first time it's needed
+  font?: { family: string; url: string };
+}
+
+export const LOCALES: Locale[] = [
+  { id: 'en', label: 'English', dir: 'ltr' },
+  { id: 'es', label: 'Español', dir: 'ltr' },
+  { id: 'de', label: 'Deutsch', dir: 'ltr' },
+  { id: 'fr', label: 'Français', dir: 'ltr' },
+  {
+    id: 'ja',
+    label: '日本語',
+    dir: 'ltr',
+    font: { family: 'Noto Serif JP', url: 'https://fonts.googleapis.com/css2?family=Noto+Serif+JP:wght@400;700&display=swap' }
+  },
+  {
+    id: 'zh',
+    label: '中文',
+    dir: 'ltr',
+    font: { family: 'Noto Serif SC', url: 'https://fonts.googleapis.com/css2?family=Noto+Serif+SC:wght@400;700&display=swap' }
+  },
+  {
+    id: 'ar',
+    label: 'العربية',
+    dir: 'rtl',
+    font: { family: 'Amiri', url: 'https://fonts.googleapis.com/css2?family=Amiri:wght@400;700&display=swap' }
+  }
+];
+
+export const DEFAULT_LOCALE_ID: LocaleId = 'en';
+
+export const getLocale = (id: LocaleId): Locale => LOCALES.find((l) => l.id === id) ?? LOCALES[0];
+
+const isLocaleId = (id: string): id is LocaleId => LOCALES.some((l) => l.id === id);
+
+export interface Messages {
+  // What people actually say in this market, used for the card and the greeting layout
+  holiday: {
+    title: string;
+    subtitle: string;
+    greeting: string; // Drawn in particles with a Latin-only 3D font, so Latin letters only
+  };
+  dear: (name: string) => string;
+  composer: {
+    open: string;
+    close: string;
+    recipient: string;
+    recipientPlaceholder: string;
+    title: string;
+    subtitle: string;
+    theme: string;
+    opensAs: string;
+    createLink: string;
+    linkLabel: string;
+  };
+  calendar: {
+    open: string;
+    close: string;
+    targets: Record<CountdownTarget, string>;
+    eveArrived: string;
+    countdown: (days: number, clock: string) => string;
+    day: (day: number) => string; // "December 5"
+    openMe: string;
+    opensOn: (day: number) => string;
+    readyToOpen: string;
+    locked: string;
+    progress: (opened: number, total: number) => string;
+    rewards: Record<AdventShape, string>;
+  };
+  layouts: Record<TreeMorphState, string>;
+  changePicture: string;
+  pictureError: string; // The picked or dropped file couldn't be read as a picture
+  greetingPlaceholder: string;
+  greetingLabel: string;
+  greetingUnsupported: string; // The greeting font lacks some typed characters (other scripts, ñ); they're left out
+  write: string;
+  themes: Record<string, string>; // By theme id
+  lights: string;
+  lightPatterns: Record<BlinkPatternName, string>;
+  weather: string;
+  weatherPresets: Record<WeatherId, string>;
+  play: string;
+  pause: string;
+  playMusic: string;
+  changeMusic: string;
+  musicError: string; // The picked file wouldn't play
+  seed: (seed: string) => string;
+  newTree: string;
+  quality: string;
+  qualityAuto: (tier: string) => string;
+  qualityTiers: Record<string, string>; // By tier id
+  exportScene: string;
+  language: string;
+  layoutGroup: string; // Names the row of layout buttons for screen readers
+  reduceMotion: string;
+  camera: string;
+  cameraPrograms: Record<CameraProgram, string>;
+  room: {
+    open: string;
+    close: string;
+    name: string;
+    guest: string; // Stands in for a blank name
+    roomId: string;
+    join: string;
+    create: string;
+    leave: string;
+    status: Record<RoomStatus, string>;
+    people: (others: number) => string;
+    copyLink: string;
+    copied: string;
+    tools: Record<RoomToolMode, string>;
+    types: Record<PlacedOrnament['type'], string>;
+    color: (slot: number) => string;
+    hint: string;
+  };
+  // Ornament editor; ornament types and colors are named as in the room
+  editor: {
+    open: string;
+    close: string;
+    tools: Record<EditorToolMode, string>;
+    hints: Record<EditorToolMode, string>;
+    size: string;
+    undo: string;
+    redo: string;
+    clear: string;
+    save: string; // Download as a JSON file
+    load: string;
+    placed: (count: number) => string;
+    full: string; // No room for more of the chosen type
+    loadError: string;
+  };
+  // Morph timeline bar; play and pause are shared with the music button
+  timeline: {
+    reverse: string;
+    forward: string;
+    progress: string;
+    speed: string;
+    easing: string;
+    choreography: string;
+    easings: Record<EasingName, string>;
+    choreographies: Record<ChoreographyName, string>;
+  };
+  capture: {
+    width: string;
+    rendering: (percent: number) => string;
+  };
+  closeNote: string; // Closes an ornament's note card
+  treeShape: {
+    open: string;
+    close: string;
+    presets: Record<string, string>; // By preset id
+    fields: Record<keyof TreeProfile, string>;
+  };
+  // Read out by the live region (see SceneNarrator)
+  narration: {
+    morphing: (layout: string) => string;
+    arrived: (layout: string) => string;
+    scene: (theme: string, lights: string, weather: string, decorations: number) => string;
+    ornament: (index: number, total: number, title: string) => string;
+    keyboardHelp: string;
+  };
+}
+
+const en: Messages = {
+  holiday: { title: 'Merry Christmas', subtitle: 'The Holiday Collection', greeting: 'Merry Christmas' },
+  dear: (name) => `Dear ${name}`,
+  composer: {
+    open: 'Send A Card',
+    close: 'Close Composer',
+    recipient: 'Recipient',
+    recipientPlaceholder: 'Anna & family',
+    title: 'Title',
+    subtitle: 'Subtitle',
+    theme: 'Theme',
+    opensAs: 'Opens As',
+    createLink: 'Create Link',
+    linkLabel: 'Card link (copied)'
+  },
+  calendar: {
+    open: 'Advent Calendar',
+    close: 'Close Calendar',
+    targets: { eve: 'Christmas Eve', day: 'Christmas Day' },
+    eveArrived: 'It\'s Christmas Eve',
+    countdown: (days, clock) => `${days}d ${clock}`,
+    day: (day) => `December ${day}`,
+    openMe: 'Open me',
+    opensOn: (day) => `Opens on December ${day}`,
+    readyToOpen: 'ready to open',
+    locked: 'locked',
+    progress: (opened, total) => `${opened} of ${total} on the tree`,
+    rewards: { bauble: 'Glass Bauble', star: 'Little Star', gem: 'Ice Crystal', wreath: 'Tiny Wreath', bell: 'Silver Bell', present: 'Small Present' }
+  },
+  layouts: {
+    [TreeMorphState.SCATTERED]: 'Scatter',
+    [TreeMorphState.TREE_SHAPE]: 'Tree',
+    [TreeMorphState.SPIRAL_GALAXY]: 'Galaxy',
+    [TreeMorphState.RING]: 'Ring',
+    [TreeMorphState.HEART]: 'Heart',
+    [TreeMorphState.SNOWFLAKE]: 'Snowflake',
+    [TreeMorphState.SPHERE]: 'Sphere',
+    [TreeMorphState.TEXT]: 'Greeting',
+    [TreeMorphState.IMAGE]: 'Picture'
+  },
+  changePicture: 'Change Picture',
+  pictureError: 'That picture couldn\'t be read. Try a PNG or JPEG',
+  greetingPlaceholder: 'Your greeting',
+  greetingLabel: 'Greeting text',
+  greetingUnsupported: 'Some of these characters can\'t be drawn and are left out',
+  write: 'Write',
+  themes: { classic: 'Classic Emerald', frost: 'Silver Frost', rose: 'Rose Gold', midnight: 'Midnight Blue' },
+  lights: 'Lights',
+  lightPatterns: { steady: 'Steady', chase: 'Chase', twinkle: 'Twinkle', wave: 'Color Wave', breathe: 'Breathe' },
+  weather: 'Weather',
+  weatherPresets: { none: 'Clear', flurry: 'Light Flurry', blizzard: 'Blizzard' },
+  play: 'Play',
+  pause: 'Pause',
+  playMusic: 'Play Music',
+  changeMusic: 'Change Music',
+  musicError: 'That file couldn\'t be played. Try an MP3, OGG or WAV',
+  seed: (seed) => `Seed ${seed}`,
+  newTree: 'New Tree',
+  quality: 'Quality',
+  qualityAuto: (tier) => `Auto (${tier})`,
+  qualityTiers: { low: 'Low', medium: 'Medium', high: 'High' },
+  exportScene: 'Export Scene',
+  language: 'Language',
+  layoutGroup: 'Layout',
+  reduceMotion: 'Reduce Motion',
+  camera: 'Camera',
+  cameraPrograms: { tour: 'Auto Tour', 'push-in': 'Push In', 'hero-star': 'Star', 'ornament-orbit': 'Orbit' },
+  room: {
+    open: 'Decorate Together',
+    close: 'Hide Room',
+    name: 'Your Name',
+    guest: 'Guest',
+    roomId: 'Room',
+    join: 'Join',
+    create: 'New Room',
+    leave: 'Leave',
+    status: { connecting: 'Connecting…', connected: 'Connected', offline: 'Offline, retrying', replaced: 'Open in another tab. Rejoin to use this one' },
+    people: (others) => (others === 0 ? 'Just you' : others === 1 ? '1 other here' : `${others} others here`),
+    copyLink: 'Copy Link',
+    copied: 'Link Copied',
+    tools: { view: 'Look', place: 'Place', recolor: 'Recolor', remove: 'Remove' },
+    types: { SPHERE: 'Bauble', BOX: 'Gift' },
+    color: (slot) => `Color ${slot + 1}`,
+    hint: 'Recolor and remove work on hand-placed ornaments'
+  },
+  editor: {
+    open: 'Decorate',
+    close: 'Close Editor',
+    tools: { place: 'Place', move: 'Move', remove: 'Remove' },
+    hints: {
+      place: 'Click the tree to hang an ornament',
+      move: 'Drag your ornaments across the tree',
+      remove: 'Click one of your ornaments to take it down'
+    },
+    size: 'Size',
+    undo: 'Undo',
+    redo: 'Redo',
+    clear: 'Clear',
+    save: 'Save File',
+    load: 'Open File',
+    placed: (count) => (count === 1 ? '1 ornament' : `${count} ornaments`),
+    full: 'No room for more of these',
+    loadError: "That file isn't an ornament design"
+  },
+  timeline: {
+    reverse: 'Reverse',
+    forward: 'Forward',
+    progress: 'Morph progress',
+    speed: 'Morph speed',
+    easing: 'Morph easing',
+    choreography: 'Morph choreography',
+    easings: { cubic: 'Cubic', spring: 'Spring', elastic: 'Elastic', bounce: 'Bounce' },
+    choreographies: { together: 'Together', spiral: 'Spiral', pour: 'Pour', radial: 'Radial' }
+  },
+  capture: {
+    width: 'Capture width',
+    rendering: (percent) => `Rendering ${percent}%`
+  },
+  closeNote: 'Close',
+  treeShape: {
+    open: 'Tree Shape',
+    close: 'Close Shape',
+    presets: { cone: 'Cone', fir: 'Fir', spruce: 'Spruce', wild: 'Wild' },
+    fields: {
+      height: 'Height',
+      radius: 'Width',
+      tiers: 'Tiers',
+      droop: 'Droop',
+      curve: 'Taper',
+      trunk: 'Trunk',
+      asymmetry: 'Asymmetry'
+    }
+  },
+  narration: {
+    morphing: (layout) => `Changing to ${layout}`,
+    arrived: (layout) => `${layout} is complete.`,
+    scene: (theme, lights, weather, decorations) => `Theme ${theme}, lights ${lights}, weather ${weather}, ${decorations} advent decorations.`,
+    ornament: (index, total, title) => `Ornament ${index} of ${total}: ${title}. Press Enter to read it.`,
+    keyboardHelp: 'Keyboard: number keys 1 to 9 change the layout, arrow keys orbit the camera, plus and minus zoom, [ and ] step through the ornaments with notes, Enter opens the note, Escape closes it.'
+  }
+};
+
+const es: Messages = {
+  holiday: { title: 'Feliz Navidad', subtitle: 'Y próspero Año Nuevo', greeting: 'Feliz Navidad' },
+  dear: (name) => `Para ${name}`,
+  composer: {
+    open: 'Enviar una tarjeta',
+    close: 'Cerrar tarjeta',
+    recipient: 'Destinatario',
+    recipientPlaceholder: 'Ana y familia',
+    title: 'Título',
+    subtitle: 'Subtítulo',
+    theme: 'Tema',
+    opensAs: 'Se abre como',
+    createLink: 'Crear enlace',
+    linkLabel: 'Enlace de la tarjeta (copiado)'
+  },
+  calendar: {
+    open: 'Calendario de Adviento',
+    close: 'Cerrar calendario',
+    targets: { eve: 'Nochebuena', day: 'Navidad' },
+    eveArrived: '¡Es Nochebuena!',
+    countdown: (days, clock) => `${days} d ${clock}`,
+    day: (day) => `${day} de diciembre`,
+    openMe: 'Ábreme',
+    opensOn: (day) => `Se abre el ${day} de diciembre`,
+    readyToOpen: 'lista para abrir',
+    locked: 'cerrada',
+    progress: (opened, total) => `${opened} de ${total} en el árbol`,
+    rewards: { bauble: 'Bola de cristal', star: 'Estrellita', gem: 'Cristal de hielo', wreath: 'Coronita', bell: 'Campana de plata', present: 'Regalito' }
+  },
+  layouts: {
+    [TreeMorphState.SCATTERED]: 'Dispersar',
+    [TreeMorphState.TREE_SHAPE]: 'Árbol',
+    [TreeMorphState.SPIRAL_GALAXY]: 'Galaxia',
+    [TreeMorphState.RING]: 'Anillo',
+    [TreeMorphState.HEART]: 'Corazón',
+    [TreeMorphState.SNOWFLAKE]: 'Copo de nieve',
+    [TreeMorphState.SPHERE]: 'Esfera',
+    [TreeMorphState.TEXT]: 'Saludo',
+    [TreeMorphState.IMAGE]: 'Imagen'
+  },
+  changePicture: 'Cambiar imagen',
+  pictureError: 'No se pudo leer esa imagen. Prueba con un PNG o JPEG',
+  greetingPlaceholder: 'Tu saludo',
+  greetingLabel: 'Texto del saludo',
+  greetingUnsupported: 'Algunos caracteres (como la ñ) no se pueden dibujar y se omiten',
+  write: 'Escribir',
+  themes: { classic: 'Esmeralda clásica', frost: 'Escarcha plateada', rose: 'Oro rosa', midnight: 'Azul medianoche' },
+  lights: 'Luces',
+  lightPatterns: { steady: 'Fijas', chase: 'Persecución', twinkle: 'Centelleo', wave: 'Ola de color', breathe: 'Respiración' },
+  weather: 'Clima',
+  weatherPresets: { none: 'Despejado', flurry: 'Nevisca', blizzard: 'Ventisca' },
+  play: 'Reproducir',
+  pause: 'Pausa',
+  playMusic: 'Poner música',
+  changeMusic: 'Cambiar música',
+  musicError: 'No se pudo reproducir ese archivo. Prueba con un MP3, OGG o WAV',
+  seed: (seed) => `Semilla ${seed}`,
+  newTree: 'Nuevo árbol',
+  quality: 'Calidad',
+  qualityAuto: (tier) => `Auto (${tier})`,
+  qualityTiers: { low: 'Baja', medium: 'Media', high: 'Alta' },
+  exportScene: 'Exportar escena',
+  language: 'Idioma',
+  layoutGroup: 'Forma',
+  reduceMotion: 'Reducir movimiento',
+  camera: 'Cámara',
+  cameraPrograms: { tour: 'Recorrido automático', 'push-in': 'Acercamiento', 'hero-star': 'Estrella', 'ornament-orbit': 'Órbita' },
+  room: {
+    open: 'Decorar juntos',
+    close: 'Ocultar sala',
+    name: 'Tu nombre',
+    guest: 'Invitado',
+    roomId: 'Sala',
+    join: 'Unirse',
+    create: 'Nueva sala',
+    leave: 'Salir',
+    status: { connecting: 'Conectando…', connected: 'Conectado', offline: 'Sin conexión, reintentando', replaced: 'Abierta en otra pestaña. Vuelve a unirte para usar esta' },
+    people: (others) => (others === 0 ? 'Solo tú' : others === 1 ? '1 persona más' : `${others} personas más`),
+    copyLink: 'Copiar enlace',
+    copied: 'Enlace copiado',
+    tools: { view: 'Mirar', place: 'Colocar', recolor: 'Recolorear', remove: 'Quitar' },
+    types: { SPHERE: 'Bola', BOX: 'Regalo' },
+    color: (slot) => `Color ${slot + 1}`,
+    hint: 'Recolorear y quitar solo afectan a los adornos colocados a mano'
+  },
+  editor: {
+    open: 'Decorar',
+    close: 'Cerrar editor',
+    tools: { place: 'Colocar', move: 'Mover', remove: 'Quitar' },
+    hints: {
+      place: 'Haz clic en el árbol para colgar un adorno',
+      move: 'Arrastra tus adornos por el árbol',
+      remove: 'Haz clic en uno de tus adornos para quitarlo'
+    },
+    size: 'Tamaño',
+    undo: 'Deshacer',
+    redo: 'Rehacer',
+    clear: 'Vaciar',
+    save: 'Guardar archivo',
+    load: 'Abrir archivo',
+    placed: (count) => (count === 1 ? '1 adorno' : `${count} adornos`),
+    full: 'No caben más de estos',
+    loadError: 'Ese archivo no es un diseño de adornos'
+  },
+  timeline: {
+    reverse: 'Invertir',
+    forward: 'Avanzar',
+    progress: 'Progreso de la transformación',
+    speed: 'Velocidad de la transformación',
+    easing: 'Curva de la transformación',
+    choreography: 'Coreografía de la transformación',
+    easings: { cubic: 'Cúbica', spring: 'Resorte', elastic: 'Elástica', bounce: 'Rebote' },
+    choreographies: { together: 'Juntas', spiral: 'Espiral', pour: 'Cascada', radial: 'Radial' }
+  },
+  capture: {
+    width: 'Ancho de la captura',
+    rendering: (percent) => `Renderizando ${percent}%`
+  },
+  closeNote: 'Cerrar',
+  treeShape: {
+    open: 'Forma del árbol',
+    close: 'Cerrar forma',
+    presets: { cone: 'Cono', fir: 'Abeto', spruce: 'Pícea', wild: 'Silvestre' },
+    fields: {
+      height: 'Altura',
+      radius: 'Anchura',
+      tiers: 'Pisos',
+      droop: 'Caída',
+      curve: 'Estrechamiento',
+      trunk: 'Tronco',
+      asymmetry: 'Asimetría'
+    }
+  },
+  narration: {
+    morphing: (layout) => `Cambiando a ${layout}`,
+    arrived: (layout) => `${layout} completado.`,
+    scene: (theme, lights, weather, decorations) => `Tema ${theme}, luces ${lights}, clima ${weather}, ${decorations} adornos de Adviento.`,
+    ornament: (index, total, title) => `Adorno ${index} de ${total}: ${title}. Pulsa Intro para leerlo.`,
+    keyboardHelp: 'Teclado: las teclas 1 a 9 cambian la forma, las flechas giran la cámara, más y menos acercan o alejan, [ y ] recorren los adornos con mensaje, Intro abre el mensaje y Escape lo cierra.'
+  }
+};
+
+const de: Messages = {
+  holiday: { title: 'Frohe Weihnachten', subtitle: 'und einen guten Rutsch', greeting: 'Frohe Weihnachten' },
+  dear: (name) => `Für ${name}`,
+  composer: {
+    open: 'Karte senden',
+    close: 'Karte schließen',
+    recipient: 'Empfänger',
+    recipientPlaceholder: 'Anna & Familie',
+    title: 'Titel',
+    subtitle: 'Untertitel',
+    theme: 'Design',
+    opensAs: 'Startet als',
+    createLink: 'Link erstellen',
+    linkLabel: 'Kartenlink (kopiert)'
+  },
+  calendar: {
+    open: 'Adventskalender',
+    close: 'Kalender schließen',
+    targets: { eve: 'Heiligabend', day: '1. Weihnachtstag' },
+    eveArrived: 'Heute ist Heiligabend',
+    countdown: (days, clock) => `${days} T. ${clock}`,
+    day: (day) => `${day}. Dezember`,
+    openMe: 'Öffne mich',
+    opensOn: (day) => `Öffnet am ${day}. Dezember`,
+    readyToOpen: 'bereit zum Öffnen',
+    locked: 'verschlossen',
+    progress: (opened, total) => `${opened} von ${total} am Baum`,
+    rewards: { bauble: 'Glaskugel', star: 'Sternchen', gem: 'Eiskristall', wreath: 'Kleiner Kranz', bell: 'Silberglöckchen', present: 'Kleines Geschenk' }
+  },
+  layouts: {
+    [TreeMorphState.SCATTERED]: 'Verstreuen',
+    [TreeMorphState.TREE_SHAPE]: 'Baum',
+    [TreeMorphState.SPIRAL_GALAXY]: 'Galaxie',
+    [TreeMorphState.RING]: 'Ring',
+    [TreeMorphState.HEART]: 'Herz',
+    [TreeMorphState.SNOWFLAKE]: 'Schneeflocke',
+    [TreeMorphState.SPHERE]: 'Kugel',
+    [TreeMorphState.TEXT]: 'Gruß',
+    [TreeMorphState.IMAGE]: 'Bild'
+  },
+  changePicture: 'Bild ändern',
+  pictureError: 'Dieses Bild ließ sich nicht lesen. Versuche ein PNG oder JPEG',
+  greetingPlaceholder: 'Dein Gruß',
+  greetingLabel: 'Grußtext',
+  greetingUnsupported: 'Einige Zeichen lassen sich nicht zeichnen und werden weggelassen',
+  write: 'Schreiben',
+  themes: { classic: 'Klassisch Smaragd', frost: 'Silberfrost', rose: 'Roségold', midnight: 'Mitternachtsblau' },
+  lights: 'Lichter',
+  lightPatterns: { steady: 'Dauerlicht', chase: 'Lauflicht', twinkle: 'Funkeln', wave: 'Farbwelle', breathe: 'Atmen' },
+  weather: 'Wetter',
+  weatherPresets: { none: 'Klar', flurry: 'Schneegestöber', blizzard: 'Schneesturm' },
+  play: 'Abspielen',
+  pause: 'Pause',
+  playMusic: 'Musik abspielen',
+  changeMusic: 'Musik wechseln',
+  musicError: 'Diese Datei ließ sich nicht abspielen. Versuche eine MP3-, OGG- oder WAV-Datei',
+  seed: (seed) => `Seed ${seed}`,
+  newTree: 'Neuer Baum',
+  quality: 'Qualität',
+  qualityAuto: (tier) => `Auto (${tier})`,
+  qualityTiers: { low: 'Niedrig', medium: 'Mittel', high: 'Hoch' },
+  exportScene: 'Szene exportieren',
+  language: 'Sprache',
+  layoutGroup: 'Form',
+  reduceMotion: 'Bewegung reduzieren',
+  camera: 'Kamera',
+  cameraPrograms: { tour: 'Automatische Tour', 'push-in': 'Heranfahrt', 'hero-star': 'Stern', 'ornament-orbit': 'Umkreisen' },
+  room: {
+    open: 'Gemeinsam schmücken',
+    close: 'Raum ausblenden',
+    name: 'Dein Name',
+    guest: 'Gast',
+    roomId: 'Raum',
+    join: 'Beitreten',
+    create: 'Neuer Raum',
+    leave: 'Verlassen',
+    status: { connecting: 'Verbinde…', connected: 'Verbunden', offline: 'Offline, neuer Versuch läuft', replaced: 'In einem anderen Tab geöffnet. Erneut beitreten, um diesen zu nutzen' },
+    people: (others) => (others === 0 ? 'Nur du' : others === 1 ? '1 weitere Person' : `${others} weitere Personen`),
+    copyLink: 'Link kopieren',
+    copied: 'Link kopiert',
+    tools: { view: 'Ansehen', place: 'Platzieren', recolor: 'Umfärben', remove: 'Entfernen' },
+    types: { SPHERE: 'Kugel', BOX: 'Geschenk' },
+    color: (slot) => `Farbe ${slot + 1}`,
+    hint: 'Umfärben und Entfernen wirken nur auf von Hand platzierten Schmuck'
+  },
+  editor: {
+    open: 'Schmücken',
+    close: 'Editor schließen',
+    tools: { place: 'Platzieren', move: 'Verschieben', remove: 'Entfernen' },
+    hints: {
+      place: 'Klicke auf den Baum, um Schmuck aufzuhängen',
+      move: 'Ziehe deinen Schmuck über den Baum',
+      remove: 'Klicke auf deinen Schmuck, um ihn abzunehmen'
+    },
+    size: 'Größe',
+    undo: 'Rückgängig',
+    redo: 'Wiederholen',
+    clear: 'Leeren',
+    save: 'Datei speichern',
+    load: 'Datei öffnen',
+    placed: (count) => (count === 1 ? '1 Schmuckstück' : `${count} Schmuckstücke`),
+    full: 'Kein Platz für mehr davon',
+    loadError: 'Diese Datei ist kein Schmuck-Design'
+  },
+  timeline: {
+    reverse: 'Rückwärts',
+    forward: 'Vorwärts',
+    progress: 'Fortschritt der Verwandlung',
+    speed: 'Tempo der Verwandlung',
+    easing: 'Verlauf der Verwandlung',
+    choreography: 'Choreografie der Verwandlung',
+    easings: { cubic: 'Kubisch', spring: 'Feder', elastic: 'Elastisch', bounce: 'Federnd' },
+    choreographies: { together: 'Gemeinsam', spiral: 'Spirale', pour: 'Kaskade', radial: 'Radial' }
+  },
+  capture: {
+    width: 'Breite der Aufnahme',
+    rendering: (percent) => `Wird gerendert: ${percent} %`
+  },
+  closeNote: 'Schließen',
+  treeShape: {
+    open: 'Baumform',
+    close: 'Form schließen',
+    presets: { cone: 'Kegel', fir: 'Tanne', spruce: 'Fichte', wild: 'Wild' },
+    fields: {
+      height: 'Höhe',
+      radius: 'Breite',
+      tiers: 'Etagen',
+      droop: 'Hängen',
+      curve: 'Verjüngung',
+      trunk: 'Stamm',
+      asymmetry: 'Asymmetrie'
+    }
+  },
+  narration: {
+    morphing: (layout) => `Wechsel zu ${layout}`,
+    arrived: (layout) => `${layout} ist fertig.`,
+    scene: (theme, lights, weather, decorations) => `Design ${theme}, Lichter ${lights}, Wetter ${weather}, ${decorations} Adventsanhänger.`,
+    ornament: (index, total, title) => `Anhänger ${index} von ${total}: ${title}. Mit der Eingabetaste lesen.`,
+    keyboardHelp: 'Tastatur: Die Tasten 1 bis 9 wechseln die Form, die Pfeiltasten drehen die Kamera, Plus und Minus zoomen, [ und ] springen zwischen Anhängern mit Nachricht, die Eingabetaste öffnet die Nachricht, Escape schließt sie.'
+  }
+};
+
+const fr: Messages = {
+  holiday: { title: 'Joyeux Noël', subtitle: 'et bonne année', greeting: 'Joyeux Noël' },
+  dear: (name) => `Pour ${name}`,
+  composer: {
+    open: 'Envoyer une carte',
+    close: 'Fermer la carte',
+    recipient: 'Destinataire',
+    recipientPlaceholder: 'Anna et famille',
+    title: 'Titre',
+    subtitle: 'Sous-titre',
+    theme: 'Thème',
+    opensAs: 'S\'ouvre en',
+    createLink: 'Créer le lien',
+    linkLabel: 'Lien de la carte (copié)'
+  },
+  calendar: {
+    open: 'Calendrier de l\'Avent',
+    close: 'Fermer le calendrier',
+    targets: { eve: 'Réveillon', day: 'Noël' },
+    eveArrived: 'C\'est le réveillon !',
+    countdown: (days, clock) => `${days} j ${clock}`,
+    day: (day) => `${day} décembre`,
+    openMe: 'Ouvre-moi',
+    opensOn: (day) => `S'ouvre le ${day} décembre`,
+    readyToOpen: 'prête à ouvrir',
+    locked: 'verrouillée',
+    progress: (opened, total) => `${opened} sur ${total} dans le sapin`,
+    rewards: { bauble: 'Boule de verre', star: 'Petite étoile', gem: 'Cristal de glace', wreath: 'Petite couronne', bell: 'Clochette d\'argent', present: 'Petit cadeau' }
+  },
+  layouts: {
+    [TreeMorphState.SCATTERED]: 'Disperser',
+    [TreeMorphState.TREE_SHAPE]: 'Sapin',
+    [TreeMorphState.SPIRAL_GALAXY]: 'Galaxie',
+    [TreeMorphState.RING]: 'Anneau',
+    [TreeMorphState.HEART]: 'Cœur',
+    [TreeMorphState.SNOWFLAKE]: 'Flocon',
+    [TreeMorphState.SPHERE]: 'Sphère',
+    [TreeMorphState.TEXT]: 'Message',
+    [TreeMorphState.IMAGE]: 'Image'
+  },
+  changePicture: 'Changer l\'image',
+  pictureError: 'Impossible de lire cette image. Essayez un PNG ou un JPEG',
+  greetingPlaceholder: 'Votre message',
+  greetingLabel: 'Texte du message',
+  greetingUnsupported: 'Certains caractères ne peuvent pas être dessinés et sont ignorés',
+  write: 'Écrire',
+  themes: { classic: 'Émeraude classique', frost: 'Givre argenté', rose: 'Or rose', midnight: 'Bleu nuit' },
+  lights: 'Lumières',
+  lightPatterns: { steady: 'Fixe', chase: 'Chenillard', twinkle: 'Scintillement', wave: 'Vague de couleurs', breathe: 'Respiration' },
+  weather: 'Météo',
+  weatherPresets: { none: 'Dégagé', flurry: 'Quelques flocons', blizzard: 'Tempête de neige' },
+  play: 'Lecture',
+  pause: 'Pause',
+  playMusic: 'Mettre de la musique',
+  changeMusic: 'Changer de musique',
+  musicError: 'Impossible de lire ce fichier. Essayez un MP3, OGG ou WAV',
+  seed: (seed) => `Graine ${seed}`,
+  newTree: 'Nouveau sapin',
+  quality: 'Qualité',
+  qualityAuto: (tier) => `Auto (${tier})`,
+  qualityTiers: { low: 'Basse', medium: 'Moyenne', high: 'Haute' },
+  exportScene: 'Exporter la scène',
+  language: 'Langue',
+  layoutGroup: 'Forme',
+  reduceMotion: 'Réduire les animations',
+  camera: 'Caméra',
+  cameraPrograms: { tour: 'Visite automatique', 'push-in': 'Travelling avant', 'hero-star': 'Étoile', 'ornament-orbit': 'Orbite' },
+  room: {
+    open: 'Décorer ensemble',
+    close: 'Masquer le salon',
+    name: 'Votre nom',
+    guest: 'Invité',
+    roomId: 'Salon',
+    join: 'Rejoindre',
+    create: 'Nouveau salon',
+    leave: 'Quitter',
+    status: { connecting: 'Connexion…', connected: 'Connecté', offline: 'Hors ligne, nouvelle tentative', replaced: 'Ouverte dans un autre onglet. Rejoignez-la pour utiliser celui-ci' },
+    people: (others) => (others === 0 ? 'Vous êtes seul' : others === 1 ? '1 autre personne' : `${others} autres personnes`),
+    copyLink: 'Copier le lien',
+    copied: 'Lien copié',
+    tools: { view: 'Regarder', place: 'Placer', recolor: 'Recolorer', remove: 'Retirer' },
+    types: { SPHERE: 'Boule', BOX: 'Cadeau' },
+    color: (slot) => `Couleur ${slot + 1}`,
+    hint: 'Recolorer et retirer ne touchent que les décorations placées à la main'
+  },
+  editor: {
+    open: 'Décorer',
+    close: "Fermer l'éditeur",
+    tools: { place: 'Placer', move: 'Déplacer', remove: 'Retirer' },
+    hints: {
+      place: "Cliquez sur le sapin pour accrocher une décoration",
+      move: 'Faites glisser vos décorations sur le sapin',
+      remove: "Cliquez sur une de vos décorations pour l'enlever"
+    },
+    size: 'Taille',
+    undo: 'Annuler',
+    redo: 'Rétablir',
+    clear: 'Tout retirer',
+    save: 'Enregistrer le fichier',
+    load: 'Ouvrir un fichier',
+    placed: (count) => (count <= 1 ? `${count} décoration` : `${count} décorations`),
+    full: 'Plus de place pour celles-ci',
+    loadError: "Ce fichier n'est pas un décor de sapin"
+  },
+  timeline: {
+    reverse: 'Inverser',
+    forward: 'Avancer',
+    progress: 'Progression de la transformation',
+    speed: 'Vitesse de la transformation',
+    easing: 'Courbe de la transformation',
+    choreography: 'Chorégraphie de la transformation',
+    easings: { cubic: 'Cubique', spring: 'Ressort', elastic: 'Élastique', bounce: 'Rebond' },
+    choreographies: { together: 'Ensemble', spiral: 'Spirale', pour: 'Cascade', radial: 'Radial' }
+  },
+  capture: {
+    width: 'Largeur de la capture',
+    rendering: (percent) => `Rendu : ${percent} %`
+  },
+  closeNote: 'Fermer',
+  treeShape: {
+    open: 'Forme du sapin',
+    close: 'Fermer la forme',
+    presets: { cone: 'Cône', fir: 'Sapin', spruce: 'Épicéa', wild: 'Sauvage' },
+    fields: {
+      height: 'Hauteur',
+      radius: 'Largeur',
+      tiers: 'Étages',
+      droop: 'Retombée',
+      curve: 'Effilement',
+      trunk: 'Tronc',
+      asymmetry: 'Asymétrie'
+    }
+  },
+  narration: {
+    morphing: (layout) => `Passage à : ${layout}`,
+    arrived: (layout) => `${layout} : terminé.`,
+    scene: (theme, lights, weather, decorations) => `Thème ${theme}, lumières ${lights}, météo ${weather}, ${decorations} décorations de l'Avent.`,
+    ornament: (index, total, title) => `Décoration ${index} sur ${total} : ${title}. Appuyez sur Entrée pour la lire.`,
+    keyboardHelp: 'Clavier : les touches 1 à 9 changent la forme, les flèches font tourner la caméra, plus et moins zooment, [ et ] parcourent les décorations à message, Entrée ouvre le message, Échap le ferme.'
+  }
+};
+
+const ja: Messages = {
+  // "Merry Christmas" is how it's written on cards in Japan too
+  holiday: { title: 'メリークリスマス', subtitle: '素敵なホリデーシーズンを', greeting: 'Merry Christmas' },
+  dear: (name) => `${name}さんへ`,
+  composer: {
+    open: 'カードを送る',
+    close: 'カードを閉じる',
+    recipient: '宛先',
+    recipientPlaceholder: 'アンナとご家族',
+    title: 'タイトル',
+    subtitle: 'サブタイトル',
+    theme: 'テーマ',
+    opensAs: '最初の表示',
+    createLink: 'リンクを作成',
+    linkLabel: 'カードのリンク（コピー済み）'
+  },
+  calendar: {
+    open: 'アドベントカレンダー',
+    close: 'カレンダーを閉じる',
+    targets: { eve: 'クリスマスイブ', day: 'クリスマス' },
+    eveArrived: '今日はクリスマスイブ',
+    countdown: (days, clock) => `${days}日 ${clock}`,
+    day: (day) => `12月${day}日`,
+    openMe: '開けてね',
+    opensOn: (day) => `12月${day}日に開きます`,
+    readyToOpen: '開けられます',
+    locked: 'まだ開きません',
+    progress: (opened, total) => `ツリーの飾り ${opened} / ${total}`,
+    rewards: { bauble: 'ガラスのオーナメント', star: '小さな星', gem: '氷の結晶', wreath: 'ミニリース', bell: '銀のベル', present: '小さなプレゼント' }
+  },
+  layouts: {
+    [TreeMorphState.SCATTERED]: '散らす',
+    [TreeMorphState.TREE_SHAPE]: 'ツリー',
+    [TreeMorphState.SPIRAL_GALAXY]: '銀河',
+    [TreeMorphState.RING]: 'リング',
+    [TreeMorphState.HEART]: 'ハート',
+    [TreeMorphState.SNOWFLAKE]: '雪の結晶',
+    [TreeMorphState.SPHERE]: '球体',
+    [TreeMorphState.TEXT]: 'メッセージ',
+    [TreeMorphState.IMAGE]: '写真'
+  },
+  changePicture: '写真を変更',
+  pictureError: 'この画像は読み込めませんでした。PNG か JPEG をお試しください',
+  greetingPlaceholder: 'メッセージを入力',
+  greetingLabel: 'メッセージ',
+  greetingUnsupported: '描けない文字は省かれます（ラテン文字のみ対応）',
+  write: '描く',
+  themes: { classic: 'クラシック・エメラルド', frost: 'シルバーフロスト', rose: 'ローズゴールド', midnight: 'ミッドナイトブルー' },
+  lights: 'ライト',
+  lightPatterns: { steady: '点灯', chase: 'チェイス', twinkle: 'きらめき', wave: 'カラーウェーブ', breathe: 'ゆらぎ' },
+  weather: '天気',
+  weatherPresets: { none: '晴れ', flurry: '小雪', blizzard: '吹雪' },
+  play: '再生',
+  pause: '一時停止',
+  playMusic: '音楽を再生',
+  changeMusic: '曲を変更',
+  musicError: 'このファイルは再生できませんでした。MP3、OGG、WAV をお試しください',
+  seed: (seed) => `シード ${seed}`,
+  newTree: '新しいツリー',
+  quality: '画質',
+  qualityAuto: (tier) => `自動（${tier}）`,
+  qualityTiers: { low: '低', medium: '中', high: '高' },
+  exportScene: 'シーンを書き出す',
+  language: '言語',
+  layoutGroup: '形',
+  reduceMotion: '動きを減らす',
+  camera: 'カメラ',
+  cameraPrograms: { tour: '自動ツアー', 'push-in': 'ズームイン', 'hero-star': '星', 'ornament-orbit': '周回' },
+  room: {
+    open: 'みんなで飾りつけ',
+    close: 'ルームを閉じる',
+    name: 'あなたの名前',
+    guest: 'ゲスト',
+    roomId: 'ルーム',
+    join: '参加',
+    create: '新しいルーム',
+    leave: '退出',
+    status: { connecting: '接続中…', connected: '接続済み', offline: 'オフライン・再接続中', replaced: '別のタブで開かれています。このタブで使うには参加し直してください' },
+    people: (others) => (others === 0 ? 'あなただけ' : `ほかに${others}人`),
+    copyLink: 'リンクをコピー',
+    copied: 'コピーしました',
+    tools: { view: '見る', place: '置く', recolor: '色を変える', remove: '外す' },
+    types: { SPHERE: 'ボール', BOX: 'プレゼント' },
+    color: (slot) => `色 ${slot + 1}`,
+    hint: '色の変更と削除は手で置いた飾りだけに使えます'
+  },
+  editor: {
+    open: '飾りつけ',
+    close: 'エディターを閉じる',
+    tools: { place: '置く', move: '動かす', remove: '外す' },
+    hints: {
+      place: 'ツリーをクリックして飾りを掛けます',
+      move: '自分の飾りをツリーの上でドラッグします',
+      remove: '自分の飾りをクリックすると外れます'
+    },
+    size: 'サイズ',
+    undo: '元に戻す',
+    redo: 'やり直す',
+    clear: 'すべて外す',
+    save: 'ファイルに保存',
+    load: 'ファイルを開く',
+    placed: (count) => `飾り ${count} 個`,
+    full: 'この種類はもう置けません',
+    loadError: '飾りつけのファイルではありません'
+  },
+  timeline: {
+    reverse: '逆再生',
+    forward: '順再生',
+    progress: '変形の進行',
+    speed: '変形の速さ',
+    easing: '変形のイージング',
+    choreography: '変形の振り付け',
+    easings: { cubic: 'キュービック', spring: 'スプリング', elastic: 'エラスティック', bounce: 'バウンス' },
+    choreographies: { together: '一斉に', spiral: 'らせん', pour: '流れ落ちる', radial: '放射状' }
+  },
+  capture: {
+    width: 'キャプチャの幅',
+    rendering: (percent) => `レンダリング中 ${percent}%`
+  },
+  closeNote: '閉じる',
+  treeShape: {
+    open: 'ツリーの形',
+    close: '形を閉じる',
+    presets: { cone: '円錐', fir: 'モミ', spruce: 'トウヒ', wild: 'ワイルド' },
+    fields: {
+      height: '高さ',
+      radius: '幅',
+      tiers: '段数',
+      droop: '垂れ',
+      curve: '先細り',
+      trunk: '幹',
+      asymmetry: '非対称'
+    }
+  },
+  narration: {
+    morphing: (layout) => `${layout}に変化中`,
+    arrived: (layout) => `${layout}が完成しました。`,
+    scene: (theme, lights, weather, decorations) => `テーマ ${theme}、ライト ${lights}、天気 ${weather}、アドベントの飾り ${decorations}個。`,
+    ornament: (index, total, title) => `オーナメント ${index} / ${total}：${title}。Enterキーで読めます。`,
+    keyboardHelp: 'キーボード：1〜9キーで形を切り替え、矢印キーでカメラを回転、＋と−でズーム、[ と ] でメッセージ付きのオーナメントを選択、Enterで開き、Escapeで閉じます。'
+  }
+};
+
+const zh: Messages = {
+  holiday: { title: '圣诞快乐', subtitle: '温馨佳节，幸福安康', greeting: 'Merry Christmas' },
+  dear: (name) => `致 ${name}`,
+  composer: {
+    open: '寄一张贺卡',
+    close: '关闭贺卡',
+    recipient: '收件人',
+    recipientPlaceholder: '安娜和家人',
+    title: '标题',
+    subtitle: '副标题',
+    theme: '主题',
+    opensAs: '打开时显示',
+    createLink: '生成链接',
+    linkLabel: '贺卡链接（已复制）'
+  },
+  calendar: {
+    open: '降临节日历',
+    close: '关闭日历',
+    targets: { eve: '平安夜', day: '圣诞节' },
+    eveArrived: '今天是平安夜',
+    countdown: (days, clock) => `${days}天 ${clock}`,
+    day: (day) => `12月${day}日`,
+    openMe: '打开我',
+    opensOn: (day) => `12月${day}日开启`,
+    readyToOpen: '可以打开',
+    locked: '未解锁',
+    progress: (opened, total) => `树上装饰 ${opened} / ${total}`,
+    rewards: { bauble: '玻璃彩球', star: '小星星', gem: '冰晶', wreath: '小花环', bell: '银铃', present: '小礼物' }
+  },
+  layouts: {
+    [TreeMorphState.SCATTERED]: '散开',
+    [TreeMorphState.TREE_SHAPE]: '圣诞树',
+    [TreeMorphState.SPIRAL_GALAXY]: '星系',
+    [TreeMorphState.RING]: '圆环',
+    [TreeMorphState.HEART]: '爱心',
+    [TreeMorphState.SNOWFLAKE]: '雪花',
+    [TreeMorphState.SPHERE]: '球体',
+    [TreeMorphState.TEXT]: '祝福语',
+    [TreeMorphState.IMAGE]: '图片'
+  },
+  changePicture: '更换图片',
+  pictureError: '无法读取这张图片，请换用 PNG 或 JPEG',
+  greetingPlaceholder: '输入祝福语',
+  greetingLabel: '祝福语',
+  greetingUnsupported: '部分字符无法绘制，将被省略（仅支持拉丁字母）',
+  write: '生成',
+  themes: { classic: '经典翡翠', frost: '银色霜华', rose: '玫瑰金', midnight: '午夜蓝' },
+  lights: '彩灯',
+  lightPatterns: { steady: '常亮', chase: '追逐', twinkle: '闪烁', wave: '彩色波浪', breathe: '呼吸' },
+  weather: '天气',
+  weatherPresets: { none: '晴朗', flurry: '小雪', blizzard: '暴风雪' },
+  play: '播放',
+  pause: '暂停',
+  playMusic: '播放音乐',
+  changeMusic: '更换音乐',
+  musicError: '无法播放这个文件，请换用 MP3、OGG 或 WAV',
+  seed: (seed) => `种子 ${seed}`,
+  newTree: '换一棵树',
+  quality: '画质',
+  qualityAuto: (tier) => `自动（${tier}）`,
+  qualityTiers: { low: '低', medium: '中', high: '高' },
+  exportScene: '导出场景',
+  language: '语言',
+  layoutGroup: '造型',
+  reduceMotion: '减少动画',
+  camera: '镜头',
+  cameraPrograms: { tour: '自动巡游', 'push-in': '推近', 'hero-star': '星星', 'ornament-orbit': '环绕' },
+  room: {
+    open: '一起装饰',
+    close: '隐藏房间',
+    name: '你的名字',
+    guest: '访客',
+    roomId: '房间',
+    join: '加入',
+    create: '新房间',
+    leave: '离开',
+    status: { connecting: '连接中…', connected: '已连接', offline: '离线，正在重试', replaced: '已在另一个标签页中打开。重新加入即可在此使用' },
+    people: (others) => (others === 0 ? '只有你' : `还有 ${others} 人`),
+    copyLink: '复制链接',
+    copied: '已复制',
+    tools: { view: '查看', place: '放置', recolor: '换色', remove: '移除' },
+    types: { SPHERE: '彩球', BOX: '礼物' },
+    color: (slot) => `颜色 ${slot + 1}`,
+    hint: '换色和移除只对手动放置的装饰有效'
+  },
+  editor: {
+    open: '装饰',
+    close: '关闭编辑器',
+    tools: { place: '放置', move: '移动', remove: '移除' },
+    hints: {
+      place: '点击圣诞树挂上装饰',
+      move: '在树上拖动你的装饰',
+      remove: '点击你的装饰将其取下'
+    },
+    size: '大小',
+    undo: '撤销',
+    redo: '重做',
+    clear: '清空',
+    save: '保存文件',
+    load: '打开文件',
+    placed: (count) => `${count} 个装饰`,
+    full: '这种装饰放不下了',
+    loadError: '这不是装饰设计文件'
+  },
+  timeline: {
+    reverse: '倒放',
+    forward: '正放',
+    progress: '变形进度',
+    speed: '变形速度',
+    easing: '变形缓动',
+    choreography: '变形编排',
+    easings: { cubic: '三次', spring: '弹簧', elastic: '弹性', bounce: '弹跳' },
+    choreographies: { together: '同时', spiral: '螺旋', pour: '倾泻', radial: '放射' }
+  },
+  capture: {
+    width: '截图宽度',
+    rendering: (percent) => `正在渲染 ${percent}%`
+  },
+  closeNote: '关闭',
+  treeShape: {
+    open: '树形',
+    close: '关闭树形',
+    presets: { cone: '圆锥', fir: '冷杉', spruce: '云杉', wild: '野生' },
+    fields: {
+      height: '高度',
+      radius: '宽度',
+      tiers: '层数',
+      droop: '下垂',
+      curve: '收窄',
+      trunk: '树干',
+      asymmetry: '不对称'
+    }
+  },
+  narration: {
+    morphing: (layout) => `正在变为${layout}`,
+    arrived: (layout) => `${layout}已完成。`,
+    scene: (theme, lights, weather, decorations) => `主题 ${theme}，彩灯 ${lights}，天气 ${weather}，降临节装饰 ${decorations} 个。`,
+    ornament: (index, total, title) => `装饰 ${index} / ${total}：${title}。按 Enter 阅读。`,
+    keyboardHelp: '键盘：数字键 1 至 9 切换造型，方向键旋转镜头，加号和减号缩放，[ 和 ] 切换带留言的装饰，Enter 打开留言，Esc 关闭。'
+  }
+};
+
+const ar: Messages = {
+  holiday: { title: 'عيد ميلاد مجيد', subtitle: 'وكل عام وأنتم بخير', greeting: 'Merry Christmas' },
+  dear: (name) => `إلى ${name}`,
+  composer: {
+    open: 'أرسل بطاقة',
+    close: 'إغلاق البطاقة',
+    recipient: 'المرسل إليه',
+    recipientPlaceholder: 'آنا والعائلة',
+    title: 'العنوان',
+    subtitle: 'العنوان الفرعي',
+    theme: 'السمة',
+    opensAs: 'تفتح على',
+    createLink: 'إنشاء رابط',
+    linkLabel: 'رابط البطاقة (تم النسخ)'
+  },
+  calendar: {
+    open: 'تقويم المجيء',
+    close: 'إغلاق التقويم',
+    targets: { eve: 'ليلة الميلاد', day: 'يوم الميلاد' },
+    eveArrived: 'إنها ليلة الميلاد',
+    countdown: (days, clock) => `${days} يوم ${clock}`,
+    day: (day) => `${day} ديسمبر`,
+    openMe: 'افتحني',
+    opensOn: (day) => `يفتح في ${day} ديسمبر`,
+    readyToOpen: 'جاهز للفتح',
+    locked: 'مقفل',
+    progress: (opened, total) => `${opened} من ${total} على الشجرة`,
+    rewards: { bauble: 'كرة زجاجية', star: 'نجمة صغيرة', gem: 'بلورة ثلج', wreath: 'إكليل صغير', bell: 'جرس فضي', present: 'هدية صغيرة' }
+  },
+  layouts: {
+    [TreeMorphState.SCATTERED]: 'تبعثر',
+    [TreeMorphState.TREE_SHAPE]: 'شجرة',
+    [TreeMorphState.SPIRAL_GALAXY]: 'مجرة',
+    [TreeMorphState.RING]: 'حلقة',
+    [TreeMorphState.HEART]: 'قلب',
+    [TreeMorphState.SNOWFLAKE]: 'ندفة ثلج',
+    [TreeMorphState.SPHERE]: 'كرة',
+    [TreeMorphState.TEXT]: 'تهنئة',
+    [TreeMorphState.IMAGE]: 'صورة'
+  },
+  changePicture: 'تغيير الصورة',
+  pictureError: 'تعذّرت قراءة هذه الصورة. جرّب PNG أو JPEG',
+  greetingPlaceholder: 'اكتب تهنئتك',
+  greetingLabel: 'نص التهنئة',
+  greetingUnsupported: 'بعض الأحرف لا يمكن رسمها وستُحذف (الحروف اللاتينية فقط)',
+  write: 'اكتب',
+  themes: { classic: 'زمرد كلاسيكي', frost: 'صقيع فضي', rose: 'ذهب وردي', midnight: 'أزرق منتصف الليل' },
+  lights: 'الأضواء',
+  lightPatterns: { steady: 'ثابتة', chase: 'مطاردة', twinkle: 'وميض', wave: 'موجة ألوان', breathe: 'تنفس' },
+  weather: 'الطقس',
+  weatherPresets: { none: 'صافٍ', flurry: 'ثلج خفيف', blizzard: 'عاصفة ثلجية' },
+  play: 'تشغيل',
+  pause: 'إيقاف مؤقت',
+  playMusic: 'تشغيل الموسيقى',
+  changeMusic: 'تغيير الموسيقى',
+  musicError: 'تعذّر تشغيل هذا الملف. جرّب MP3 أو OGG أو WAV',
+  seed: (seed) => `البذرة ${seed}`,
+  newTree: 'شجرة جديدة',
+  quality: 'الجودة',
+  qualityAuto: (tier) => `تلقائي (${tier})`,
+  qualityTiers: { low: 'منخفضة', medium: 'متوسطة', high: 'عالية' },
+  exportScene: 'تصدير المشهد',
+  language: 'اللغة',
+  layoutGroup: 'الشكل',
+  reduceMotion: 'تقليل الحركة',
+  camera: 'الكاميرا',
+  cameraPrograms: { tour: 'جولة تلقائية', 'push-in': 'اقتراب', 'hero-star': 'النجمة', 'ornament-orbit': 'دوران' },
+  room: {
+    open: 'لنزيّن معًا',
+    close: 'إخفاء الغرفة',
+    name: 'اسمك',
+    guest: 'ضيف',
+    roomId: 'الغرفة',
+    join: 'انضمام',
+    create: 'غرفة جديدة',
+    leave: 'مغادرة',
+    status: { connecting: 'جارٍ الاتصال…', connected: 'متصل', offline: 'غير متصل، جارٍ إعادة المحاولة', replaced: 'مفتوحة في علامة تبويب أخرى. انضم مجددًا لاستخدام هذه' },
+    people: (others) => (others === 0 ? 'أنت فقط' : others === 1 ? 'شخص آخر هنا' : `${others} آخرون هنا`),
+    copyLink: 'نسخ الرابط',
+    copied: 'تم النسخ',
+    tools: { view: 'عرض', place: 'وضع', recolor: 'تغيير اللون', remove: 'إزالة' },
+    types: { SPHERE: 'كرة', BOX: 'هدية' },
+    color: (slot) => `اللون ${slot + 1}`,
+    hint: 'تغيير اللون والإزالة يعملان على الزينة الموضوعة يدويًا فقط'
+  },
+  editor: {
+    open: 'زيّن',
+    close: 'إغلاق المحرر',
+    tools: { place: 'ضع', move: 'انقل', remove: 'أزل' },
+    hints: {
+      place: 'انقر على الشجرة لتعليق زينة',
+      move: 'اسحب زينتك على الشجرة',
+      remove: 'انقر على إحدى زيناتك لإزالتها'
+    },
+    size: 'الحجم',
+    undo: 'تراجع',
+    redo: 'إعادة',
+    clear: 'مسح الكل',
+    save: 'حفظ الملف',
+    load: 'فتح ملف',
+    placed: (count) => `عدد الزينات: ${count}`,
+    full: 'لا مكان لمزيد من هذا النوع',
+    loadError: 'هذا الملف ليس تصميم زينة'
+  },
+  timeline: {
+    reverse: 'عكس',
+    forward: 'للأمام',
+    progress: 'تقدّم التحوّل',
+    speed: 'سرعة التحوّل',
+    easing: 'منحنى التحوّل',
+    choreography: 'تنسيق التحوّل',
+    easings: { cubic: 'تكعيبي', spring: 'نابض', elastic: 'مرن', bounce: 'ارتداد' },
+    choreographies: { together: 'معًا', spiral: 'حلزوني', pour: 'انسكاب', radial: 'شعاعي' }
+  },
+  capture: {
+    width: 'عرض الالتقاط',
+    rendering: (percent) => `جارٍ العرض ${percent}%`
+  },
+  closeNote: 'إغلاق',
+  treeShape: {
+    open: 'شكل الشجرة',
+    close: 'إغلاق الشكل',
+    presets: { cone: 'مخروط', fir: 'تنّوب', spruce: 'بيسية', wild: 'برّي' },
+    fields: {
+      height: 'الارتفاع',
+      radius: 'العرض',
+      tiers: 'الطبقات',
+      droop: 'التدلّي',
+      curve: 'الاستدقاق',
+      trunk: 'الجذع',
+      asymmetry: 'عدم التماثل'
+    }
+  },
+  narration: {
+    morphing: (layout) => `جارٍ التحول إلى ${layout}`,
+    arrived: (layout) => `اكتمل ${layout}.`,
+    scene: (theme, lights, weather, decorations) => `السمة ${theme}، الأضواء ${lights}، الطقس ${weather}، ${decorations} من زينة المجيء.`,
+    ornament: (index, total, title) => `الزينة ${index} من ${total}: ${title}. اضغط Enter لقراءتها.`,
+    keyboardHelp: 'لوحة المفاتيح: المفاتيح من 1 إلى 9 تغيّر الشكل، والأسهم تدير الكاميرا، وزائد وناقص للتكبير والتصغير، و[ و] للتنقل بين الزينة ذات الرسائل، وEnter لفتح الرسالة، وEscape لإغلاقها.'
+  }
+};
+
+const CATALOG: Record<LocaleId, Messages> = { en, es, de, fr, ja, zh, ar };
+
+export const getMessages = (id: LocaleId): Messages => CATALOG[id];
+
+const STORAGE_KEY = 'locale';
+
+// The picker's choice if there is one, otherwise the first browser language we have
+export const detectLocale = (): LocaleId => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved && isLocaleId(saved)) return saved;
+  } catch {
+    // Storage blocked: fall back to the browser
+  }
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const language of languages) {
+    const primary = language.toLowerCase().split('-')[0]; // "zh-TW" -> "zh", "de-AT" -> "de"
+    if (isLocaleId(primary)) return primary;
+  }
+  return DEFAULT_LOCALE_ID;
+};
+
+export const saveLocale = (id: LocaleId) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch (err) {
+    console.warn('Could not save the language', err);
+  }
+};
+
+// Language, direction and serif of the page (see --font-serif in index.html)
+export const applyLocaleToDocument = (locale: Locale) => {
+  const root = document.documentElement;
+  root.lang = locale.id;
+  root.dir = locale.dir;
+  if (locale.font) {
+    const id = `font-${locale.id}`;
+    if (!document.getElementById(id)) {
+      const link = document.createElement('link');
+      link.id = id;
+      link.rel = 'stylesheet';
+      link.href = locale.font.url;
+      document.head.appendChild(link);
+    }
+    root.style.setProperty('--font-serif', `'${locale.font.family}', 'Times New Roman', serif`);
+  } else {
+    root.style.removeProperty('--font-serif');
+  }
+  const { holiday } = getMessages(locale.id);
+  document.title = `${holiday.title} - ${holiday.subtitle}`;
+};
@@ -0,0 +1,32 @@
+// Loading local pictures for the image morph target
+
+const SUPPORTED_TYPES = ['image/png', 'image/jpeg'];
+
+// Longest side after downsampling. Plenty for 14k particles and keeps sampling cheap
+const MAX_SIZE = 160;
+
+export const isSupportedImage = (file: File) => SUPPORTED_TYPES.includes(file.type);
+
+// Decode a local PNG/JPEG and downsample it to raw RGBA pixels
+export const loadImagePixels = async (file: File, maxSize = MAX_SIZE): Promise<ImageData> => {
+  if (!isSupportedImage(file)) {
+    throw new Error(`Unsupported image type "${file.type || file.name}", use a PNG or JPEG`);
+  }
+
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Could not create a 2D canvas to read the image');
+  }
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return ctx.getImageData(0, 0, width, height);
+};
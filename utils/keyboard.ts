@@ -0,0 +1,7 @@
+// Shared by the keyboard handlers: keys typed into a field belong to the field
+
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName));
+
+// Ctrl/Cmd/Alt combinations stay with the browser
+export const hasModifier = (e: KeyboardEvent) => e.ctrlKey || e.metaKey || e.altKey;
@@ -0,0 +1,143 @@
+import { TreeMorphState, Vec3 } from '../types';
+import {
+  RandomFn,
+  getRandomSpherePoint,
+  getTreePoint,
+  getTreeSpiralPoint,
+  getSphereShellPoint,
+  getFibonacciSpherePoint,
+  getRingPoint,
+  getGalaxyPoint,
+  getHeartPoint,
+  getSnowflakePoint,
+  getFramePoint,
+  fitImageExtents,
+  sampleImagePoints,
+  ImageSample,
+  CONSTANTS
+} from './math';
+import { TextShape, createTextShape, DEFAULT_GREETING } from './text';
+import { TreeProfile, DEFAULT_TREE_PROFILE } from './treeProfile';
+
+// Runtime inputs some layouts need (e.g. the typed greeting)
+export interface LayoutContext {
+  text: TextShape;
+  image: ImageData | null; // Dropped-in picture, downsampled
+  profile: TreeProfile; // Tree silhouette, edited live in the overlay
+}
+
+export const createLayoutContext = (greeting: string, image: ImageData | null = null, profile: TreeProfile = DEFAULT_TREE_PROFILE): LayoutContext => ({
+  text: createTextShape(greeting),
+  image,
+  profile
+});
+
+// Default greeting; enough for callers that only build fixed (non-dynamic) layouts
+export const DEFAULT_LAYOUT_CONTEXT: LayoutContext = createLayoutContext(DEFAULT_GREETING);
+
+export interface LayoutDefinition {
+  state: TreeMorphState;
+  label: string; // Shown in the overlay
+  floating: boolean; // Particles drift and spin while in this layout
+  dynamic?: boolean; // Reads the LayoutContext, so it's rebuilt when the context changes
+  // Volumetric point for foliage particle i
+  foliagePoint: (random: RandomFn, i: number, count: number, context: LayoutContext) => Vec3;
+  // Optional whole-buffer sampler for layouts that also color the foliage.
+  // Returning null falls back to foliagePoint and the theme colors
+  foliageSample?: (random: RandomFn, count: number, context: LayoutContext) => ImageSample | null;
+  // Ornament point; ornaments are spread evenly along the shape using i / count
+  ornamentPoint: (random: RandomFn, i: number, count: number, type: 'SPHERE' | 'BOX', context: LayoutContext) => Vec3;
+}
+
+// Registry of every layout. Order here is the order the overlay lists them in
+export const LAYOUTS: LayoutDefinition[] = [
+  {
+    state: TreeMorphState.SCATTERED,
+    label: 'Scatter',
+    floating: true,
+    foliagePoint: (random) => getRandomSpherePoint(random, CONSTANTS.SCATTER_RADIUS),
+    ornamentPoint: (random) => getRandomSpherePoint(random, CONSTANTS.SCATTER_RADIUS)
+  },
+  {
+    state: TreeMorphState.TREE_SHAPE,
+    label: 'Tree',
+    floating: false,
+    dynamic: true,
+    foliagePoint: (random, _i, _count, { profile }) => getTreePoint(random, profile),
+    ornamentPoint: (random, i, count, type, { profile }) => {
+      const tree = getTreeSpiralPoint(i, count, profile, type === 'BOX' ? 0.8 : 0.9);
+      // Jitter tree position
+      tree[0] += (random() - 0.5) * 0.5;
+      tree[2] += (random() - 0.5) * 0.5;
+      return tree;
+    }
+  },
+  {
+    state: TreeMorphState.SPIRAL_GALAXY,
+    label: 'Galaxy',
+    floating: false,
+    foliagePoint: (random) => getGalaxyPoint(random, random(), 9),
+    ornamentPoint: (random, i, count) => getGalaxyPoint(random, (i + 0.5) / count, 9)
+  },
+  {
+    state: TreeMorphState.RING,
+    label: 'Ring',
+    floating: false,
+    foliagePoint: (random) => getRingPoint(random, random(), 7, 0.9),
+    ornamentPoint: (random, i, count, type) => getRingPoint(random, (i + 0.5) / count, 7, type === 'BOX' ? 0.6 : 1.2)
+  },
+  {
+    state: TreeMorphState.HEART,
+    label: 'Heart',
+    floating: false,
+    // Bias towards the outline so the silhouette reads clearly
+    foliagePoint: (random) => getHeartPoint(random, random(), Math.pow(random(), 0.3), 0.4, 2.5),
+    ornamentPoint: (random, i, count) => getHeartPoint(random, (i + 0.5) / count, 1, 0.42, 0.6)
+  },
+  {
+    state: TreeMorphState.SNOWFLAKE,
+    label: 'Snowflake',
+    floating: false,
+    foliagePoint: (random) => getSnowflakePoint(random, random(), 0.5),
+    ornamentPoint: (random, i, count) => getSnowflakePoint(random, (i + 0.5) / count, 0.2)
+  },
+  {
+    state: TreeMorphState.SPHERE,
+    label: 'Sphere',
+    floating: false,
+    foliagePoint: (random) => getSphereShellPoint(random, 6, 1),
+    ornamentPoint: (_, i, count, type) => getFibonacciSpherePoint(i, count, type === 'BOX' ? 6.4 : 6.7)
+  },
+  {
+    state: TreeMorphState.TEXT,
+    label: 'Greeting',
+    floating: false,
+    dynamic: true,
+    // Foliage fills the glyphs, ornaments settle along the letter outlines
+    foliagePoint: (random, _i, _count, { text }) => text.fillPoint(random),
+    ornamentPoint: (random, i, count, _type, { text }) => text.outlinePoint(random, (i + 0.5) / count)
+  },
+  {
+    state: TreeMorphState.IMAGE,
+    label: 'Picture',
+    floating: false,
+    dynamic: true,
+    // Without a picture the particles just stay a nebula
+    foliagePoint: (random) => getRandomSpherePoint(random, CONSTANTS.SCATTER_RADIUS),
+    foliageSample: (random, count, { image }) => (image ? sampleImagePoints(random, image, count) : null),
+    // Ornaments frame the picture
+    ornamentPoint: (random, i, count, type, { image }) => {
+      if (!image) return getRandomSpherePoint(random, CONSTANTS.SCATTER_RADIUS);
+      const [w, h] = fitImageExtents(image.width, image.height);
+      return getFramePoint((i + 0.5) / count, w, h, type === 'BOX' ? 0.9 : 0.5);
+    }
+  }
+];
+
+export const getLayout = (state: TreeMorphState): LayoutDefinition => {
+  const layout = LAYOUTS.find((l) => l.state === state);
+  if (!layout) {
+    throw new Error(`No layout registered for ${state}`);
+  }
+  return layout;
+};
@@ -0,0 +1,43 @@
+// String light blink patterns. The pattern runs on the GPU; pick one by id at runtime
+
+export type BlinkPatternName = 'steady' | 'chase' | 'twinkle' | 'wave' | 'breathe';
+
+export interface BlinkPattern {
+  id: BlinkPatternName;
+  label: string;
+}
+
+// Order matters: the shader receives the index (see BLINK_GLSL)
+export const BLINK_PATTERNS: BlinkPattern[] = [
+  { id: 'steady', label: 'Steady' },
+  { id: 'chase', label: 'Chase' }, // Runs of lit bulbs racing up the string
+  { id: 'twinkle', label: 'Twinkle' }, // Every bulb flickers on its own
+  { id: 'wave', label: 'Color Wave' }, // Colors scroll along the string
+  { id: 'breathe', label: 'Breathe' } // All bulbs fade in and out together
+];
+
+export const DEFAULT_BLINK_PATTERN: BlinkPatternName = 'twinkle';
+
+export const blinkPatternIndex = (name: BlinkPatternName) => BLINK_PATTERNS.findIndex((p) => p.id === name);
+
+// Colors per string; matches Theme.bulbs
+export const BULB_COLORS = 4;
+
+// Lit runs along the string in the chase pattern
+const CHASE_RUNS = 12;
+
+// path: 0..1 along the string, seed: 0..1 per bulb
+export const BLINK_GLSL = `
+    float bulbBrightness(int pattern, float path, float seed, float time) {
+      if (pattern == 1) return 0.1 + 0.9 * smoothstep(0.55, 0.9, fract(path * ${CHASE_RUNS}.0 - time * 0.8));
+      if (pattern == 2) return 0.2 + 0.8 * pow(0.5 + 0.5 * sin(time * (1.5 + seed * 3.0) + seed * 40.0), 6.0);
+      if (pattern == 4) return 0.3 + 0.7 * (0.5 + 0.5 * sin(time * 1.6));
+      return 1.0;
+    }
+
+    // Position in the ${BULB_COLORS}-color palette: a fixed slot per bulb, or scrolling for the wave
+    float bulbPalette(int pattern, float path, float slot, float time) {
+      if (pattern == 3) return fract(path * 3.0 - time * 0.25) * ${BULB_COLORS}.0;
+      return slot;
+    }
+`;
@@ -1,61 +1,307 @@
 import * as THREE from 'three';
 
-// Constants for tree shape
-const TREE_HEIGHT = 12;
-const TREE_RADIUS_BASE = 5.5;
+import { TreeProfile, branchDroop, canopyRadius, trunkHeight, trunkRadius, trunkShare } from './treeProfile';
+
+// Constants for the scatter nebula (the tree's shape lives in treeProfile.ts)
 const SCATTER_RADIUS = 18;
 
+// A random source with the same contract as Math.random: floats in [0, 1)
+export type RandomFn = () => number;
+
+// Hash an arbitrary seed string into a 32-bit integer (FNV-1a)
+export const hashSeed = (seed: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Seedable PRNG (mulberry32). Same seed -> same sequence on every device
+export const createRandom = (seed: string): RandomFn => {
+  let a = hashSeed(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Index of the first cumulative weight >= target (binary search), for weighted sampling
+export const pickWeightedIndex = (cumulative: ArrayLike<number>, target: number): number => {
+  let lo = 0;
+  let hi = cumulative.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (cumulative[mid] < target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
 // Helper to get a random point inside a sphere
-export const getRandomSpherePoint = (radius: number): [number, number, number] => {
-  const u = Math.random();
-  const v = Math.random();
+export const getRandomSpherePoint = (random: RandomFn, radius: number): [number, number, number] => {
+  const u = random();
+  const v = random();
   const theta = 2 * Math.PI * u;
   const phi = Math.acos(2 * v - 1);
-  const r = Math.cbrt(Math.random()) * radius;
+  const r = Math.cbrt(random()) * radius;
   const x = r * Math.sin(phi) * Math.cos(theta);
   const y = r * Math.sin(phi) * Math.sin(theta);
   const z = r * Math.cos(phi);
   return [x, y, z];
 };
 
-// Helper to get a point on a cone surface (The Tree) with volume
-export const getTreePoint = (height: number, radiusBase: number, yOffset = -5): [number, number, number] => {
-  // Normalized height (0 at bottom, 1 at top)
-  const h = Math.random(); 
-  const y = h * height;
-  
-  // Radius at this height (linear taper)
-  const currentRadius = (1 - h) * radiusBase;
-  
+// Helper to get a point in the tree volume, following its silhouette (see treeProfile.ts)
+export const getTreePoint = (random: RandomFn, profile: TreeProfile, yOffset = -5): [number, number, number] => {
+  const base = trunkHeight(profile);
+
+  // A few particles outline the bare trunk
+  if (profile.trunk > 0 && random() < trunkShare(profile)) {
+    const angle = random() * Math.PI * 2;
+    const r = Math.sqrt(random()) * trunkRadius(profile);
+    return [r * Math.cos(angle), random() * base + yOffset, r * Math.sin(angle)];
+  }
+
+  // Normalized canopy height (0 at the lowest branches, 1 at the tip)
+  const h = random();
+  const y = base + h * (profile.height - base);
+
   // Random angle
-  const angle = Math.random() * Math.PI * 2;
-  
+  const angle = random() * Math.PI * 2;
+
   // Volume distribution (mostly surface but some depth)
-  const r = Math.sqrt(Math.random()) * currentRadius;
+  const reach = Math.sqrt(random());
+  const r = reach * canopyRadius(profile, h, angle);
 
   const x = r * Math.cos(angle);
   const z = r * Math.sin(angle);
 
-  return [x, y + yOffset, z];
+  return [x, y - branchDroop(profile, reach) + yOffset, z];
 };
 
-// Helper to spiral points for ornaments (more aesthetically pleasing than random volume)
-export const getTreeSpiralPoint = (t: number, totalPoints: number, height: number, radiusBase: number, yOffset = -5): [number, number, number] => {
+// Helper to spiral points for ornaments (more aesthetically pleasing than random volume).
+// reach < 1 tucks them in from the branch tips
+export const getTreeSpiralPoint = (t: number, totalPoints: number, profile: TreeProfile, reach = 1, yOffset = -5): [number, number, number] => {
+  const base = trunkHeight(profile);
   const hRatio = t / totalPoints; // 0 to 1
-  const y = hRatio * height + yOffset;
-  const r = (1 - hRatio) * radiusBase;
-  
+
   // Golden angle spiral
-  const angle = t * 2.39996; 
-  
+  const angle = t * 2.39996;
+  const r = canopyRadius(profile, hRatio, angle) * reach;
+  const y = base + hRatio * (profile.height - base) - branchDroop(profile, reach) + yOffset;
+
   const x = r * Math.cos(angle);
   const z = r * Math.sin(angle);
-  
+
   return [x, y, z];
 };
 
+// Helper for a point resting on the outside of the canopy (where snow settles)
+export const getTreeSurfacePoint = (random: RandomFn, profile: TreeProfile, yOffset = -5): [number, number, number] => {
+  const base = trunkHeight(profile);
+  const h = random();
+  const angle = random() * Math.PI * 2;
+  const reach = 0.92 + random() * 0.1;
+  const r = canopyRadius(profile, h, angle) * reach;
+  const y = base + h * (profile.height - base) - branchDroop(profile, reach) + yOffset;
+  return [r * Math.cos(angle), y, r * Math.sin(angle)];
+};
+
+// Helper to pull any point onto the outside of the canopy, keeping its height and its direction
+// from the trunk. Hand-placed ornaments snap here; reach < 1 tucks them in like the spiral
+export const snapToTreeSurface = (point: [number, number, number], profile: TreeProfile, reach = 0.95, yOffset = -5): [number, number, number] => {
+  const base = trunkHeight(profile);
+  const canopy = profile.height - base;
+  // Not quite the tip, where there is no surface left to hang from
+  const h = THREE.MathUtils.clamp((point[1] - yOffset - base) / canopy, 0, 0.97);
+  const angle = Math.atan2(point[2], point[0]);
+  const r = canopyRadius(profile, h, angle) * reach;
+  const y = base + h * canopy - branchDroop(profile, reach) + yOffset;
+  return [r * Math.cos(angle), y, r * Math.sin(angle)];
+};
+
+// Swags per turn of a garland, and how far it sags between them
+const GARLAND_SWAGS = 3;
+const GARLAND_SAG = 0.35;
+
+// Helper for a garland wrapped around the tree: t in [0, 1] winds from the lowest branches
+// towards the tip, hugging the silhouette and sagging between the points it hangs from
+export const getGarlandPoint = (t: number, profile: TreeProfile, turns: number, reach = 1, phase = 0, yOffset = -5): [number, number, number] => {
+  const base = trunkHeight(profile);
+  // Keep clear of the very bottom and the tip, where the star sits
+  const h = 0.04 + t * 0.86;
+  const angle = t * turns * Math.PI * 2 + phase;
+  const r = canopyRadius(profile, h, angle) * reach;
+  const swag = t * turns * GARLAND_SWAGS;
+  const sag = Math.sin((swag - Math.floor(swag)) * Math.PI) * GARLAND_SAG;
+  const y = base + h * (profile.height - base) - branchDroop(profile, Math.min(1, reach)) - sag + yOffset;
+  return [r * Math.cos(angle), y, r * Math.sin(angle)];
+};
+
+// Helper for a point in a thick spherical shell, centered on the tree's middle
+export const getSphereShellPoint = (random: RandomFn, radius: number, thickness: number, yOffset = 1): [number, number, number] => {
+  const theta = random() * Math.PI * 2;
+  const phi = Math.acos(2 * random() - 1);
+  const r = radius + (random() - 0.5) * thickness;
+  return [
+    r * Math.sin(phi) * Math.cos(theta),
+    r * Math.cos(phi) + yOffset,
+    r * Math.sin(phi) * Math.sin(theta)
+  ];
+};
+
+// Helper for evenly spread points on a sphere (fibonacci lattice), used for ornaments
+export const getFibonacciSpherePoint = (i: number, total: number, radius: number, yOffset = 1): [number, number, number] => {
+  const y = 1 - ((i + 0.5) / total) * 2;
+  const r = Math.sqrt(1 - y * y);
+  const angle = i * 2.39996; // Golden angle
+  return [r * Math.cos(angle) * radius, y * radius + yOffset, r * Math.sin(angle) * radius];
+};
+
+// Helper for a point inside a torus standing upright in the XY plane (faces the camera)
+export const getRingPoint = (random: RandomFn, t: number, majorRadius: number, tubeRadius: number, yOffset = 1): [number, number, number] => {
+  const angle = t * Math.PI * 2;
+  const tubeAngle = random() * Math.PI * 2;
+  const r = Math.sqrt(random()) * tubeRadius;
+  const ring = majorRadius + r * Math.cos(tubeAngle);
+  return [ring * Math.cos(angle), ring * Math.sin(angle) + yOffset, r * Math.sin(tubeAngle)];
+};
+
+// Helper for a spiral galaxy: logarithmic arms in a disc tilted towards the camera
+export const getGalaxyPoint = (random: RandomFn, t: number, radius: number, arms = 3, yOffset = 1): [number, number, number] => {
+  const arm = Math.floor(random() * arms);
+  const dist = 0.4 + t * radius;
+  // Arms twist more the further out they go, spread gets wider too
+  const spread = (random() - 0.5) * (0.3 + t * 0.9);
+  const angle = (arm / arms) * Math.PI * 2 + dist * 0.55 + spread;
+  // Thin disc with a puffier core
+  const thickness = (random() - 0.5) * (1.2 * (1 - t) + 0.2);
+
+  const x = dist * Math.cos(angle);
+  const z = dist * Math.sin(angle);
+  // Tilt the disc ~30 degrees so it reads as a galaxy from the default camera
+  const tilt = 0.5;
+  return [x, thickness * Math.cos(tilt) + z * Math.sin(tilt) + yOffset, z * Math.cos(tilt) - thickness * Math.sin(tilt)];
+};
+
+// Helper for a heart in the XY plane. fill = 1 sits on the outline, 0 at the center
+export const getHeartPoint = (random: RandomFn, t: number, fill: number, scale: number, depth: number, yOffset = 1): [number, number, number] => {
+  const a = t * Math.PI * 2;
+  const hx = 16 * Math.pow(Math.sin(a), 3);
+  const hy = 13 * Math.cos(a) - 5 * Math.cos(2 * a) - 2 * Math.cos(3 * a) - Math.cos(4 * a);
+  // Puffier in the middle, thin at the outline
+  const z = (random() - 0.5) * depth * (1 - fill * 0.7);
+  // The curve spans roughly y = -17..12, shift so it's centered
+  return [hx * fill * scale, (hy * fill + 2.5) * scale + yOffset, z];
+};
+
+// Six-fold snowflake: main arms with two pairs of side branches, as line segments
+const SNOWFLAKE_SEGMENTS: [number, number, number, number][] = (() => {
+  const segments: [number, number, number, number][] = [];
+  for (let arm = 0; arm < 6; arm++) {
+    const a = (arm / 6) * Math.PI * 2 + Math.PI / 2;
+    const dx = Math.cos(a);
+    const dy = Math.sin(a);
+    segments.push([0, 0, dx * 7, dy * 7]);
+    // Side branches at 40% and 70% of the arm, angled 60 degrees outwards
+    [[0.4, 2.2], [0.7, 1.4]].forEach(([at, len]) => {
+      const bx = dx * 7 * at;
+      const by = dy * 7 * at;
+      [-1, 1].forEach((side) => {
+        const ba = a + side * (Math.PI / 3);
+        segments.push([bx, by, bx + Math.cos(ba) * len, by + Math.sin(ba) * len]);
+      });
+    });
+  }
+  return segments;
+})();
+
+const SNOWFLAKE_LENGTHS = SNOWFLAKE_SEGMENTS.map(([x1, y1, x2, y2]) => Math.hypot(x2 - x1, y2 - y1));
+const SNOWFLAKE_TOTAL = SNOWFLAKE_LENGTHS.reduce((sum, l) => sum + l, 0);
+
+// Helper for a point along the snowflake. t walks the whole pattern so ornaments spread evenly
+export const getSnowflakePoint = (random: RandomFn, t: number, thickness: number, yOffset = 1): [number, number, number] => {
+  let d = t * SNOWFLAKE_TOTAL;
+  let i = 0;
+  while (i < SNOWFLAKE_SEGMENTS.length - 1 && d > SNOWFLAKE_LENGTHS[i]) {
+    d -= SNOWFLAKE_LENGTHS[i];
+    i++;
+  }
+  const [x1, y1, x2, y2] = SNOWFLAKE_SEGMENTS[i];
+  const f = Math.min(1, d / SNOWFLAKE_LENGTHS[i]);
+  return [
+    x1 + (x2 - x1) * f + (random() - 0.5) * thickness,
+    y1 + (y2 - y1) * f + (random() - 0.5) * thickness + yOffset,
+    (random() - 0.5) * thickness
+  ];
+};
+
+// World-space size of a picture fitted into the layout box (keeps aspect ratio)
+export const fitImageExtents = (width: number, height: number, maxWidth = 16, maxHeight = 11): [number, number] => {
+  const scale = Math.min(maxWidth / width, maxHeight / height);
+  return [width * scale, height * scale];
+};
+
+// Helper to walk the rectangle around a fitted picture (ornaments frame it)
+export const getFramePoint = (t: number, width: number, height: number, margin = 0.6, yOffset = 1): [number, number, number] => {
+  const w = width + margin * 2;
+  const h = height + margin * 2;
+  let d = t * 2 * (w + h);
+  if (d < w) return [d - w / 2, h / 2 + yOffset, 0];
+  d -= w;
+  if (d < h) return [w / 2, h / 2 - d + yOffset, 0];
+  d -= h;
+  if (d < w) return [w / 2 - d, -h / 2 + yOffset, 0];
+  d -= w;
+  return [-w / 2, -h / 2 + d + yOffset, 0];
+};
+
+export interface ImageSample {
+  positions: Float32Array; // xyz per particle
+  colors: Float32Array; // Linear rgb per particle
+}
+
+// Turn a (downsampled) picture into exactly `count` particles.
+// Pixels are picked proportionally to their opacity so transparent logos keep their shape
+export const sampleImagePoints = (random: RandomFn, image: ImageData, count: number, yOffset = 1): ImageSample => {
+  const { width, height, data } = image;
+  const cumulative = new Float32Array(width * height);
+  let total = 0;
+  for (let i = 0; i < width * height; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    total += alpha > 0.1 ? alpha : 0;
+    cumulative[i] = total;
+  }
+
+  const [worldW, worldH] = fitImageExtents(width, height);
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const color = new THREE.Color();
+
+  for (let i = 0; i < count; i++) {
+    // Fully transparent image: fall back to a uniform pick
+    const pixel = total > 0 ? pickWeightedIndex(cumulative, random() * total) : Math.floor(random() * width * height);
+    const px = (pixel % width) + random();
+    const py = Math.floor(pixel / width) + random();
+
+    positions[i * 3] = (px / width - 0.5) * worldW;
+    positions[i * 3 + 1] = (0.5 - py / height) * worldH + yOffset; // Image rows run top to bottom
+    positions[i * 3 + 2] = (random() - 0.5) * 0.4;
+
+    // Pixels are sRGB, the shader works in linear
+    color.setRGB(data[pixel * 4] / 255, data[pixel * 4 + 1] / 255, data[pixel * 4 + 2] / 255, THREE.SRGBColorSpace);
+    colors[i * 3] = color.r;
+    colors[i * 3 + 1] = color.g;
+    colors[i * 3 + 2] = color.b;
+  }
+
+  return { positions, colors };
+};
+
 export const CONSTANTS = {
-  TREE_HEIGHT,
-  TREE_RADIUS_BASE,
   SCATTER_RADIUS
 };
\ No newline at end of file
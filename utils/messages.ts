@@ -0,0 +1,25 @@
+// Notes hidden inside ornaments, authored in data/ornament-messages.json
+import messagesJson from '../data/ornament-messages.json';
+
+export interface OrnamentMessage {
+  id: number; // OrnamentData.id the note is attached to
+  title: string;
+  message: string;
+  from?: string;
+}
+
+const MESSAGES = new Map<number, OrnamentMessage>();
+(messagesJson as OrnamentMessage[]).forEach((entry) => {
+  if (MESSAGES.has(entry.id)) {
+    console.warn(`Duplicate ornament message for id ${entry.id}, keeping the first one`);
+    return;
+  }
+  MESSAGES.set(entry.id, entry);
+});
+
+export const getOrnamentMessage = (id: number): OrnamentMessage | null => MESSAGES.get(id) ?? null;
+
+export const hasOrnamentMessage = (id: number): boolean => MESSAGES.has(id);
+
+// Ids with a note, in order; keyboard focus steps through these
+export const getOrnamentMessageIds = (): number[] => [...MESSAGES.keys()].sort((a, b) => a - b);
@@ -0,0 +1,15 @@
+// Reduced motion: follows the system setting until the visitor picks one in the overlay.
+// Ambient movement (drift, twinkle, shimmer, auto-rotation) stops; morphs between layouts still play
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+export const prefersReducedMotion = () => window.matchMedia?.(QUERY).matches ?? false;
+
+// Called when the system setting changes. Returns the unsubscribe function
+export const subscribeReducedMotion = (listener: (reduced: boolean) => void) => {
+  const media = window.matchMedia?.(QUERY);
+  if (!media) return () => undefined;
+  const onChange = (e: MediaQueryListEvent) => listener(e.matches);
+  media.addEventListener('change', onChange);
+  return () => media.removeEventListener('change', onChange);
+};
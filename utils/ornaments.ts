@@ -0,0 +1,31 @@
+// Hand-placed ornaments (see PlacedOrnament in types.ts): ids, limits and validation of
+// ornaments that arrive from outside, e.g. over the network
+import { PlacedOrnament } from '../types';
+
+// Seeded ornaments are numbered from 0; placed ones draw from far above, so the two never meet
+const PLACED_ID_BASE = 2 ** 32;
+const PLACED_ID_RANGE = 2 ** 48;
+
+// Per ornament type, on top of the seeded ones. The room relay enforces the same limit
+export const MAX_PLACED_ORNAMENTS = 200;
+
+export const PLACED_SIZE_RANGE: [number, number] = [0.5, 2.5];
+
+// Random, so ornaments placed on different devices never share an id
+export const createPlacedId = () => PLACED_ID_BASE + Math.floor(Math.random() * PLACED_ID_RANGE);
+
+export const isPlacedId = (id: number) => id >= PLACED_ID_BASE;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isPlacedOrnament = (value: unknown): value is PlacedOrnament => {
+  if (typeof value !== 'object' || value === null) return false;
+  const o = value as Record<string, unknown>;
+  return (
+    isFiniteNumber(o.id) && isPlacedId(o.id) &&
+    (o.type === 'SPHERE' || o.type === 'BOX') &&
+    Array.isArray(o.position) && o.position.length === 3 && o.position.every(isFiniteNumber) &&
+    Number.isInteger(o.colorSlot) && (o.colorSlot as number) >= 0 &&
+    isFiniteNumber(o.size) && o.size >= PLACED_SIZE_RANGE[0] && o.size <= PLACED_SIZE_RANGE[1]
+  );
+};
@@ -0,0 +1,161 @@
+// Quality tiers and the frame-time governor that steps between them.
+// Particle buffers are always built at full size; lower tiers only draw a prefix of them,
+// so stepping tiers never regenerates a layout.
+
+export interface QualityTier {
+  id: string;
+  label: string;
+  // Fraction of each particle layer that is drawn
+  particles: {
+    foliage: number;
+    stars: number;
+    dust: number;
+    snow: number;
+  };
+  dpr: number | [number, number]; // Passed straight to the Canvas
+  shadows: boolean; // Key light and ornaments cast shadows
+  effects: {
+    bloom: boolean;
+    vignette: boolean;
+    noise: boolean;
+  };
+}
+
+// Lowest to highest; the governor steps through them in this order
+export const QUALITY_TIERS: QualityTier[] = [
+  {
+    id: 'low',
+    label: 'Low',
+    particles: { foliage: 0.35, stars: 0.3, dust: 0.3, snow: 0.3 },
+    dpr: 1,
+    shadows: false,
+    effects: { bloom: false, vignette: false, noise: false }
+  },
+  {
+    id: 'medium',
+    label: 'Medium',
+    particles: { foliage: 0.6, stars: 0.6, dust: 0.6, snow: 0.6 },
+    dpr: [1, 1.5],
+    shadows: false,
+    effects: { bloom: true, vignette: true, noise: false }
+  },
+  {
+    id: 'high',
+    label: 'High',
+    particles: { foliage: 1, stars: 1, dust: 1, snow: 1 },
+    dpr: [1, 2],
+    shadows: true,
+    effects: { bloom: true, vignette: true, noise: true }
+  }
+];
+
+// Start at the top and let slow devices step down
+export const DEFAULT_TIER_ID = 'high';
+
+// 'auto' lets the governor pick; a tier id forces that tier
+export type QualitySetting = 'auto' | string;
+
+export const getQualityTier = (id: string): QualityTier => QUALITY_TIERS.find((t) => t.id === id) ?? QUALITY_TIERS[QUALITY_TIERS.length - 1];
+
+// Number of particles to draw out of `total` for a tier fraction (always at least one)
+export const scaledCount = (total: number, fraction: number) => Math.max(1, Math.round(total * fraction));
+
+export interface GovernorOptions {
+  downgradeMs: number; // Average frame time above this steps down...
+  upgradeMs: number; // ...below this steps up. The gap between the two is the hysteresis
+  downgradeWindow: number; // Seconds of frames averaged before stepping down
+  upgradeWindow: number; // Longer, so a brief quiet moment doesn't bounce back up
+  settleTime: number; // Seconds ignored after a change (shader compiles, buffer uploads)
+}
+
+const DEFAULT_GOVERNOR_OPTIONS: GovernorOptions = {
+  downgradeMs: 1000 / 45,
+  upgradeMs: 1000 / 57,
+  downgradeWindow: 2,
+  upgradeWindow: 6,
+  settleTime: 1.5
+};
+
+// Frames longer than this are tab switches or breakpoints, not rendering cost
+const MAX_SAMPLE_SECONDS = 0.25;
+
+export interface QualityGovernor {
+  // Feed one frame's duration in seconds. Returns the new tier index when it should change, otherwise null
+  sample: (delta: number) => number | null;
+  // Re-anchor on a tier (e.g. after a manual override ends)
+  reset: (tierIndex: number) => void;
+}
+
+// Average frame time over back-to-back windows of fixed length
+const createWindow = (seconds: number) => {
+  let elapsed = 0;
+  let frames = 0;
+  return {
+    // Average frame time in ms once the window is full, otherwise null. A full window starts over
+    add: (delta: number): number | null => {
+      elapsed += delta;
+      frames++;
+      if (elapsed < seconds) return null;
+      const averageMs = (elapsed / frames) * 1000;
+      elapsed = 0;
+      frames = 0;
+      return averageMs;
+    },
+    clear: () => {
+      elapsed = 0;
+      frames = 0;
+    },
+    setLength: (next: number) => (seconds = next)
+  };
+};
+
+export const createQualityGovernor = (initialIndex: number, options: Partial<GovernorOptions> = {}): QualityGovernor => {
+  const opts = { ...DEFAULT_GOVERNOR_OPTIONS, ...options };
+  const top = QUALITY_TIERS.length - 1;
+  let index = initialIndex;
+  let settle = opts.settleTime;
+  // Every step down doubles how long a tier must hold before trying the next one up (capped)
+  let downgrades = 0;
+  const downWindow = createWindow(opts.downgradeWindow);
+  const upWindow = createWindow(opts.upgradeWindow);
+
+  const restart = () => {
+    settle = opts.settleTime;
+    downWindow.clear();
+    upWindow.clear();
+    upWindow.setLength(opts.upgradeWindow * Math.pow(2, Math.min(downgrades, 3)));
+  };
+
+  const change = (next: number) => {
+    index = next;
+    restart();
+    return index;
+  };
+
+  return {
+    sample: (delta) => {
+      if (delta <= 0 || delta > MAX_SAMPLE_SECONDS) return null;
+      if (settle > 0) {
+        settle -= delta;
+        return null;
+      }
+
+      const downAverage = downWindow.add(delta);
+      if (downAverage !== null && downAverage > opts.downgradeMs && index > 0) {
+        downgrades++;
+        return change(index - 1);
+      }
+
+      const upAverage = upWindow.add(delta);
+      if (upAverage !== null && upAverage < opts.upgradeMs && index < top) {
+        return change(index + 1);
+      }
+      return null;
+    },
+    reset: (tierIndex) => {
+      index = tierIndex;
+      downgrades = 0;
+      restart();
+    }
+  };
+};
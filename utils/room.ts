@@ -0,0 +1,302 @@
+// Shared decorating rooms: everyone who opens the same room id decorates one tree together,
+// through the relay in server/relay.mjs (npm run relay).
+//
+// Conflicts: the relay applies changes in the order they arrive and echoes each one to everybody,
+// the sender included. A placed ornament keeps the id it was given, so placing twice is harmless;
+// recolors are last-writer-wins; a change to an ornament someone already removed is rejected.
+// Until its echo arrives a local change is shown on top of the relay's state ("pending").
+// Reconnecting: the relay sends its full state, pending changes are replayed on top of it and
+// sent again. The relay ignores repeats, so nothing is duplicated.
+import { PlacedOrnament, Vec3 } from '../types';
+import { hashSeed } from './math';
+import { isPlacedOrnament } from './ornaments';
+
+const ROOM_PARAM = 'room';
+const CLIENT_ID_KEY = 'room:client';
+const NAME_KEY = 'room:name';
+
+// Relay address: VITE_ROOM_SERVER, or the relay's default port on this host
+const DEFAULT_PORT = 8787;
+
+// Reconnect backoff, seconds
+const RETRY_MIN = 1;
+const RETRY_MAX = 10;
+// Cursor updates are sent at most this often (ms)
+const CURSOR_INTERVAL = 50;
+// Close code the relay uses for a connection replaced by a newer one with the same client id
+const REPLACED_CODE = 4000;
+
+// 'replaced': the relay handed this client's id to a newer connection, e.g. a duplicated tab
+// (sessionStorage, and with it the id, is copied). No reconnect, or the two would take turns
+export type RoomStatus = 'connecting' | 'connected' | 'offline' | 'replaced';
+
+export interface RoomPeer {
+  id: string;
+  name: string;
+}
+
+export interface SharedOrnament extends PlacedOrnament {
+  owner: string; // Client id of whoever placed it
+  ownerName: string;
+}
+
+export type RoomOp =
+  | { kind: 'place'; opId: string; ornament: PlacedOrnament }
+  | { kind: 'recolor'; opId: string; id: number; colorSlot: number }
+  | { kind: 'remove'; opId: string; id: number };
+
+// Wire format, one JSON object per WebSocket message
+type ClientMessage =
+  | { type: 'join'; room: string; clientId: string; name: string }
+  | { type: 'op'; op: RoomOp }
+  | { type: 'cursor'; point: Vec3 | null };
+
+type ServerMessage =
+  | { type: 'welcome'; ornaments: SharedOrnament[]; peers: RoomPeer[] }
+  | { type: 'op'; op: RoomOp; by: string; byName: string }
+  | { type: 'reject'; opId: string }
+  | { type: 'peer'; peer: RoomPeer }
+  | { type: 'leave'; id: string }
+  | { type: 'cursor'; id: string; point: Vec3 | null };
+
+export interface RoomState {
+  status: RoomStatus;
+  ornaments: SharedOrnament[]; // The relay's state with this client's pending changes on top
+  peers: RoomPeer[]; // Everyone else in the room
+}
+
+export interface RoomClient {
+  selfId: string;
+  // Other people's pointers on the tree, refreshed as they move. Read every frame, never re-renders
+  cursors: Map<string, Vec3>;
+  getState: () => RoomState;
+  // Called with every change. Returns the unsubscribe function
+  subscribe: (listener: (state: RoomState) => void) => () => void;
+  place: (ornament: PlacedOrnament) => void;
+  recolor: (id: number, colorSlot: number) => void;
+  remove: (id: number) => void;
+  moveCursor: (point: Vec3 | null) => void; // Tree space, null when the pointer leaves the tree
+  close: () => void;
+}
+
+// What a click does while in a room. Recolor and remove only touch hand-placed ornaments
+export type RoomToolMode = 'view' | 'place' | 'recolor' | 'remove';
+
+export const ROOM_TOOL_MODES: RoomToolMode[] = ['view', 'place', 'recolor', 'remove'];
+
+export interface RoomTool {
+  mode: RoomToolMode;
+  type: PlacedOrnament['type']; // What gets placed
+  colorSlot: number; // Placed or painted, into the theme palette for the type
+}
+
+export const DEFAULT_ROOM_TOOL: RoomTool = { mode: 'place', type: 'SPHERE', colorSlot: 0 };
+
+// Same id rules as the relay: letters, digits, - and _
+export const isRoomId = (value: string) => /^[\w-]{1,64}$/.test(value);
+
+export const readRoomFromUrl = (): string | null => {
+  const value = new URLSearchParams(window.location.search).get(ROOM_PARAM)?.trim();
+  return value && isRoomId(value) ? value : null;
+};
+
+// Replace (not push), like the seed; null leaves the room
+export const writeRoomToUrl = (room: string | null) => {
+  const url = new URL(window.location.href);
+  if (room) url.searchParams.set(ROOM_PARAM, room);
+  else url.searchParams.delete(ROOM_PARAM);
+  window.history.replaceState(window.history.state, '', url);
+};
+
+export const generateRoomId = () => Math.floor(Math.random() * 0x7fffffff).toString(36);
+
+export const loadRoomName = () => {
+  try {
+    return localStorage.getItem(NAME_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveRoomName = (name: string) => {
+  try {
+    localStorage.setItem(NAME_KEY, name);
+  } catch {
+    // Private mode: the name just isn't remembered
+  }
+};
+
+// One id per tab, kept across reloads, so a reconnect is recognised as the same person
+const getClientId = () => {
+  try {
+    const stored = sessionStorage.getItem(CLIENT_ID_KEY);
+    if (stored) return stored;
+    const id = Math.random().toString(36).slice(2, 12);
+    sessionStorage.setItem(CLIENT_ID_KEY, id);
+    return id;
+  } catch {
+    return Math.random().toString(36).slice(2, 12);
+  }
+};
+
+// Stable color per person, for their cursor and their labels
+export const peerColor = (id: string) => `hsl(${hashSeed(id) % 360}, 85%, 65%)`;
+
+const defaultServerUrl = () =>
+  import.meta.env.VITE_ROOM_SERVER ?? `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.hostname}:${DEFAULT_PORT}`;
+
+const applyOp = (ornaments: Map<number, SharedOrnament>, op: RoomOp, owner: string, ownerName: string) => {
+  if (op.kind === 'place') {
+    if (!ornaments.has(op.ornament.id)) ornaments.set(op.ornament.id, { ...op.ornament, owner, ownerName });
+  } else if (op.kind === 'recolor') {
+    const ornament = ornaments.get(op.id);
+    if (ornament) ornaments.set(op.id, { ...ornament, colorSlot: op.colorSlot });
+  } else {
+    ornaments.delete(op.id);
+  }
+};
+
+export const createRoomClient = (room: string, name: string, url = defaultServerUrl()): RoomClient => {
+  const selfId = getClientId();
+  const listeners = new Set<(state: RoomState) => void>();
+  const cursors = new Map<string, Vec3>();
+  // What the relay has confirmed, and local changes it hasn't echoed yet (in order)
+  let confirmed = new Map<number, SharedOrnament>();
+  let pending: RoomOp[] = [];
+  let peers: RoomPeer[] = [];
+  let status: RoomStatus = 'connecting';
+  let state: RoomState = { status, ornaments: [], peers };
+
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let retry = RETRY_MIN;
+  let retryTimer = 0;
+  let opCounter = 0;
+  let cursorTimer = 0;
+  let cursorSent = false;
+  let cursor: Vec3 | null = null;
+
+  const emit = () => {
+    const view = new Map(confirmed);
+    pending.forEach((op) => applyOp(view, op, selfId, name));
+    state = { status, ornaments: [...view.values()], peers };
+    listeners.forEach((listener) => listener(state));
+  };
+
+  const send = (message: ClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const handle = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'welcome':
+        confirmed = new Map(message.ornaments.filter(isPlacedOrnament).map((o) => [o.id, o]));
+        peers = message.peers;
+        status = 'connected';
+        retry = RETRY_MIN;
+        // Anything not echoed before the connection dropped goes again; repeats are ignored
+        pending.forEach((op) => send({ type: 'op', op }));
+        if (cursor) send({ type: 'cursor', point: cursor });
+        break;
+      case 'op':
+        if (message.op.kind === 'place' && !isPlacedOrnament(message.op.ornament)) break;
+        applyOp(confirmed, message.op, message.by, message.byName);
+        if (message.by === selfId) pending = pending.filter((op) => op.opId !== message.op.opId);
+        break;
+      case 'reject':
+        pending = pending.filter((op) => op.opId !== message.opId);
+        break;
+      case 'peer':
+        peers = [...peers.filter((p) => p.id !== message.peer.id), message.peer];
+        break;
+      case 'leave':
+        peers = peers.filter((p) => p.id !== message.id);
+        cursors.delete(message.id);
+        break;
+      case 'cursor':
+        if (message.point) cursors.set(message.id, message.point);
+        else cursors.delete(message.id);
+        return; // Read every frame; nothing to re-render
+    }
+    emit();
+  };
+
+  const connect = () => {
+    status = 'connecting';
+    emit();
+    const ws = new WebSocket(url);
+    socket = ws;
+    ws.onopen = () => send({ type: 'join', room, clientId: selfId, name });
+    ws.onmessage = (event) => {
+      try {
+        handle(JSON.parse(event.data) as ServerMessage);
+      } catch (err) {
+        console.error(err);
+      }
+    };
+    ws.onclose = (event) => {
+      if (socket !== ws) return;
+      socket = null;
+      peers = [];
+      cursors.clear();
+      if (closed) return;
+      if (event.code === REPLACED_CODE) {
+        status = 'replaced';
+        emit();
+        return;
+      }
+      status = 'offline';
+      emit();
+      retryTimer = window.setTimeout(connect, retry * 1000);
+      retry = Math.min(RETRY_MAX, retry * 2);
+    };
+  };
+
+  // Optimistic: shown right away, sent now or on the next connect
+  const submit = (op: RoomOp) => {
+    pending.push(op);
+    send({ type: 'op', op });
+    emit();
+  };
+
+  const nextOpId = () => `${selfId}:${Date.now().toString(36)}:${opCounter++}`;
+
+  connect();
+
+  return {
+    selfId,
+    cursors,
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    place: (ornament) => submit({ kind: 'place', opId: nextOpId(), ornament }),
+    recolor: (id, colorSlot) => submit({ kind: 'recolor', opId: nextOpId(), id, colorSlot }),
+    remove: (id) => submit({ kind: 'remove', opId: nextOpId(), id }),
+    moveCursor: (point) => {
+      cursor = point;
+      cursorSent = false;
+      if (cursorTimer) return;
+      // Leading edge now, then the latest point once per interval while it keeps moving
+      const flush = () => {
+        cursorTimer = 0;
+        if (cursorSent) return;
+        cursorSent = true;
+        send({ type: 'cursor', point: cursor });
+        cursorTimer = window.setTimeout(flush, CURSOR_INTERVAL);
+      };
+      flush();
+    },
+    close: () => {
+      closed = true;
+      window.clearTimeout(retryTimer);
+      window.clearTimeout(cursorTimer);
+      socket?.close();
+      socket = null;
+      listeners.clear();
+    }
+  };
+};
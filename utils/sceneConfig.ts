@@ -0,0 +1,207 @@
+// Scene configuration: particle counts, ornaments, lights, fog, exposure, bloom and camera,
+// authored in data/scene.json. Validated on load; edits to the file hot-reload in dev.
+import sceneJson from '../data/scene.json';
+import { Vec3 } from '../types';
+
+export interface OrnamentSetConfig {
+  count: number;
+  scaleBase: number;
+}
+
+export interface SpotLightConfig {
+  position: Vec3;
+  intensity: number;
+  angle: number; // Radians
+  penumbra: number;
+}
+
+export interface SceneConfig {
+  // Full-quality particle counts; quality tiers draw a share of these
+  particles: {
+    foliage: number;
+    stars: number;
+    dust: number;
+    snow: number;
+  };
+  ornaments: {
+    spheres: OrnamentSetConfig;
+    gifts: OrnamentSetConfig;
+  };
+  lights: {
+    ambient: { intensity: number };
+    key: SpotLightConfig; // Warm, top right, casts the shadows
+    rim: SpotLightConfig; // Cool, back left
+    inner: { position: Vec3; intensity: number; distance: number }; // Glow inside the tree
+  };
+  fog: { near: number; far: number };
+  renderer: { exposure: number };
+  bloom: {
+    threshold: number; // Luminance above which things glow
+    intensity: number;
+    radius: number;
+    beatBoost: number; // Extra intensity on every beat of the music
+  };
+  camera: {
+    position: Vec3;
+    fov: number;
+    minDistance: number;
+    maxDistance: number;
+    maxPolarAngleDeg: number; // How far below the horizon the camera may orbit, in degrees
+  };
+}
+
+// Schema: one field spec per leaf, mirroring SceneConfig. Defaults are the shipped scene
+interface NumberField {
+  kind: 'number';
+  default: number;
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+interface Vec3Field {
+  kind: 'vec3';
+  default: Vec3;
+}
+
+type Schema<T> = T extends number ? NumberField : T extends Vec3 ? Vec3Field : { [K in keyof T]: Schema<T[K]> };
+
+const num = (value: number, min: number, max: number): NumberField => ({ kind: 'number', default: value, min, max });
+const int = (value: number, min: number, max: number): NumberField => ({ kind: 'number', default: value, min, max, integer: true });
+const vec3 = (value: Vec3): Vec3Field => ({ kind: 'vec3', default: value });
+
+const spotLight = (position: Vec3, intensity: number, angle: number, penumbra: number): Schema<SpotLightConfig> => ({
+  position: vec3(position),
+  intensity: num(intensity, 0, 100),
+  angle: num(angle, 0, Math.PI / 2),
+  penumbra: num(penumbra, 0, 1)
+});
+
+const SCHEMA: Schema<SceneConfig> = {
+  particles: {
+    foliage: int(14000, 100, 100000),
+    stars: int(1500, 0, 20000),
+    dust: int(300, 0, 5000),
+    snow: int(4000, 0, 20000)
+  },
+  ornaments: {
+    spheres: { count: int(250, 0, 2000), scaleBase: num(0.25, 0.01, 2) },
+    gifts: { count: int(100, 0, 2000), scaleBase: num(0.4, 0.01, 2) }
+  },
+  lights: {
+    ambient: { intensity: num(0.3, 0, 10) },
+    key: spotLight([15, 20, 15], 10, 0.6, 0.5),
+    rim: spotLight([-15, 5, -20], 6, 1, 1),
+    inner: { position: vec3([0, 4, 0]), intensity: num(2, 0, 100), distance: num(12, 0, 100) }
+  },
+  fog: { near: num(45, 0, 500), far: num(90, 0, 500) },
+  renderer: { exposure: num(1.2, 0.1, 5) },
+  bloom: {
+    threshold: num(0.85, 0, 2),
+    intensity: num(0.6, 0, 5),
+    radius: num(0.3, 0, 1),
+    beatBoost: num(0.9, 0, 5)
+  },
+  camera: {
+    position: vec3([0, 2, 24]),
+    fov: num(45, 10, 120),
+    minDistance: num(10, 1, 200),
+    maxDistance: num(50, 1, 500),
+    maxPolarAngleDeg: num(112.5, 0, 180)
+  }
+};
+
+const isField = (spec: object): spec is NumberField | Vec3Field => 'kind' in spec;
+
+const describe = (value: unknown) => (typeof value === 'string' ? `"${value}"` : JSON.stringify(value) ?? String(value));
+
+// Walk the schema. Missing keys quietly take the default; wrong ones take it too, with an error
+const readSection = (spec: object, input: unknown, path: string, errors: string[]): unknown => {
+  if (isField(spec)) {
+    if (input === undefined) return spec.default;
+    if (spec.kind === 'vec3') {
+      if (Array.isArray(input) && input.length === 3 && input.every((v) => typeof v === 'number' && Number.isFinite(v))) {
+        return input as Vec3;
+      }
+      errors.push(`${path}: expected [x, y, z] numbers, got ${describe(input)}`);
+      return spec.default;
+    }
+    const { min, max, integer } = spec;
+    if (typeof input !== 'number' || !Number.isFinite(input) || (integer && !Number.isInteger(input)) || input < min || input > max) {
+      errors.push(`${path}: expected ${integer ? 'a whole number' : 'a number'} from ${min} to ${max}, got ${describe(input)}`);
+      return spec.default;
+    }
+    return input;
+  }
+
+  const section = input === undefined ? {} : input;
+  if (typeof section !== 'object' || section === null || Array.isArray(section)) {
+    errors.push(`${path || 'config'}: expected an object, got ${describe(input)}`);
+    return readSection(spec, undefined, path, errors);
+  }
+  Object.keys(section).forEach((key) => {
+    if (!(key in spec)) errors.push(`${path ? `${path}.` : ''}${key}: unknown setting`);
+  });
+  const result: Record<string, unknown> = {};
+  Object.entries(spec).forEach(([key, child]) => {
+    result[key] = readSection(child as object, (section as Record<string, unknown>)[key], path ? `${path}.${key}` : key, errors);
+  });
+  return result;
+};
+
+export interface SceneConfigResult {
+  config: SceneConfig; // Always complete: invalid settings fall back to their defaults
+  errors: string[]; // One readable line per problem, e.g. "fog.far: expected a number from 0 to 500, got "far""
+}
+
+export const validateSceneConfig = (input: unknown): SceneConfigResult => {
+  const errors: string[] = [];
+  const config = readSection(SCHEMA, input, '', errors) as SceneConfig;
+
+  // Settings that only make sense together
+  if (config.fog.near >= config.fog.far) {
+    errors.push(`fog: near (${config.fog.near}) must be less than far (${config.fog.far})`);
+    config.fog = { near: SCHEMA.fog.near.default, far: SCHEMA.fog.far.default };
+  }
+  if (config.camera.minDistance > config.camera.maxDistance) {
+    errors.push(`camera: minDistance (${config.camera.minDistance}) must not exceed maxDistance (${config.camera.maxDistance})`);
+    config.camera.minDistance = SCHEMA.camera.minDistance.default;
+    config.camera.maxDistance = SCHEMA.camera.maxDistance.default;
+  }
+  return { config, errors };
+};
+
+export const DEFAULT_SCENE_CONFIG: SceneConfig = validateSceneConfig({}).config;
+
+// Pretty JSON in the data/scene.json format, ready to save as a variant
+export const exportSceneConfig = (config: SceneConfig) => `${JSON.stringify(config, null, 2)}\n`;
+
+// Validate and report, like the ornament messages
+const load = (input: unknown): SceneConfig => {
+  const { config, errors } = validateSceneConfig(input);
+  errors.forEach((error) => console.warn(`data/scene.json: ${error}`));
+  return config;
+};
+
+let current = load(sceneJson);
+const listeners = new Set<(config: SceneConfig) => void>();
+
+export const getSceneConfig = () => current;
+
+// Called with every hot-reloaded config. Returns the unsubscribe function
+export const subscribeSceneConfig = (listener: (config: SceneConfig) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Dev only: an edited data/scene.json is swapped in without reloading the page,
+// so the layout, morph and everything else in the app stays where it is
+if (import.meta.hot) {
+  import.meta.hot.accept('../data/scene.json', (module) => {
+    if (!module) return;
+    current = load(module.default);
+    listeners.forEach((listener) => listener(current));
+  });
+}
@@ -0,0 +1,25 @@
+// Seed handling for reproducible layouts.
+// The seed lives in the URL (?seed=...) so a shared link always rebuilds the same tree.
+
+const SEED_PARAM = 'seed';
+export const MAX_SEED_LENGTH = 32;
+
+// Seeds travel in links (query and card hash alike), so they stay URL-safe
+export const isSeed = (value: string) => value.length <= MAX_SEED_LENGTH && /^[a-z0-9_-]+$/i.test(value);
+
+// Short, URL-friendly random seed (e.g. "k3x9q2")
+export const generateSeed = (): string => {
+  return Math.floor(Math.random() * 0x7fffffff).toString(36);
+};
+
+export const readSeedFromUrl = (): string | null => {
+  const value = new URLSearchParams(window.location.search).get(SEED_PARAM)?.trim();
+  return value && isSeed(value) ? value : null;
+};
+
+// Replace (not push) so re-rolling doesn't flood the browser history
+export const writeSeedToUrl = (seed: string) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set(SEED_PARAM, seed);
+  window.history.replaceState(window.history.state, '', url);
+};
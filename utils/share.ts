@@ -0,0 +1,130 @@
+// Personalized greeting cards encoded in the URL hash, so links work without a backend.
+//
+// Format: #c1.<base64url(JSON array)>
+//   "c1" is the format version. The payload is a positional array (no keys) to keep links short:
+//   [recipient, title, subtitle, themeId, state, seed, greeting]
+
+import { TreeMorphState } from '../types';
+import { isThemeId } from './themes';
+import { MAX_SEED_LENGTH, isSeed } from './seed';
+
+export interface GreetingCard {
+  recipient: string; // Empty = no "Dear ..." line
+  title: string;
+  subtitle: string;
+  themeId: string;
+  state: TreeMorphState; // Layout the scene starts in
+  seed: string;
+  greeting: string; // Text for the greeting layout
+}
+
+// The personal parts of a card; the rest comes from the live scene
+export type CardDetails = Pick<GreetingCard, 'recipient' | 'title' | 'subtitle' | 'themeId'>;
+
+const VERSION_PREFIX = 'c1.';
+
+const LIMITS = {
+  recipient: 40,
+  title: 40,
+  subtitle: 60,
+  seed: MAX_SEED_LENGTH,
+  greeting: 24
+};
+
+// Layouts that can't be rebuilt from a link alone (pictures stay on the sender's machine)
+const UNSHAREABLE_STATES = [TreeMorphState.IMAGE];
+
+export const isShareableState = (state: TreeMorphState) => !UNSHAREABLE_STATES.includes(state);
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+};
+
+const checkString = (value: unknown, field: keyof typeof LIMITS): string => {
+  if (typeof value !== 'string') {
+    throw new Error(`Card field "${field}" must be text`);
+  }
+  if (value.length > LIMITS[field]) {
+    throw new Error(`Card field "${field}" is longer than ${LIMITS[field]} characters`);
+  }
+  return value;
+};
+
+// Throws with a readable message if any field doesn't make sense
+export const validateCard = (card: GreetingCard): GreetingCard => {
+  checkString(card.recipient, 'recipient');
+  checkString(card.title, 'title');
+  checkString(card.subtitle, 'subtitle');
+  checkString(card.greeting, 'greeting');
+  if (!isSeed(checkString(card.seed, 'seed'))) {
+    throw new Error('Card seed may only contain letters, digits, "-" and "_"');
+  }
+  if (!isThemeId(card.themeId)) {
+    throw new Error(`Unknown theme "${card.themeId}"`);
+  }
+  if (!Object.values(TreeMorphState).includes(card.state) || !isShareableState(card.state)) {
+    throw new Error(`Layout "${card.state}" can't be shared`);
+  }
+  return card;
+};
+
+export const encodeCard = (card: GreetingCard): string => {
+  const { recipient, title, subtitle, themeId, state, seed, greeting } = validateCard(card);
+  return VERSION_PREFIX + toBase64Url(JSON.stringify([recipient, title, subtitle, themeId, state, seed, greeting]));
+};
+
+// Inverse of encodeCard. Throws on unknown versions and malformed or invalid payloads
+export const decodeCard = (encoded: string): GreetingCard => {
+  if (!encoded.startsWith(VERSION_PREFIX)) {
+    throw new Error('Unsupported card link version');
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded.slice(VERSION_PREFIX.length)));
+  } catch {
+    throw new Error('Card link is corrupted');
+  }
+  if (!Array.isArray(payload) || payload.length !== 7) {
+    throw new Error('Card link is corrupted');
+  }
+
+  const [recipient, title, subtitle, themeId, state, seed, greeting] = payload;
+  return validateCard({ recipient, title, subtitle, themeId, state, seed, greeting });
+};
+
+// Card from the current URL hash, or null when the page was opened without one
+export const readCardFromUrl = (): GreetingCard | null => {
+  const hash = window.location.hash.replace(/^#/, '');
+  if (!hash) return null;
+  try {
+    return decodeCard(hash);
+  } catch (err) {
+    console.warn(`Ignoring greeting card link: ${(err as Error).message}`);
+    return null;
+  }
+};
+
+export const writeCardToUrl = (card: GreetingCard): string => {
+  const url = new URL(window.location.href);
+  url.hash = encodeCard(card);
+  window.history.replaceState(window.history.state, '', url);
+  return url.toString();
+};
+
+// The card's seed wins over ?seed= on load, so a re-rolled tree drops the card link
+export const clearCardFromUrl = () => {
+  if (!window.location.hash) return;
+  const url = new URL(window.location.href);
+  url.hash = '';
+  window.history.replaceState(window.history.state, '', url);
+};
@@ -0,0 +1,112 @@
+import * as THREE from 'three';
+import { Font, FontLoader } from 'three/examples/jsm/loaders/FontLoader.js';
+// Bundled with the app (no runtime fetch), covers basic Latin
+import fontJson from 'three/examples/fonts/optimer_bold.typeface.json';
+import { Vec3 } from '../types';
+import { RandomFn, pickWeightedIndex } from './math';
+
+export const DEFAULT_GREETING = 'Merry Christmas';
+
+// Largest box the text is fitted into, in scene units (the tree is ~11 wide, 12 tall)
+const MAX_WIDTH = 18;
+const MAX_HEIGHT = 6;
+const DEPTH = 0.8;
+const CURVE_SEGMENTS = 6;
+
+let font: Font | null = null;
+const getFont = (): Font => {
+  if (!font) {
+    font = new FontLoader().parse(fontJson);
+  }
+  return font;
+};
+
+// Whitespace lays out; anything else needs a glyph in the font. Missing ones would draw
+// nothing (and log an error each), so they're left out before the text is shaped
+export const hasGlyph = (char: string) => /\s/.test(char) || char in getFont().data.glyphs;
+
+export const drawableText = (input: string) => Array.from(input).filter(hasGlyph).join('').trim();
+
+// Sampleable text: filled glyph areas for foliage, glyph outlines for ornaments
+export interface TextShape {
+  text: string;
+  fillPoint: (random: RandomFn) => Vec3;
+  // t in [0, 1) walks every outline (holes included) end to end
+  outlinePoint: (random: RandomFn, t: number) => Vec3;
+}
+
+export const createTextShape = (input: string, yOffset = 1): TextShape => {
+  // Nothing drawable left (e.g. a greeting in a script the font lacks): the default instead of a collapsed layout
+  const text = drawableText(input) || DEFAULT_GREETING;
+  const shapes = getFont().generateShapes(text, 1);
+
+  // Fit and center the text block
+  const bounds = new THREE.Box2();
+  shapes.forEach((shape) => shape.getPoints(CURVE_SEGMENTS).forEach((p) => bounds.expandByPoint(p)));
+  const size = bounds.getSize(new THREE.Vector2());
+  const center = bounds.getCenter(new THREE.Vector2());
+  const scale = Math.min(MAX_WIDTH / Math.max(size.x, 0.001), MAX_HEIGHT / Math.max(size.y, 0.001));
+  const place = (x: number, y: number): [number, number] => [(x - center.x) * scale, (y - center.y) * scale + yOffset];
+
+  // Triangulate glyph fills, weight by area so density is even across letters
+  const triangles: THREE.Vector2[][] = [];
+  const areas: number[] = [];
+  // Outline polylines (outer contours and holes)
+  const contours: THREE.Vector2[][] = [];
+
+  shapes.forEach((shape) => {
+    const { shape: outer, holes } = shape.extractPoints(CURVE_SEGMENTS);
+    const vertices = outer.concat(...holes);
+    THREE.ShapeUtils.triangulateShape(outer, holes).forEach(([a, b, c]) => {
+      const tri = [vertices[a], vertices[b], vertices[c]];
+      triangles.push(tri);
+      areas.push(Math.abs(THREE.ShapeUtils.area(tri)));
+    });
+    [outer, ...holes].forEach((points) => contours.push([...points, points[0]]));
+  });
+
+  const cumulativeArea: number[] = [];
+  areas.reduce((sum, a) => {
+    cumulativeArea.push(sum + a);
+    return sum + a;
+  }, 0);
+  const totalArea = cumulativeArea[cumulativeArea.length - 1] || 0;
+
+  const segments: [THREE.Vector2, THREE.Vector2][] = [];
+  contours.forEach((points) => {
+    for (let i = 0; i < points.length - 1; i++) segments.push([points[i], points[i + 1]]);
+  });
+  const cumulativeLength: number[] = [];
+  segments.reduce((sum, [a, b]) => {
+    cumulativeLength.push(sum + a.distanceTo(b));
+    return sum + a.distanceTo(b);
+  }, 0);
+  const totalLength = cumulativeLength[cumulativeLength.length - 1] || 0;
+
+  const fillPoint = (random: RandomFn): Vec3 => {
+    if (triangles.length === 0) return [0, yOffset, 0];
+    const [a, b, c] = triangles[pickWeightedIndex(cumulativeArea, random() * totalArea)];
+    // Uniform point in triangle
+    let u = random();
+    let v = random();
+    if (u + v > 1) {
+      u = 1 - u;
+      v = 1 - v;
+    }
+    const [x, y] = place(a.x + (b.x - a.x) * u + (c.x - a.x) * v, a.y + (b.y - a.y) * u + (c.y - a.y) * v);
+    return [x, y, (random() - 0.5) * DEPTH];
+  };
+
+  const outlinePoint = (random: RandomFn, t: number): Vec3 => {
+    if (segments.length === 0) return [0, yOffset, 0];
+    const target = t * totalLength;
+    const i = pickWeightedIndex(cumulativeLength, target);
+    const [a, b] = segments[i];
+    const length = a.distanceTo(b);
+    const f = length > 0 ? 1 - (cumulativeLength[i] - target) / length : 0;
+    const [x, y] = place(a.x + (b.x - a.x) * f, a.y + (b.y - a.y) * f);
+    return [x, y, (random() - 0.5) * DEPTH * 0.5];
+  };
+
+  return { text, fillPoint, outlinePoint };
+};
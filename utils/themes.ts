@@ -0,0 +1,151 @@
+// Typed theme registry. Every color in the scene and the overlay is read from here
+import * as THREE from 'three';
+
+export interface Theme {
+  id: string;
+  label: string;
+  background: string;
+  fog: string;
+  foliage: {
+    base: string; // The bulk of the needles
+    highlight: string; // Rare glowing sparkles
+  };
+  // Ornament palettes. Slots matter: ornaments keep their slot across themes,
+  // so a theme switch recolors them in place. Repeats weight the pick
+  ornaments: {
+    sphere: string[]; // 5 slots, slot 3 is the small accent color
+    gift: string[]; // 6 slots
+  };
+  star: string; // Tree topper
+  garland: string; // Tinsel wrapped around the tree
+  bulbs: string[]; // String light colors, 4 slots (see utils/lights.ts)
+  dust: string;
+  snow: string; // Falling and settled snow
+  stars: string; // Background sky
+  lights: {
+    ambient: string;
+    key: string;
+    rim: string;
+    inner: string; // Glow inside the tree
+  };
+  // Overlay colors, exposed to Tailwind as the `arix` palette
+  ui: {
+    dark: string;
+    emerald: string;
+    gold: string;
+    goldLight: string;
+    goldDark: string;
+  };
+}
+
+export const THEMES: Theme[] = [
+  {
+    id: 'classic',
+    label: 'Classic Emerald',
+    background: '#000502',
+    fog: '#000502',
+    // Deep luxurious emerald (almost black-green base), high intensity gold
+    foliage: { base: '#013321', highlight: '#ffc800' },
+    ornaments: {
+      // Mostly gold, occasional red and pearl
+      sphere: ['#ffc125', '#ffc125', '#ffc125', '#8a0000', '#ffffff'],
+      // Deep red, chocolate, white/silver, gold, more gold, deep green
+      gift: ['#8a0000', '#8B4513', '#F5F5F5', '#D4AF37', '#D4AF37', '#064e3b']
+    },
+    star: '#FFF7E6', // Warm Ivory / White Gold
+    garland: '#ffd27a',
+    bulbs: ['#ffb347', '#ff4d4d', '#7dff9a', '#fff2cc'],
+    dust: '#ffddaa',
+    snow: '#f4f8ff',
+    stars: '#aaccff',
+    lights: { ambient: '#ffebdb', key: '#ffaa00', rim: '#d0eeff', inner: '#ff8800' },
+    ui: { dark: '#011c12', emerald: '#064e3b', gold: '#d4af37', goldLight: '#fcf6ba', goldDark: '#8a6e18' }
+  },
+  {
+    id: 'frost',
+    label: 'Silver Frost',
+    background: '#02050a',
+    fog: '#02050a',
+    foliage: { base: '#0d2a3a', highlight: '#cfe8ff' },
+    ornaments: {
+      sphere: ['#dfe7ef', '#dfe7ef', '#c0c0c0', '#6fa8dc', '#ffffff'],
+      gift: ['#4a6d8c', '#c0c0c0', '#F5F5F5', '#9fc3e7', '#dfe7ef', '#1f3b57']
+    },
+    star: '#eef6ff',
+    garland: '#e6f2ff',
+    bulbs: ['#cfe8ff', '#7fb2ff', '#ffffff', '#a0c4ff'],
+    dust: '#dceeff',
+    snow: '#ffffff',
+    stars: '#cfe0ff',
+    lights: { ambient: '#e6f0ff', key: '#bcd8ff', rim: '#ffffff', inner: '#7fb2ff' },
+    ui: { dark: '#050d16', emerald: '#1f3b57', gold: '#c9d6e3', goldLight: '#f2f7fc', goldDark: '#6f8399' }
+  },
+  {
+    id: 'rose',
+    label: 'Rose Gold',
+    background: '#070203',
+    fog: '#070203',
+    foliage: { base: '#2e0f17', highlight: '#ffb08a' },
+    ornaments: {
+      sphere: ['#e8b4a0', '#e8b4a0', '#f1c9a5', '#8c2f48', '#ffffff'],
+      gift: ['#b76e79', '#6d2e46', '#F5F5F5', '#e8b4a0', '#f1c9a5', '#3d1a24']
+    },
+    star: '#fff0e8',
+    garland: '#ffc9b0',
+    bulbs: ['#ffb08a', '#ff6f91', '#fff0e8', '#f7a6c1'],
+    dust: '#ffd6c2',
+    snow: '#fff4f6',
+    stars: '#ffd9e6',
+    lights: { ambient: '#ffe6e0', key: '#ff9a7a', rim: '#ffe0f0', inner: '#ff6f61' },
+    ui: { dark: '#1a0a0e', emerald: '#4a1d2b', gold: '#e0a890', goldLight: '#fbe4da', goldDark: '#8c5a4a' }
+  },
+  {
+    id: 'midnight',
+    label: 'Midnight Blue',
+    background: '#00010a',
+    fog: '#00010a',
+    foliage: { base: '#06113a', highlight: '#ffd66b' },
+    ornaments: {
+      sphere: ['#ffd66b', '#ffd66b', '#c0c8ff', '#3b4cca', '#ffffff'],
+      gift: ['#1b2a6b', '#3b4cca', '#F5F5F5', '#ffd66b', '#c0c8ff', '#0a1440']
+    },
+    star: '#fff6d6',
+    garland: '#ffe29a',
+    bulbs: ['#ffd66b', '#6f86ff', '#ffffff', '#b388ff'],
+    dust: '#fff0c0',
+    snow: '#e8ecff',
+    stars: '#b8c4ff',
+    lights: { ambient: '#dfe4ff', key: '#ffc866', rim: '#9fb0ff', inner: '#ffb347' },
+    ui: { dark: '#040822', emerald: '#0f1c5c', gold: '#e6c35c', goldLight: '#fdf3c4', goldDark: '#8a7322' }
+  }
+];
+
+export const DEFAULT_THEME_ID = 'classic';
+
+export const getTheme = (id: string): Theme => THEMES.find((t) => t.id === id) ?? THEMES[0];
+
+export const isThemeId = (id: string) => THEMES.some((t) => t.id === id);
+
+// Cross-fade rate, roughly "most of the way there in a second"
+const FADE_SPEED = 3;
+
+// Ease a live color towards its theme target. Call every frame; cheap once it has arrived
+export const fadeColor = (current: THREE.Color, target: THREE.Color, delta: number) => {
+  if (current.equals(target)) return;
+  current.lerp(target, Math.min(1, delta * FADE_SPEED));
+  const diff = Math.abs(current.r - target.r) + Math.abs(current.g - target.g) + Math.abs(current.b - target.b);
+  if (diff < 0.001) current.copy(target);
+};
+
+// "#d4af37" -> "212 175 55", the format the Tailwind color variables expect
+const toRgbChannels = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].join(' ');
+};
+
+// Point the Tailwind `arix` colors (CSS variables, see index.html) at the theme
+export const applyThemeToDocument = (theme: Theme) => {
+  const root = document.documentElement.style;
+  Object.entries(theme.ui).forEach(([name, hex]) => root.setProperty(`--arix-${name}`, toRgbChannels(hex)));
+  document.body.style.backgroundColor = theme.ui.dark;
+};
@@ -0,0 +1,142 @@
+// Transition controller: the one morph timeline every layer reads.
+// Raw progress runs 0 (previous layout) to 1 (current layout) over the whole transition;
+// each layer maps it onto its own time window (layerTime) and easing curve (layerProgress).
+// Staggered choreographies additionally delay every particle within its layer (particleProgress).
+
+import { EASINGS, EasingName, evaluateSamples, getEasingSamples } from './easing';
+import { ChoreographyName } from './choreography';
+
+// Parts of the scene that morph, each with its own duration
+export type TransitionLayer = 'foliage' | 'spheres' | 'gifts' | 'garland' | 'star';
+
+export interface TransitionConfig {
+  easing: EasingName;
+  durations: Record<TransitionLayer, number>; // Seconds at speed 1
+  choreography: ChoreographyName; // Takes effect with the next layout change
+}
+
+export const DEFAULT_TRANSITION: TransitionConfig = {
+  easing: 'cubic',
+  // Heavier gift boxes settle last, the spheres first
+  durations: { foliage: 2.4, spheres: 2, gifts: 3, garland: 2.6, star: 2.4 },
+  choreography: 'together'
+};
+
+// Share of a layer's window spent staggering start times in a choreographed build
+const STAGGER = 0.6;
+// Choreographed builds chain the layers: ornaments and garlands set off once the foliage is
+// this far along, and the star lights up after the last of them has landed
+const ORNAMENTS_AFTER = 0.7;
+
+export const TIMELINE_SPEEDS = [0.25, 0.5, 1, 2];
+
+// Mutable and shared, like the audio levels; the scene reads it every frame
+export interface MorphTimeline {
+  progress: number;
+  playing: boolean;
+  direction: 1 | -1; // -1 plays the morph backwards
+  speed: number; // Playback rate multiplier
+  config: TransitionConfig;
+  choreography: ChoreographyName; // Of the running transition; config.choreography applies from the next
+  ended: boolean; // The current transition reached its end (see TimelineController)
+}
+
+export const createMorphTimeline = (config: TransitionConfig = DEFAULT_TRANSITION): MorphTimeline => ({
+  progress: 0,
+  playing: true,
+  direction: 1,
+  speed: 1,
+  config,
+  choreography: config.choreography,
+  ended: false
+});
+
+// When each layer starts and for how long, in seconds from the start of the transition
+const layerWindow = ({ config, choreography }: MorphTimeline, layer: TransitionLayer) => {
+  const { durations } = config;
+  if (choreography === 'together') return { start: 0, duration: durations[layer] };
+  const ornamentsStart = durations.foliage * ORNAMENTS_AFTER;
+  switch (layer) {
+    case 'foliage':
+      return { start: 0, duration: durations.foliage };
+    case 'spheres':
+    case 'gifts':
+    case 'garland':
+      return { start: ornamentsStart, duration: durations[layer] };
+    case 'star':
+      return { start: ornamentsStart + Math.max(durations.spheres, durations.gifts, durations.garland), duration: durations.star };
+  }
+};
+
+const LAYERS: TransitionLayer[] = ['foliage', 'spheres', 'gifts', 'garland', 'star'];
+
+// Seconds for a whole transition at speed 1: until the last layer ends
+export const timelineDuration = (timeline: MorphTimeline) =>
+  Math.max(...LAYERS.map((layer) => {
+    const { start, duration } = layerWindow(timeline, layer);
+    return start + duration;
+  }));
+
+// Linear 0..1 progress of one layer through its own window
+export const layerTime = (timeline: MorphTimeline, layer: TransitionLayer) => {
+  const { start, duration } = layerWindow(timeline, layer);
+  const elapsed = timeline.progress * timelineDuration(timeline) - start;
+  return Math.min(1, Math.max(0, elapsed / duration));
+};
+
+// Eased progress of one layer as a whole. Can overshoot 1 on spring and elastic curves
+export const layerProgress = (timeline: MorphTimeline, layer: TransitionLayer) => {
+  return EASINGS[timeline.config.easing](layerTime(timeline, layer));
+};
+
+// Share of the layer window spread over particle delays (0 when everything moves together)
+export const staggerAmount = (timeline: MorphTimeline) => (timeline.choreography === 'together' ? 0 : STAGGER);
+
+// Eased progress of the layer's particles by their 0..1 start delay, as of right now.
+// Shaders do the same with easeCurve (see easing.ts)
+export const particleProgress = (timeline: MorphTimeline, layer: TransitionLayer) => {
+  const time = layerTime(timeline, layer);
+  const stagger = staggerAmount(timeline);
+  const samples = getEasingSamples(timeline.config.easing);
+  return (delay: number) => evaluateSamples(samples, (time - delay * stagger) / (1 - stagger));
+};
+
+// Move along at the chosen speed; playback stops at either end
+export const advanceTimeline = (timeline: MorphTimeline, delta: number) => {
+  if (!timeline.playing) return;
+  const next = timeline.progress + (timeline.direction * timeline.speed * delta) / timelineDuration(timeline);
+  timeline.progress = Math.min(1, Math.max(0, next));
+  if (timeline.progress === (timeline.direction > 0 ? 1 : 0)) timeline.playing = false;
+};
+
+// A new layout was picked: play its morph forwards from the start (speed and easing are kept)
+export const restartTimeline = (timeline: MorphTimeline) => {
+  timeline.choreography = timeline.config.choreography;
+  timeline.progress = 0;
+  timeline.direction = 1;
+  timeline.playing = true;
+  timeline.ended = false;
+};
+
+// Jump to a position by hand (slider, gestures). Scrubbing pauses playback
+export const seekTimeline = (timeline: MorphTimeline, progress: number) => {
+  timeline.progress = Math.min(1, Math.max(0, progress));
+  timeline.playing = false;
+};
+
+export const toggleTimelinePlayback = (timeline: MorphTimeline) => {
+  if (timeline.playing) {
+    timeline.playing = false;
+    return;
+  }
+  // Playing from the end it's heading to starts over from the other end
+  if (timeline.progress === (timeline.direction > 0 ? 1 : 0)) {
+    timeline.progress = timeline.direction > 0 ? 0 : 1;
+  }
+  timeline.playing = true;
+};
+
+export const reverseTimeline = (timeline: MorphTimeline) => {
+  timeline.direction = timeline.direction > 0 ? -1 : 1;
+  timeline.playing = true;
+};
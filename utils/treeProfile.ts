@@ -0,0 +1,90 @@
+// Tree silhouette model: the outline the Tree layout's foliage, ornaments and star follow.
+// Heights are normalized over the canopy (0 = lowest branches, 1 = tip); the trunk sits below it.
+
+export interface TreeProfile {
+  height: number; // Base of the trunk to the tip
+  radius: number; // Canopy radius at its widest
+  tiers: number; // Stacked branch layers, 1 = a single smooth cone
+  droop: number; // 0..1, how far branch tips hang down
+  curve: number; // Taper exponent: 1 = straight cone, below 1 fuller, above 1 slender
+  trunk: number; // 0..0.3, share of the height that is bare trunk
+  asymmetry: number; // 0..1, uneven wind-swept outline
+}
+
+// The original straight cone, so existing seeds and shared cards look the same
+export const DEFAULT_TREE_PROFILE: TreeProfile = {
+  height: 12,
+  radius: 5.5,
+  tiers: 1,
+  droop: 0,
+  curve: 1,
+  trunk: 0,
+  asymmetry: 0
+};
+
+export interface TreeProfilePreset {
+  id: string;
+  label: string;
+  profile: TreeProfile;
+}
+
+export const TREE_PROFILE_PRESETS: TreeProfilePreset[] = [
+  { id: 'cone', label: 'Cone', profile: DEFAULT_TREE_PROFILE },
+  { id: 'fir', label: 'Fir', profile: { height: 12, radius: 5.5, tiers: 5, droop: 0.4, curve: 0.9, trunk: 0.08, asymmetry: 0.1 } },
+  { id: 'spruce', label: 'Spruce', profile: { height: 13, radius: 4.5, tiers: 8, droop: 0.6, curve: 1.3, trunk: 0.05, asymmetry: 0.05 } },
+  { id: 'wild', label: 'Wild', profile: { height: 11, radius: 6, tiers: 4, droop: 0.2, curve: 0.7, trunk: 0.15, asymmetry: 0.7 } }
+];
+
+export interface TreeProfileField {
+  key: keyof TreeProfile;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Editable ranges, for the overlay editor
+export const TREE_PROFILE_FIELDS: TreeProfileField[] = [
+  { key: 'height', min: 8, max: 14, step: 0.1 },
+  { key: 'radius', min: 3, max: 7, step: 0.1 },
+  { key: 'tiers', min: 1, max: 8, step: 1 },
+  { key: 'droop', min: 0, max: 1, step: 0.01 },
+  { key: 'curve', min: 0.5, max: 2, step: 0.01 },
+  { key: 'trunk', min: 0, max: 0.3, step: 0.01 },
+  { key: 'asymmetry', min: 0, max: 1, step: 0.01 }
+];
+
+// Each tier narrows to this share of its base radius before the next one flares out
+const TIER_INSET = 0.45;
+// Trunk thickness relative to the canopy radius
+const TRUNK_RADIUS = 0.08;
+
+// Height of the bare trunk, and where the canopy starts
+export const trunkHeight = (profile: TreeProfile) => profile.height * profile.trunk;
+
+// Outer canopy radius at canopy height h and angle around the trunk
+export const canopyRadius = (profile: TreeProfile, h: number, angle: number) => {
+  const { radius, tiers, curve, asymmetry } = profile;
+  let r = radius * Math.pow(Math.max(0, 1 - h), curve);
+  if (tiers > 1) {
+    // Sawtooth: every tier starts wide and narrows towards the one above it
+    const f = h * tiers - Math.floor(h * tiers);
+    r *= 1 - TIER_INSET * f;
+  }
+  if (asymmetry > 0) {
+    // Fixed lumps around the outline, shifting a little with height
+    r *= 1 + asymmetry * 0.35 * (0.6 * Math.sin(angle * 2 + 1.3) + 0.4 * Math.sin(angle * 3 + h * 6));
+  }
+  return r;
+};
+
+// How far a point `reach` (0 = trunk, 1 = branch tip) out from the trunk hangs below its tier
+export const branchDroop = (profile: TreeProfile, reach: number) =>
+  profile.droop * reach * reach * ((profile.height - trunkHeight(profile)) / Math.max(1, profile.tiers)) * 0.6;
+
+// Trunk particles, as a share of the foliage
+export const trunkShare = (profile: TreeProfile) => profile.trunk * 0.3;
+
+export const trunkRadius = (profile: TreeProfile) => profile.radius * TRUNK_RADIUS;
+
+// Y of the tree tip, for the star (same yOffset as the tree helpers in math.ts)
+export const treeTop = (profile: TreeProfile, yOffset = -5) => profile.height + yOffset;
@@ -0,0 +1,61 @@
+// Weather presets and the snow cover they build up over time
+
+export type WeatherId = 'none' | 'flurry' | 'blizzard';
+
+export interface WeatherPreset {
+  id: WeatherId;
+  label: string;
+  intensity: number; // 0..1, share of the flakes falling
+  wind: [number, number]; // Horizontal wind (x, z), units per second
+  turbulence: number; // How far flakes flutter off their line
+  fallSpeed: number; // Units per second
+}
+
+export const WEATHER_PRESETS: WeatherPreset[] = [
+  { id: 'none', label: 'Clear', intensity: 0, wind: [0, 0], turbulence: 0, fallSpeed: 1.5 },
+  { id: 'flurry', label: 'Light Flurry', intensity: 0.35, wind: [0.4, 0.1], turbulence: 0.4, fallSpeed: 1.2 },
+  { id: 'blizzard', label: 'Blizzard', intensity: 1, wind: [4, 1.2], turbulence: 1.2, fallSpeed: 3.5 }
+];
+
+export const DEFAULT_WEATHER_ID: WeatherId = 'none';
+
+export const getWeather = (id: WeatherId): WeatherPreset => WEATHER_PRESETS.find((w) => w.id === id) ?? WEATHER_PRESETS[0];
+
+// Snow in the scene, 0..1 each. One shared object, mutated in place like the audio levels
+export interface SnowCover {
+  falling: number; // Eases towards the preset intensity, so flakes don't pop in and out
+  ground: number; // Settled on the disc under the tree
+  tree: number; // Caps on the branches and gift boxes
+}
+
+export const createSnowCover = (): SnowCover => ({ falling: 0, ground: 0, tree: 0 });
+
+// Rate the falling snow follows a preset change, per second
+const FALL_RESPONSE = 0.5;
+// Seconds to fully cover at full intensity; lighter snow takes proportionally longer
+const GROUND_BUILD = 40;
+const TREE_BUILD = 20;
+// Seconds to melt away completely once the weather clears
+const MELT = 12;
+// Rate at which a morph shakes the snow off the tree, per second
+const SHAKE_OFF = 2;
+
+// Build up or melt the cover. `settled` = the tree is standing still in its tree shape
+export const updateSnowCover = (cover: SnowCover, intensity: number, settled: boolean, delta: number) => {
+  cover.falling += (intensity - cover.falling) * Math.min(1, delta * FALL_RESPONSE);
+  if (Math.abs(intensity - cover.falling) < 0.001) cover.falling = intensity;
+
+  if (intensity > 0) {
+    cover.ground = Math.min(1, cover.ground + (delta * intensity) / GROUND_BUILD);
+  } else {
+    cover.ground = Math.max(0, cover.ground - delta / MELT);
+  }
+
+  if (!settled) {
+    cover.tree = Math.max(0, cover.tree - delta * SHAKE_OFF);
+  } else if (intensity > 0) {
+    cover.tree = Math.min(1, cover.tree + (delta * intensity) / TREE_BUILD);
+  } else {
+    cover.tree = Math.max(0, cover.tree - delta / MELT);
+  }
+};
@@ -2,8 +2,21 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Library builds (npm run build:lib), picked by --mode. `lib` leaves React, three and the
+// @react-three packages to the host app; `standalone` bundles them for plain <script> pages
+const LIBRARY_BUILDS: Record<string, { entry: string; fileName: string; bundleDependencies: boolean }> = {
+  lib: { entry: 'lib/index.ts', fileName: 'holiday-tree.js', bundleDependencies: false },
+  standalone: { entry: 'lib/standalone.ts', fileName: 'holiday-tree.standalone.js', bundleDependencies: true }
+};
+
+const PEER_DEPENDENCIES = [/^react(-dom)?(\/|$)/, /^three(\/|$)/, /^@react-three\//, /^webm-muxer$/];
+
+// JSON (the greeting font) is bundled either way: browsers can't import it as a plain module
+const isPeerDependency = (id: string) => !id.endsWith('.json') && PEER_DEPENDENCIES.some((pattern) => pattern.test(id));
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const library = LIBRARY_BUILDS[mode];
     return {
       server: {
         port: 3000,
@@ -12,12 +25,29 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Library mode leaves this alone, and a bundled React reads it
+        ...(library?.bundleDependencies && { 'process.env.NODE_ENV': JSON.stringify('production') })
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      ...(library && {
+        publicDir: false,
+        build: {
+          outDir: 'dist/lib',
+          emptyOutDir: mode === 'lib', // Runs first; standalone lands next to it
+          lib: {
+            entry: path.resolve(__dirname, library.entry),
+            formats: ['es'],
+            fileName: () => library.fileName
+          },
+          rollupOptions: {
+            external: library.bundleDependencies ? [] : isPeerDependency
+          }
+        }
+      })
     };
 });